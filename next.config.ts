@@ -1,7 +1,11 @@
 import type { NextConfig } from 'next'
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ['sharp', 'exiftool-vendored'],
+  serverExternalPackages: ['sharp', 'exiftool-vendored', 'heic-decode'],
+  // The offline gazetteer is read from disk by the extraction routes
+  outputFileTracingIncludes: {
+    '/api/**': ['./src/data/**'],
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { withTempImage } from '@/lib/exiftool';
+import { coarsenLocation } from '@/lib/location-coarsen';
+import { parseLocationPrecision } from '@/lib/location-precision';
+import { CoarsenLocationResult } from '@/types/exif';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image') as File;
+    const rawPrecision = formData.get('precision');
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No image file provided' },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type
+    if (!file.type.startsWith('image/')) {
+      return NextResponse.json(
+        { error: 'File must be an image' },
+        { status: 400 }
+      );
+    }
+
+    // e.g. {"kind":"grid","cellKm":10} or {"kind":"decimals","decimals":2}
+    let precisionJson: unknown;
+    try {
+      precisionJson = typeof rawPrecision === 'string' ? JSON.parse(rawPrecision) : undefined;
+    } catch {
+      return NextResponse.json(
+        { error: 'Precision must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const parsedPrecision = parseLocationPrecision(precisionJson);
+    if ('error' in parsedPrecision) {
+      return NextResponse.json(
+        { error: parsedPrecision.error },
+        { status: 400 }
+      );
+    }
+
+    // Check file size (50MB limit)
+    if (file.size > 50 * 1024 * 1024) {
+      return NextResponse.json(
+        { error: 'File too large. Maximum size is 50MB.' },
+        { status: 413 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    const outcome = await withTempImage(buffer, file.name, async (filePath) => {
+      const manifest = await coarsenLocation(filePath, parsedPrecision.precision);
+      return manifest && { manifest, coarsened: await fs.readFile(filePath) };
+    });
+
+    if (!outcome) {
+      return NextResponse.json(
+        { error: 'This image has no GPS position to coarsen' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = path.parse(file.name);
+    const result: CoarsenLocationResult = {
+      filename: `${parsed.name}-coarse${parsed.ext}`,
+      mimeType: file.type,
+      size: outcome.coarsened.length,
+      data: outcome.coarsened.toString('base64'),
+      ...outcome.manifest,
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Location coarsening error:', error);
+
+    if (error instanceof Error && error.message.includes('Writing of this type of file is not supported')) {
+      return NextResponse.json(
+        { error: 'Rewriting the location of this image format is not supported.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to coarsen the location. Please try again with a different image.' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
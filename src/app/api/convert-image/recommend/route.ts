@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FormatRecommendation } from '@/types/exif';
+import { describeConversionError } from '@/lib/image-encoder';
+import { DEFAULT_MIN_SSIM, DEFAULT_RECOMMENDATION_QUALITY, recommendFormat } from '@/lib/format-recommendation';
+import { ProgressReporter, streamProgress, wantsProgressStream } from '@/lib/progress-stream';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image') as File;
+    const qualityField = formData.get('quality');
+    const minSsimField = formData.get('minSsim');
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No image file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (!file.type.startsWith('image/')) {
+      return NextResponse.json(
+        { error: 'File must be an image' },
+        { status: 400 }
+      );
+    }
+
+    const quality = qualityField === null ? DEFAULT_RECOMMENDATION_QUALITY : Number(qualityField);
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      return NextResponse.json(
+        { error: 'Quality must be a whole number from 1 to 100' },
+        { status: 400 }
+      );
+    }
+
+    const minSsim = minSsimField === null ? DEFAULT_MIN_SSIM : Number(minSsimField);
+    if (!Number.isFinite(minSsim) || minSsim < 0 || minSsim > 1) {
+      return NextResponse.json(
+        { error: 'Minimum SSIM must be a number from 0 to 1' },
+        { status: 400 }
+      );
+    }
+
+    const recommend = async (report: ProgressReporter): Promise<FormatRecommendation> => {
+      const buffer = Buffer.from(await file.arrayBuffer());
+      return recommendFormat(buffer, quality, minSsim, report);
+    };
+
+    if (wantsProgressStream(request)) {
+      return streamProgress(recommend, describeConversionError);
+    }
+
+    return NextResponse.json(await recommend(() => {}));
+
+  } catch (error) {
+    const { error: message, status } = describeConversionError(error);
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const runtime = 'nodejs';
+// Every output format is encoded in turn, AVIF at the lower bulk effort (4)
+export const maxDuration = 120;
@@ -1,12 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
 import sharp from 'sharp';
-import { SUPPORTED_FORMATS } from '@/types/exif';
+import {
+  ConvertImageResult, OUTPUT_FORMATS, QualityMetrics, TargetSizeRequest, TargetSizeResult, TransformOptions
+} from '@/types/exif';
+import { parseConversionOptions, parseTargetSize, parseTransformOptions } from '@/lib/conversion-options';
+import { applyConversionOptions, describeConversionError, openImage } from '@/lib/image-encoder';
+import { applyMetadataPolicy, finalizeConvertedMetadata, isMetadataPolicy } from '@/lib/conversion-metadata';
+import { applyColorProfile, isColorProfileMode } from '@/lib/color-management';
+import { isHeic } from '@/lib/heic';
+import { applyTransforms } from '@/lib/image-transform';
+import { encodeToTargetSize } from '@/lib/target-size';
+import { measureQuality } from '@/lib/image-quality';
+import { ProgressReporter, streamProgress, wantsProgressStream } from '@/lib/progress-stream';
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('image') as File;
     const targetFormat = formData.get('format') as string;
+    const metadataPolicy = formData.get('metadata') || 'strip';
+    const colorProfile = formData.get('colorProfile') || 'auto';
+    // PSNR/SSIM decode both images again, so only the comparison view asks for them
+    const wantsQuality = formData.get('measureQuality') === 'true';
 
     if (!file) {
       return NextResponse.json(
@@ -31,7 +47,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate target format
-    const formatInfo = SUPPORTED_FORMATS.find(f => f.extension === targetFormat);
+    const formatInfo = OUTPUT_FORMATS.find(f => f.extension === targetFormat);
     if (!formatInfo) {
       return NextResponse.json(
         { error: 'Unsupported target format' },
@@ -39,121 +55,196 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Convert file to buffer
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-
-    // Initialize Sharp instance
-    let sharpInstance = sharp(buffer);
-
-    // Configure conversion based on target format
-    let convertedBuffer: Buffer;
-    
-    switch (targetFormat) {
-      case 'jpeg':
-      case 'jpg':
-        convertedBuffer = await sharpInstance
-          .jpeg({ 
-            quality: formatInfo.quality || 85,
-            progressive: true,
-            mozjpeg: true 
-          })
-          .toBuffer();
-        break;
-        
-      case 'png':
-        convertedBuffer = await sharpInstance
-          .png({ 
-            compressionLevel: 9,
-            progressive: true
-          })
-          .toBuffer();
-        break;
-        
-      case 'webp':
-        convertedBuffer = await sharpInstance
-          .webp({ 
-            quality: formatInfo.quality || 85,
-            effort: 6
-          })
-          .toBuffer();
-        break;
-        
-      case 'avif':
-        convertedBuffer = await sharpInstance
-          .avif({ 
-            quality: formatInfo.quality || 85,
-            effort: 9
-          })
-          .toBuffer();
-        break;
-        
-      case 'tiff':
-        convertedBuffer = await sharpInstance
-          .tiff({ 
-            compression: 'lzw',
-            quality: 85
-          })
-          .toBuffer();
-        break;
-        
-      case 'gif':
-        // Note: Sharp doesn't support GIF output, so we'll convert to PNG
-        convertedBuffer = await sharpInstance
-          .png({ 
-            compressionLevel: 9
-          })
-          .toBuffer();
-        break;
-        
-      default:
-        return NextResponse.json(
-          { error: 'Conversion to this format is not supported' },
-          { status: 400 }
-        );
+    if (!isMetadataPolicy(metadataPolicy)) {
+      return NextResponse.json(
+        { error: 'Metadata policy must be one of keep-all, keep-safe, icc-only, strip' },
+        { status: 400 }
+      );
+    }
+
+    if (!isColorProfileMode(colorProfile)) {
+      return NextResponse.json(
+        { error: 'Color profile must be one of auto, srgb, preserve, assign-display-p3, assign-adobe-rgb' },
+        { status: 400 }
+      );
     }
 
-    // Return the converted image
-    return new NextResponse(convertedBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': formatInfo.mimeType,
-        'Content-Length': convertedBuffer.length.toString(),
-        'Content-Disposition': `attachment; filename="converted.${targetFormat}"`,
-      },
-    });
+    // Validate encoder and resize options
+    const rawOptions = readJsonField(formData, 'options');
+    if (rawOptions === INVALID_JSON) {
+      return NextResponse.json(
+        { error: 'Options must be valid JSON' },
+        { status: 400 }
+      );
+    }
 
-  } catch (error) {
-    console.error('Image conversion error:', error);
-    
-    // Handle specific Sharp errors
-    if (error instanceof Error) {
-      if (error.message.includes('Input file contains unsupported image format')) {
+    const parsedOptions = parseConversionOptions(rawOptions, targetFormat);
+    if ('error' in parsedOptions) {
+      return NextResponse.json(
+        { error: parsedOptions.error },
+        { status: 400 }
+      );
+    }
+
+    const options = parsedOptions.options;
+
+    // Optional byte budget, e.g. {"bytes":512000,"allowResize":true}
+    const rawTargetSize = readJsonField(formData, 'targetSize');
+    if (rawTargetSize === INVALID_JSON) {
+      return NextResponse.json(
+        { error: 'Target size must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    let target: TargetSizeRequest | undefined;
+    if (rawTargetSize !== undefined) {
+      const parsedTarget = parseTargetSize(rawTargetSize, targetFormat, options);
+      if ('error' in parsedTarget) {
         return NextResponse.json(
-          { error: 'Unsupported input image format. Please try a different image.' },
+          { error: parsedTarget.error },
           { status: 400 }
         );
       }
-      
-      if (error.message.includes('Input buffer contains unsupported image format')) {
+      target = parsedTarget.target;
+    }
+
+    // Optional crop, rotation and flips, e.g. {"crop":{"left":0,"top":0,"width":800,"height":600},"rotate":90}
+    const rawTransform = readJsonField(formData, 'transform');
+    if (rawTransform === INVALID_JSON) {
+      return NextResponse.json(
+        { error: 'Transform must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    let transform: TransformOptions | undefined;
+    if (rawTransform !== undefined) {
+      const parsedTransform = parseTransformOptions(rawTransform);
+      if ('error' in parsedTransform) {
         return NextResponse.json(
-          { error: 'The image file appears to be corrupted or in an unsupported format.' },
+          { error: parsedTransform.error },
           { status: 400 }
         );
       }
-      
-      if (error.message.includes('Image is too large')) {
-        return NextResponse.json(
-          { error: 'The image is too large to process. Please try a smaller image.' },
-          { status: 400 }
+      // autoOrient is only false when nothing was asked for
+      if (parsedTransform.transform.autoOrient) transform = parsedTransform.transform;
+    }
+
+    const convert = async (report: ProgressReporter): Promise<ConvertImageResult> => {
+      // Convert file to buffer
+      const bytes = await file.arrayBuffer();
+      const buffer = Buffer.from(bytes);
+
+      report('decoding', 10, isHeic(buffer) ? 'Decoding HEIC image...' : 'Reading image structure...');
+      const { pipeline: input, animation } = await openImage(buffer, targetFormat);
+      const pipeline = applyColorProfile(applyMetadataPolicy(input, metadataPolicy), colorProfile);
+      const transformed = transform
+        ? await applyTransforms(pipeline, transform, animation?.preserved ?? false)
+        : undefined;
+
+      // Decoded HEIC pixels carry no metadata, so the policy copies it from the original
+      const finalize = (encoded: Buffer) => {
+        report('metadata', 80, 'Applying metadata policy...');
+        return finalizeConvertedMetadata(
+          encoded,
+          targetFormat,
+          metadataPolicy,
+          {
+            source: isHeic(buffer) ? { buffer, filename: file.name } : undefined,
+            oriented: transformed !== undefined && transformed.orientation !== 1,
+            colorProfile,
+          }
         );
+      };
+
+      let encoded: Buffer;
+      let targetSize: TargetSizeResult | undefined;
+      const frames = animation?.preserved ? animation.frames : 1;
+
+      if (target) {
+        ({ buffer: encoded, result: targetSize } = await encodeToTargetSize(
+          pipeline, targetFormat, options, target, target.bytes, frames, report
+        ));
+      } else {
+        // sharp decodes, transforms, resizes and encodes in a single pass, so they are one stage
+        const resizing = options.width !== undefined || options.height !== undefined;
+        const action = transformed
+          ? (resizing ? 'Transforming, resizing and encoding' : 'Transforming and encoding')
+          : (resizing ? 'Resizing and encoding' : 'Encoding');
+        report('encoding', 30, `${action} to ${formatInfo.name}...`);
+        encoded = await applyConversionOptions(pipeline, targetFormat, options)
+          .toBuffer();
+      }
+
+      let { buffer: convertedBuffer, report: metadataReport } = await finalize(encoded);
+
+      if (target && targetSize) {
+        // Kept metadata counts against the budget too; search again with room reserved for it
+        const overhead = convertedBuffer.length - encoded.length;
+        if (targetSize.fits && convertedBuffer.length > target.bytes && target.bytes - overhead > 0) {
+          const attempts = targetSize.attempts;
+          ({ buffer: encoded, result: targetSize } = await encodeToTargetSize(
+            pipeline, targetFormat, options, target, target.bytes - overhead, frames, report
+          ));
+          targetSize.attempts += attempts;
+          ({ buffer: convertedBuffer, report: metadataReport } = await finalize(encoded));
+        }
+        targetSize.fits = convertedBuffer.length <= target.bytes;
       }
+
+      let quality: QualityMetrics | undefined;
+      if (wantsQuality) {
+        report('measuring', 90, 'Measuring PSNR and SSIM...');
+        try {
+          // Preserved animations are compared on their first frame, transformed the same way
+          let original = input.clone();
+          if (animation?.preserved) {
+            original = sharp(buffer);
+            if (transform) await applyTransforms(original, transform, false);
+          }
+          quality = await measureQuality(original, convertedBuffer, options.fit);
+        } catch (error) {
+          console.error('Quality measurement failed:', error);
+        }
+      }
+
+      return {
+        filename: `${path.parse(file.name).name}.${targetFormat}`,
+        mimeType: formatInfo.mimeType,
+        size: convertedBuffer.length,
+        data: convertedBuffer.toString('base64'),
+        metadata: metadataReport,
+        animation,
+        targetSize,
+        quality,
+        transform: transformed,
+      };
+    };
+
+    if (wantsProgressStream(request)) {
+      return streamProgress(convert, describeConversionError);
     }
 
-    return NextResponse.json(
-      { error: 'Failed to convert image. Please try again with a different image.' },
-      { status: 500 }
-    );
+    return NextResponse.json(await convert(() => {}));
+
+  } catch (error) {
+    const { error: message, status } = describeConversionError(error);
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+const INVALID_JSON = Symbol('invalid JSON');
+
+// Parse an optional JSON form field; undefined when the field is absent or blank
+function readJsonField(formData: FormData, name: string): unknown {
+  const field = formData.get(name);
+  if (typeof field !== 'string' || field.trim() === '') return undefined;
+
+  try {
+    return JSON.parse(field);
+  } catch {
+    return INVALID_JSON;
   }
 }
 
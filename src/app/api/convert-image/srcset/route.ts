@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ResponsiveImageSetResult } from '@/types/exif';
+import { describeConversionError } from '@/lib/image-encoder';
+import {
+  DEFAULT_SRCSET_FORMATS, DEFAULT_SRCSET_WIDTHS, parseSrcsetFormats, parseSrcsetWidths
+} from '@/lib/conversion-options';
+import { generateResponsiveSet } from '@/lib/responsive-set';
+import { ProgressReporter, streamProgress, wantsProgressStream } from '@/lib/progress-stream';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image') as File;
+    const widthsField = formData.get('widths');
+    const formatsField = formData.get('formats');
+    const sizesField = formData.get('sizes');
+    const altField = formData.get('alt');
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No image file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (!file.type.startsWith('image/')) {
+      return NextResponse.json(
+        { error: 'File must be an image' },
+        { status: 400 }
+      );
+    }
+
+    // Comma separated lists, e.g. widths=320,640,1280 and formats=avif,webp,jpeg
+    const parsedWidths = typeof widthsField === 'string'
+      ? parseSrcsetWidths(widthsField)
+      : { widths: DEFAULT_SRCSET_WIDTHS };
+    if ('error' in parsedWidths) {
+      return NextResponse.json(
+        { error: parsedWidths.error },
+        { status: 400 }
+      );
+    }
+
+    const parsedFormats = typeof formatsField === 'string'
+      ? parseSrcsetFormats(formatsField)
+      : { formats: DEFAULT_SRCSET_FORMATS };
+    if ('error' in parsedFormats) {
+      return NextResponse.json(
+        { error: parsedFormats.error },
+        { status: 400 }
+      );
+    }
+
+    const sizes = typeof sizesField === 'string' && sizesField.trim() !== '' ? sizesField.trim() : '100vw';
+    const alt = typeof altField === 'string' ? altField : '';
+
+    const generate = async (report: ProgressReporter): Promise<ResponsiveImageSetResult> => {
+      const buffer = Buffer.from(await file.arrayBuffer());
+      return generateResponsiveSet(buffer, file.name, {
+        widths: parsedWidths.widths,
+        formats: parsedFormats.formats,
+        sizes,
+        alt,
+      }, report);
+    };
+
+    if (wantsProgressStream(request)) {
+      return streamProgress(generate, describeConversionError);
+    }
+
+    return NextResponse.json(await generate(() => {}));
+
+  } catch (error) {
+    const { error: message, status } = describeConversionError(error);
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+export const runtime = 'nodejs';
+// Up to 8 widths in every format, AVIF included
+export const maxDuration = 120;
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { WriteTags } from 'exiftool-vendored';
+import { getExifTool, withTempImage } from '@/lib/exiftool';
+import { toExifToolTags, validateMetadataEdit } from '@/lib/metadata-edit';
+import { MetadataEdit } from '@/types/exif';
+
+function parseEdits(raw: FormDataEntryValue | null): MetadataEdit[] | null {
+  if (typeof raw !== 'string') return null;
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return null;
+
+    const isEdit = (edit: unknown): edit is MetadataEdit =>
+      typeof edit === 'object' && edit !== null &&
+      typeof (edit as MetadataEdit).tag === 'string' &&
+      (typeof (edit as MetadataEdit).value === 'string' || (edit as MetadataEdit).value === null);
+
+    return parsed.every(isEdit) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image') as File;
+    const edits = parseEdits(formData.get('edits'));
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No image file provided' },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type
+    if (!file.type.startsWith('image/')) {
+      return NextResponse.json(
+        { error: 'File must be an image' },
+        { status: 400 }
+      );
+    }
+
+    // Check file size (50MB limit)
+    if (file.size > 50 * 1024 * 1024) {
+      return NextResponse.json(
+        { error: 'File too large. Maximum size is 50MB.' },
+        { status: 413 }
+      );
+    }
+
+    if (!edits || edits.length === 0) {
+      return NextResponse.json(
+        { error: 'Edits must be a non-empty JSON array of { tag, value } objects' },
+        { status: 400 }
+      );
+    }
+
+    // Validate every edit against its tag type before touching the file.
+    // Keyed by client-supplied tag names, so "__proto__" must stay a plain key.
+    const fieldErrors: Record<string, string> = Object.create(null);
+    for (const edit of edits) {
+      const validationError = validateMetadataEdit(edit);
+      if (validationError) {
+        fieldErrors[edit.tag] = validationError;
+      }
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json(
+        { error: 'Some edits are invalid', fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    const editedBuffer = await withTempImage(buffer, file.name, async (filePath) => {
+      await getExifTool().write(filePath, toExifToolTags(edits) as WriteTags, {
+        writeArgs: ['-overwrite_original'],
+      });
+      return fs.readFile(filePath);
+    });
+
+    const parsed = path.parse(file.name);
+    const filename = `${parsed.name}-edited${parsed.ext}`;
+
+    return new NextResponse(editedBuffer, {
+      status: 200,
+      headers: {
+        'Content-Type': file.type,
+        'Content-Length': editedBuffer.length.toString(),
+        'Content-Disposition': `attachment; filename="${filename.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Metadata editing error:', error);
+
+    if (error instanceof Error && error.message.includes('Writing of this type of file is not supported')) {
+      return NextResponse.json(
+        { error: 'Editing metadata in this image format is not supported.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to write metadata. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
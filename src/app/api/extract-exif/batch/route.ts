@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { expandBatchUploads, MAX_ARCHIVE_BYTES, MAX_BATCH_FILES } from '@/lib/batch-upload';
+import { extractExifData } from '@/lib/exif-extraction';
+import { scorePrivacy } from '@/lib/privacy-score';
+import { BatchExifEntry, BatchExifResult } from '@/types/exif';
+import { generateId, isZipFile } from '@/lib/utils';
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const requestId = generateId();
+
+  console.log(`🚀 [${requestId}] Batch EXIF extraction started`);
+
+  try {
+    const formData = await request.formData();
+    const uploads = formData.getAll('images').filter((value): value is File => value instanceof File);
+
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        { error: 'No image files provided', requestId },
+        { status: 400 }
+      );
+    }
+
+    if (uploads.some(upload => isZipFile(upload) && upload.size > MAX_ARCHIVE_BYTES)) {
+      return NextResponse.json(
+        { error: `ZIP archive too large. Maximum size is ${MAX_ARCHIVE_BYTES / (1024 * 1024)}MB.`, requestId },
+        { status: 413 }
+      );
+    }
+
+    const { files, skipped, oversized, truncated } = await expandBatchUploads(uploads);
+
+    if (truncated) {
+      return NextResponse.json(
+        { error: `Too many images. A batch can contain at most ${MAX_BATCH_FILES} files.`, requestId },
+        { status: 413 }
+      );
+    }
+
+    if (files.length === 0 && oversized.length === 0) {
+      return NextResponse.json(
+        { error: 'No images found in the upload', requestId },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📁 [${requestId}] Processing ${files.length} files (${skipped.length} non-image entries skipped)`);
+
+    // Process one file at a time; a failure only affects that file's entry
+    const entries: BatchExifEntry[] = oversized.map(filename => ({
+      filename,
+      error: 'File too large. Maximum size is 50MB.',
+    }));
+    for (const file of files) {
+      if (!file.type.startsWith('image/')) {
+        entries.push({ filename: file.name, error: 'File must be an image' });
+        continue;
+      }
+
+      if (file.size > 50 * 1024 * 1024) {
+        entries.push({ filename: file.name, error: 'File too large. Maximum size is 50MB.' });
+        continue;
+      }
+
+      try {
+        const buffer = Buffer.from(await file.arrayBuffer());
+        const data = await extractExifData(file, buffer, requestId);
+        entries.push({ filename: file.name, data, privacy: scorePrivacy(data.tags, { place: data.place }) });
+      } catch (error) {
+        console.error(`❌ [${requestId}] Failed on ${file.name}:`, error instanceof Error ? error.message : error);
+        entries.push({ filename: file.name, error: 'Failed to process image' });
+      }
+    }
+
+    const leaks = (findingId: string) =>
+      entries.filter(entry => entry.privacy?.findings.some(finding => finding.id === findingId)).length;
+
+    const processedFiles = entries.filter(entry => entry.data).length;
+    const result: BatchExifResult = {
+      files: entries,
+      summary: {
+        totalFiles: entries.length,
+        processedFiles,
+        failedFiles: entries.length - processedFiles,
+        withGps: leaks('gps'),
+        withSerialNumbers: leaks('serial'),
+        withOwnerNames: leaks('owner'),
+      },
+    };
+
+    console.log(`✅ [${requestId}] Batch done: ${processedFiles}/${entries.length} files (${Date.now() - startTime}ms)`);
+
+    return NextResponse.json(result, {
+      headers: { 'Cache-Control': 'no-cache' },
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`💥 [${requestId}] Batch error (${Date.now() - startTime}ms):`, errorMessage);
+
+    if (errorMessage.startsWith('Archives expand to more than')) {
+      return NextResponse.json(
+        { error: `${errorMessage}. Split the upload into smaller batches.`, requestId },
+        { status: 413 }
+      );
+    }
+
+    if (errorMessage.includes('zip') || errorMessage.includes('Corrupted')) {
+      return NextResponse.json(
+        { error: 'The ZIP archive could not be read.', requestId },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to process batch', requestId },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
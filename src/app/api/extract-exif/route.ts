@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { processExifData } from '@/lib/exif-categories';
+import { extractExifData } from '@/lib/exif-extraction';
+import { ProgressReporter, StreamedError, streamProgress, wantsProgressStream } from '@/lib/progress-stream';
 import { ProcessedExifData } from '@/types/exif';
 
 export async function POST(request: NextRequest) {
@@ -18,6 +19,7 @@ export async function POST(request: NextRequest) {
     ]);
 
     const file = formData.get('image') as File;
+    const deepScan = formData.get('deepScan') === 'true';
     
     if (!file) {
       return NextResponse.json(
@@ -42,111 +44,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`📁 [${requestId}] Processing: ${file.name} (${Math.round(file.size / 1024)}KB)`);
+    console.log(`📁 [${requestId}] Processing: ${file.name} (${Math.round(file.size / 1024)}KB)${deepScan ? ' [deep scan]' : ''}`);
 
-    // Convert to buffer
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
+    const extract = async (report: ProgressReporter): Promise<ProcessedExifData> => {
+      // Convert to buffer
+      const bytes = await file.arrayBuffer();
+      const buffer = Buffer.from(bytes);
 
-    // Parse EXIF with EXIFR library (with error handling)
-    let exifData: any = {};
-    let gpsData: any = undefined;
-    
-    try {
-      const exifr = (await import('exifr')).default;
-      
-      // Extract EXIF data with optimized options
-      exifData = await exifr.parse(buffer, {
-        tiff: true,
-        exif: true,
-        gps: true,
-        iptc: true,
-        mergeOutput: true,
-        translateKeys: false,
-        translateValues: false,
-        reviveValues: true,
-        sanitize: true,
-        chunked: true,
-        firstChunkSize: 40960,
-        chunkSize: 65536
-      }) || {};
-
-      // Extract GPS coordinates separately for better reliability
-      try {
-        const gpsCoords = await exifr.gps(buffer);
-        if (gpsCoords?.latitude && gpsCoords?.longitude) {
-          gpsData = {
-            latitude: gpsCoords.latitude,
-            longitude: gpsCoords.longitude,
-            altitude: gpsCoords.altitude || undefined,
-          };
-          console.log(`📍 [${requestId}] GPS found: ${gpsData.latitude.toFixed(6)}, ${gpsData.longitude.toFixed(6)}`);
-        }
-      } catch (gpsError) {
-        // GPS extraction failure is not critical
-        console.log(`⚠️ [${requestId}] GPS extraction failed (non-critical)`);
-      }
-
-    } catch (exifrError) {
-      console.error(`❌ [${requestId}] EXIFR failed:`, exifrError instanceof Error ? exifrError.message : exifrError);
-      
-      // Continue with basic file info even if EXIFR fails
-      exifData = {};
-    }
-
-    // Get image dimensions
-    let imageWidth = 0;
-    let imageHeight = 0;
-    let format = file.type.split('/')[1] || 'unknown';
-
-    try {
-      const sharp = (await import('sharp')).default;
-      const metadata = await sharp(buffer).metadata();
-      imageWidth = metadata.width || 0;
-      imageHeight = metadata.height || 0;
-      format = metadata.format || format;
-    } catch (sharpError) {
-      // Fallback to EXIF dimensions
-      imageWidth = exifData?.ExifImageWidth || exifData?.ImageWidth || 0;
-      imageHeight = exifData?.ExifImageHeight || exifData?.ImageHeight || 0;
-    }
+      // Parse EXIF, GPS and dimensions with categorization
+      const result = await extractExifData(file, buffer, requestId, { deepScan, onProgress: report });
 
-    // Prepare tags for processing
-    const tags: Record<string, any> = {
-      FileName: file.name,
-      FileSize: file.size,
-      FileType: format,
-      MIMEType: file.type,
-      ImageWidth: imageWidth,
-      ImageHeight: imageHeight,
-      ...exifData
+      const processingTime = Date.now() - startTime;
+      console.log(`✅ [${requestId}] Success: ${result.tags.length} tags, ${!!result.gpsData ? 'GPS found' : 'no GPS'} (${processingTime}ms)`);
+      return result;
     };
 
-    // Process EXIF data with categorization
-    const processedTags = processExifData(tags);
-    
-    // Count privacy categories
-    const categoryCounts = processedTags.reduce((acc, tag) => {
-      acc[tag.category] = (acc[tag.category] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    // Prepare final response
-    const result: ProcessedExifData = {
-      tags: processedTags,
-      imageInfo: {
-        format,
-        width: imageWidth,
-        height: imageHeight,
-        size: file.size,
-        filename: file.name,
-      },
-      gpsData,
-      errors: [],
-    };
+    if (wantsProgressStream(request)) {
+      return streamProgress(extract, (error) => describeExtractionError(error, requestId, startTime));
+    }
 
-    const processingTime = Date.now() - startTime;
-    console.log(`✅ [${requestId}] Success: ${processedTags.length} tags, ${!!gpsData ? 'GPS found' : 'no GPS'} (${processingTime}ms)`);
+    const result = await extract(() => {});
 
     // CRITICAL: Ensure we always return valid JSON
     return new NextResponse(JSON.stringify(result), {
@@ -158,38 +75,17 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
-    const processingTime = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    console.error(`💥 [${requestId}] Error (${processingTime}ms):`, errorMessage);
-
-    // Handle specific error types
-    let userMessage = 'Failed to process image';
-    let statusCode = 500;
-
-    if (errorMessage.includes('timeout') || errorMessage.includes('Request timeout')) {
-      userMessage = 'Request timed out. Please try with a smaller image.';
-      statusCode = 408;
-    } else if (errorMessage.includes('file format') || errorMessage.includes('Unsupported')) {
-      userMessage = 'Unsupported image format. Please try JPEG, PNG, or TIFF.';
-      statusCode = 400;
-    } else if (errorMessage.includes('Malformed') || errorMessage.includes('Corrupted')) {
-      userMessage = 'Image file appears to be corrupted.';
-      statusCode = 400;
-    } else if (errorMessage.includes('size') || errorMessage.includes('large')) {
-      userMessage = 'Image file is too large.';
-      statusCode = 413;
-    }
+    const { error: userMessage, status, details } = describeExtractionError(error, requestId, startTime);
 
     // CRITICAL: Always return valid JSON response
     const errorResponse = {
       error: userMessage,
       requestId,
-      details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
+      details,
     };
 
     return new NextResponse(JSON.stringify(errorResponse), {
-      status: statusCode,
+      status,
       headers: {
         'Content-Type': 'application/json',
         'Cache-Control': 'no-cache',
@@ -198,6 +94,41 @@ export async function POST(request: NextRequest) {
   }
 }
 
+function describeExtractionError(
+  error: unknown,
+  requestId: string,
+  startTime: number
+): StreamedError & { details?: string } {
+  const processingTime = Date.now() - startTime;
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+  console.error(`💥 [${requestId}] Error (${processingTime}ms):`, errorMessage);
+
+  // Handle specific error types
+  let userMessage = 'Failed to process image';
+  let statusCode = 500;
+
+  if (errorMessage.includes('timeout') || errorMessage.includes('Request timeout')) {
+    userMessage = 'Request timed out. Please try with a smaller image.';
+    statusCode = 408;
+  } else if (errorMessage.includes('file format') || errorMessage.includes('Unsupported')) {
+    userMessage = 'Unsupported image format. Please try JPEG, PNG, or TIFF.';
+    statusCode = 400;
+  } else if (errorMessage.includes('Malformed') || errorMessage.includes('Corrupted')) {
+    userMessage = 'Image file appears to be corrupted.';
+    statusCode = 400;
+  } else if (errorMessage.includes('size') || errorMessage.includes('large')) {
+    userMessage = 'Image file is too large.';
+    statusCode = 413;
+  }
+
+  return {
+    error: userMessage,
+    status: statusCode,
+    details: process.env.NODE_ENV === 'development' ? errorMessage : undefined,
+  };
+}
+
 export const runtime = 'nodejs';
 export const maxDuration = 30;
 
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { expandBatchUploads, MAX_ARCHIVE_BYTES, MAX_BATCH_FILES } from '@/lib/batch-upload';
+import { withTempImage } from '@/lib/exiftool';
+import { matchImageToTrack, writeGeotag } from '@/lib/geotag';
+import { parseGeotagOptions } from '@/lib/geotag-options';
+import { parseTrackFile, simplifyTrack } from '@/lib/gps-track';
+import { GeotagMatch, GeotagResult } from '@/types/exif';
+import { generateId, isZipFile, uniqueFilename } from '@/lib/utils';
+
+// Enough to follow the route on the preview map without sending the whole log
+const PREVIEW_TRACK_POINTS = 2000;
+
+export async function POST(request: NextRequest) {
+  const requestId = generateId();
+
+  try {
+    const formData = await request.formData();
+    const trackFile = formData.get('track');
+    const uploads = formData.getAll('images').filter((value): value is File => value instanceof File);
+    const rawOptions = formData.get('options');
+    // Without it only the matches are returned, for previewing before anything is written
+    const write = formData.get('write') === 'true';
+
+    if (!(trackFile instanceof File)) {
+      return NextResponse.json(
+        { error: 'No GPX or KML track provided' },
+        { status: 400 }
+      );
+    }
+
+    if (trackFile.size > 50 * 1024 * 1024) {
+      return NextResponse.json(
+        { error: 'Track file too large. Maximum size is 50MB.' },
+        { status: 413 }
+      );
+    }
+
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        { error: 'No image files provided' },
+        { status: 400 }
+      );
+    }
+
+    let optionsJson: unknown = {};
+    try {
+      optionsJson = typeof rawOptions === 'string' ? JSON.parse(rawOptions) : {};
+    } catch {
+      return NextResponse.json(
+        { error: 'Options must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const parsedOptions = parseGeotagOptions(optionsJson);
+    if ('error' in parsedOptions) {
+      return NextResponse.json(
+        { error: parsedOptions.error },
+        { status: 400 }
+      );
+    }
+
+    const track = parseTrackFile(await trackFile.text());
+    if (track.length === 0) {
+      return NextResponse.json(
+        { error: 'The track has no timestamped points. Use a GPX or KML log recorded with times.' },
+        { status: 400 }
+      );
+    }
+
+    if (uploads.some(upload => isZipFile(upload) && upload.size > MAX_ARCHIVE_BYTES)) {
+      return NextResponse.json(
+        { error: `ZIP archive too large. Maximum size is ${MAX_ARCHIVE_BYTES / (1024 * 1024)}MB.` },
+        { status: 413 }
+      );
+    }
+
+    const { files, oversized, truncated } = await expandBatchUploads(uploads);
+
+    if (truncated) {
+      return NextResponse.json(
+        { error: `Too many images. A batch can contain at most ${MAX_BATCH_FILES} files.` },
+        { status: 413 }
+      );
+    }
+
+    console.log(`🛰️ [${requestId}] Geotagging ${files.length} files against ${track.length} track points${write ? '' : ' (preview)'}`);
+
+    // One file at a time; a failure only affects that file's entry
+    const matches: GeotagMatch[] = oversized.map(filename => ({
+      filename,
+      status: 'skipped',
+      reason: 'File too large. Maximum size is 50MB.',
+    }));
+    const warnings: string[] = [];
+    const zip = new JSZip();
+    // Camera files from different folders often share a name
+    const archiveNames = new Set<string>();
+
+    for (const file of files) {
+      if (!file.type.startsWith('image/')) {
+        matches.push({ filename: file.name, status: 'skipped', reason: 'Not an image' });
+        continue;
+      }
+
+      if (file.size > 50 * 1024 * 1024) {
+        matches.push({ filename: file.name, status: 'skipped', reason: 'File too large. Maximum size is 50MB.' });
+        continue;
+      }
+
+      try {
+        const buffer = Buffer.from(await file.arrayBuffer());
+        const match = await withTempImage(buffer, file.name, async (filePath) => {
+          const matched = await matchImageToTrack(filePath, file.name, track, parsedOptions.options);
+          if (write && matched.status === 'matched') {
+            const writeWarnings = await writeGeotag(filePath, matched);
+            warnings.push(...writeWarnings.map(warning => `${file.name}: ${warning}`));
+            zip.file(uniqueFilename(file.name, archiveNames), await fs.readFile(filePath));
+          }
+          return matched;
+        });
+        matches.push(match);
+      } catch (error) {
+        console.error(`❌ [${requestId}] Failed on ${file.name}:`, error instanceof Error ? error.message : error);
+        const unsupported = error instanceof Error && error.message.includes('Writing of this type of file is not supported');
+        matches.push({
+          filename: file.name,
+          status: 'skipped',
+          reason: unsupported ? 'Writing GPS tags to this format is not supported' : 'Failed to process image',
+        });
+      }
+    }
+
+    const matched = matches.filter(match => match.status === 'matched').length;
+    const result: GeotagResult = {
+      matches,
+      track: simplifyTrack(track, PREVIEW_TRACK_POINTS).map(({ latitude, longitude }) => ({ latitude, longitude })),
+      trackPoints: track.length,
+      trackStart: new Date(track[0].time).toISOString(),
+      trackEnd: new Date(track[track.length - 1].time).toISOString(),
+      warnings,
+    };
+
+    if (write && matched > 0) {
+      const archive = await zip.generateAsync({ type: 'nodebuffer' });
+      const trackName = path.parse(trackFile.name).name || 'track';
+      result.archive = { filename: `geotagged-${trackName}.zip`, data: archive.toString('base64') };
+    }
+
+    console.log(`✅ [${requestId}] Geotagging done: ${matched}/${files.length} matched`);
+
+    return NextResponse.json(result, {
+      headers: { 'Cache-Control': 'no-cache' },
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`💥 [${requestId}] Geotagging error:`, errorMessage);
+
+    if (errorMessage.startsWith('Archives expand to more than')) {
+      return NextResponse.json(
+        { error: `${errorMessage}. Split the upload into smaller batches.` },
+        { status: 413 }
+      );
+    }
+
+    if (errorMessage.includes('zip') || errorMessage.includes('Corrupted')) {
+      return NextResponse.json(
+        { error: 'The ZIP archive could not be read.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to geotag the images. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
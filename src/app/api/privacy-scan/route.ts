@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractExifData } from '@/lib/exif-extraction';
+import { scorePrivacy } from '@/lib/privacy-score';
+import { PrivacyScanResult } from '@/types/exif';
+import { generateId } from '@/lib/utils';
+
+export async function POST(request: NextRequest) {
+  const requestId = generateId();
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No image file provided', requestId },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type
+    if (!file.type.startsWith('image/')) {
+      return NextResponse.json(
+        { error: 'File must be an image', requestId },
+        { status: 400 }
+      );
+    }
+
+    // Check file size (50MB limit)
+    if (file.size > 50 * 1024 * 1024) {
+      return NextResponse.json(
+        { error: 'File too large. Maximum size is 50MB.', requestId },
+        { status: 413 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const exifData = await extractExifData(file, buffer, requestId);
+    const report = scorePrivacy(exifData.tags, { place: exifData.place });
+
+    console.log(`🛡️ [${requestId}] Privacy grade ${report.grade} (${report.score}) for ${file.name}`);
+
+    const result: PrivacyScanResult = {
+      report,
+      imageInfo: exifData.imageInfo,
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error(`💥 [${requestId}] Privacy scan error:`, error instanceof Error ? error.message : error);
+
+    return NextResponse.json(
+      { error: 'Failed to scan image. Please try again with a different image.', requestId },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import sharp from 'sharp';
+import { isHeic, loadImage } from '@/lib/heic';
 
 export async function POST(request: NextRequest) {
   try {
@@ -32,7 +33,12 @@ export async function POST(request: NextRequest) {
 
     // Convert file to buffer
     const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
+    let buffer: Buffer = Buffer.from(bytes);
+
+    // sharp cannot decode HEVC, so turn HEIC photos into PNG before slicing
+    if (isHeic(buffer)) {
+      buffer = await (await loadImage(buffer)).png().toBuffer();
+    }
 
     // Get image metadata
     const metadata = await sharp(buffer).metadata();
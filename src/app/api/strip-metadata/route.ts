@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { withTempImage } from '@/lib/exiftool';
+import { isStripPolicy, stripMetadata } from '@/lib/metadata-strip';
+import { StripMetadataResult } from '@/types/exif';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('image') as File;
+    const policy = formData.get('policy') || 'high';
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No image file provided' },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type
+    if (!file.type.startsWith('image/')) {
+      return NextResponse.json(
+        { error: 'File must be an image' },
+        { status: 400 }
+      );
+    }
+
+    if (!isStripPolicy(policy)) {
+      return NextResponse.json(
+        { error: 'Policy must be one of: high, high-medium, all' },
+        { status: 400 }
+      );
+    }
+
+    // Check file size (50MB limit)
+    if (file.size > 50 * 1024 * 1024) {
+      return NextResponse.json(
+        { error: 'File too large. Maximum size is 50MB.' },
+        { status: 413 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    const { manifest, cleaned } = await withTempImage(buffer, file.name, async (filePath) => {
+      const manifest = await stripMetadata(filePath, policy);
+      const cleaned = await fs.readFile(filePath);
+      return { manifest, cleaned };
+    });
+
+    const parsed = path.parse(file.name);
+    const result: StripMetadataResult = {
+      filename: `${parsed.name}-clean${parsed.ext}`,
+      mimeType: file.type,
+      size: cleaned.length,
+      data: cleaned.toString('base64'),
+      manifest,
+    };
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Metadata stripping error:', error);
+
+    if (error instanceof Error && error.message.includes('Writing of this type of file is not supported')) {
+      return NextResponse.json(
+        { error: 'Removing metadata from this image format is not supported.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to remove metadata. Please try again with a different image.' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
@@ -0,0 +1,150 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { CheckCircle, AlertCircle, Clock, Download, Layers, FileArchive } from "lucide-react";
+import { ConvertImageResult } from "@/types/exif";
+import { formatFileSize } from "@/lib/utils";
+import { calculateSavings } from "@/lib/conversion-client";
+import { cn } from "@/lib/utils";
+
+export type BatchConversionStatus = 'queued' | 'converting' | 'done' | 'error';
+
+export interface BatchConversionItem {
+  id: string;
+  file: File;
+  status: BatchConversionStatus;
+  result?: ConvertImageResult;
+  error?: string;
+}
+
+interface BatchConversionQueueProps {
+  items: BatchConversionItem[];
+  zipping: boolean;
+  onDownloadZip: () => void;
+}
+
+const STATUS_BADGES: Record<BatchConversionStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-muted text-muted-foreground' },
+  converting: { label: 'Converting', className: 'bg-orange-500/20 text-orange-300' },
+  done: { label: 'Done', className: 'bg-green-500/20 text-green-300' },
+  error: { label: 'Failed', className: 'bg-red-500/20 text-red-300' },
+};
+
+function StatusIcon({ status }: { status: BatchConversionStatus }) {
+  switch (status) {
+    case 'queued':
+      return <Clock className="w-4 h-4 text-muted-foreground" />;
+    case 'converting':
+      return <LoadingSpinner size="sm" />;
+    case 'done':
+      return <CheckCircle className="w-4 h-4 text-green-400" />;
+    case 'error':
+      return <AlertCircle className="w-4 h-4 text-red-400" />;
+  }
+}
+
+export function BatchConversionQueue({ items, zipping, onDownloadZip }: BatchConversionQueueProps) {
+  const finished = items.filter(item => item.status === 'done' || item.status === 'error').length;
+  const converted = items.filter(item => item.status === 'done' && item.result);
+  const failed = items.filter(item => item.status === 'error').length;
+  const running = items.some(item => item.status === 'converting');
+
+  const originalTotal = converted.reduce((sum, item) => sum + item.file.size, 0);
+  const convertedTotal = converted.reduce((sum, item) => sum + (item.result?.size ?? 0), 0);
+  const totalSavings = originalTotal > 0 ? calculateSavings(originalTotal, convertedTotal) : null;
+
+  return (
+    <Card className="bg-card/50 backdrop-blur">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            Batch Queue ({items.length} {items.length === 1 ? 'image' : 'images'})
+          </CardTitle>
+          <Button
+            onClick={onDownloadZip}
+            disabled={converted.length === 0 || running || zipping}
+            className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+          >
+            {zipping ? (
+              <>
+                <LoadingSpinner size="sm" />
+                <span className="ml-2">Building ZIP...</span>
+              </>
+            ) : (
+              <>
+                <FileArchive className="w-4 h-4 mr-2" />
+                Download ZIP ({converted.length})
+              </>
+            )}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>{finished} of {items.length} processed{failed > 0 && `, ${failed} failed`}</span>
+            {totalSavings !== null && (
+              <span>
+                {formatFileSize(originalTotal)} → {formatFileSize(convertedTotal)}
+                {' '}({totalSavings > 0 ? '-' : '+'}{Math.abs(totalSavings).toFixed(1)}%)
+              </span>
+            )}
+          </div>
+          <Progress value={items.length > 0 ? (finished / items.length) * 100 : 0} className="h-2" />
+        </div>
+
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {items.map((item) => {
+            const savings = item.result ? calculateSavings(item.file.size, item.result.size) : null;
+
+            return (
+              <div
+                key={item.id}
+                className={cn(
+                  "flex items-center gap-3 px-3 py-2 rounded border text-sm",
+                  item.status === 'error' ? "border-red-500/30 bg-red-500/5" : "border-border/50"
+                )}
+              >
+                <StatusIcon status={item.status} />
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">{item.file.name}</p>
+                  {item.error ? (
+                    <p className="text-xs text-red-400">{item.error}</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(item.file.size)}
+                      {item.result && ` → ${formatFileSize(item.result.size)}`}
+                      {item.result?.targetSize && !item.result.targetSize.fits && (
+                        <span className="text-yellow-400"> (over the size budget)</span>
+                      )}
+                    </p>
+                  )}
+                </div>
+                {savings !== null && (
+                  <span className={cn("text-xs font-mono", savings > 0 ? "text-green-400" : "text-yellow-400")}>
+                    {savings > 0 ? '-' : '+'}{Math.abs(savings).toFixed(1)}%
+                  </span>
+                )}
+                <Badge variant="secondary" className={cn("text-xs shrink-0", STATUS_BADGES[item.status].className)}>
+                  {STATUS_BADGES[item.status].label}
+                </Badge>
+              </div>
+            );
+          })}
+        </div>
+
+        {converted.length > 0 && !running && (
+          <p className="text-xs text-muted-foreground flex items-center gap-2">
+            <Download className="w-3 h-3" />
+            The ZIP contains the {converted.length} successfully converted {converted.length === 1 ? 'image' : 'images'}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
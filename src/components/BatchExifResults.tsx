@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  MapPin, Fingerprint, User, Files, AlertCircle, LayoutGrid, List, ChevronRight, Map as MapIcon,
+} from "lucide-react";
+import { PhotoMapViewer } from "@/components/PhotoMapViewer";
+import { BatchExifEntry, BatchExifResult, PrivacyGrade } from "@/types/exif";
+import { formatFileSize } from "@/lib/utils";
+import { cn } from "@/lib/utils";
+
+interface BatchExifResultsProps {
+  result: BatchExifResult;
+  onSelect: (index: number) => void;
+}
+
+const GRADE_CLASSES: Record<PrivacyGrade, string> = {
+  A: 'bg-green-500 text-white',
+  B: 'bg-lime-500 text-white',
+  C: 'bg-yellow-500 text-black',
+  D: 'bg-orange-500 text-white',
+  F: 'bg-red-500 text-white',
+};
+
+function leakBadges(entry: BatchExifEntry) {
+  const findings = new Set(entry.privacy?.findings.map(finding => finding.id));
+  return (
+    <div className="flex flex-wrap gap-1">
+      {findings.has('gps') && (
+        <Badge variant="secondary" className="bg-red-500/20 text-red-400 text-xs">
+          <MapPin className="w-3 h-3 mr-1" />GPS
+        </Badge>
+      )}
+      {findings.has('serial') && (
+        <Badge variant="secondary" className="bg-red-500/20 text-red-400 text-xs">
+          <Fingerprint className="w-3 h-3 mr-1" />Serial
+        </Badge>
+      )}
+      {findings.has('owner') && (
+        <Badge variant="secondary" className="bg-red-500/20 text-red-400 text-xs">
+          <User className="w-3 h-3 mr-1" />Owner
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+export function BatchExifResults({ result, onSelect }: BatchExifResultsProps) {
+  const [layout, setLayout] = useState<'grid' | 'list' | 'map'>('grid');
+  const { summary } = result;
+
+  const stats = [
+    { label: 'Files analysed', value: summary.processedFiles, icon: <Files className="w-4 h-4" />, className: 'privacy-safe' },
+    { label: 'Leak GPS', value: summary.withGps, icon: <MapPin className="w-4 h-4" />, className: 'privacy-high' },
+    { label: 'Leak serial numbers', value: summary.withSerialNumbers, icon: <Fingerprint className="w-4 h-4" />, className: 'privacy-high' },
+    { label: 'Leak owner names', value: summary.withOwnerNames, icon: <User className="w-4 h-4" />, className: 'privacy-high' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Aggregate Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className={cn("p-3 rounded-lg border", stat.className)}>
+            <div className="flex items-center gap-2 mb-1">
+              {stat.icon}
+              <span className="font-medium text-sm">{stat.label}</span>
+            </div>
+            <p className="text-2xl font-bold">{stat.value}</p>
+            <p className="text-xs opacity-80">of {summary.totalFiles} files</p>
+          </div>
+        ))}
+      </div>
+
+      {summary.failedFiles > 0 && (
+        <Alert className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {summary.failedFiles} file{summary.failedFiles === 1 ? '' : 's'} could not be processed.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="bg-card/50 backdrop-blur">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Files className="w-5 h-5" />
+              Batch Results ({summary.totalFiles} files)
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button
+                variant={layout === 'grid' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setLayout('grid')}
+                aria-label="Grid view"
+              >
+                <LayoutGrid className="w-4 h-4" />
+              </Button>
+              <Button
+                variant={layout === 'list' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setLayout('list')}
+                aria-label="List view"
+              >
+                <List className="w-4 h-4" />
+              </Button>
+              <Button
+                variant={layout === 'map' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setLayout('map')}
+                aria-label="Map view"
+              >
+                <MapIcon className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {layout === 'map' ? (
+            <PhotoMapViewer entries={result.files} onSelect={onSelect} />
+          ) : (
+            <div className={cn(
+              layout === 'grid' ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3" : "space-y-2"
+            )}>
+              {result.files.map((entry, index) => (
+                <button
+                  key={`${entry.filename}-${index}`}
+                  type="button"
+                  onClick={() => onSelect(index)}
+                  disabled={!entry.data}
+                  className={cn(
+                    "w-full text-left p-3 rounded-lg border bg-card/30 transition-all",
+                    entry.data ? "hover:border-primary/50 hover:bg-card/60" : "opacity-60 cursor-not-allowed",
+                    layout === 'list' && "flex items-center gap-4"
+                  )}
+                >
+                  <div className={cn("flex items-center gap-3 min-w-0", layout === 'list' ? "flex-1" : "mb-2")}>
+                    {entry.privacy ? (
+                      <span className={cn(
+                        "w-9 h-9 shrink-0 rounded-lg flex items-center justify-center font-bold",
+                        GRADE_CLASSES[entry.privacy.grade]
+                      )}>
+                        {entry.privacy.grade}
+                      </span>
+                    ) : (
+                      <AlertCircle className="w-9 h-9 shrink-0 text-red-400" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium truncate" title={entry.filename}>{entry.filename}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {entry.data
+                          ? `${formatFileSize(entry.data.imageInfo.size)} · ${entry.data.tags.length} tags`
+                          : entry.error}
+                      </p>
+                    </div>
+                  </div>
+                  {leakBadges(entry)}
+                  {layout === 'list' && entry.data && (
+                    <ChevronRight className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
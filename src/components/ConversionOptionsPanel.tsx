@@ -0,0 +1,188 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChromaSubsampling, ConversionOptions, ResizeFit } from "@/types/exif";
+import {
+  FORMAT_CAPABILITIES,
+  OPTION_LABELS,
+  CHROMA_SUBSAMPLING_VALUES,
+  RESIZE_FITS,
+  MAX_OUTPUT_DIMENSION,
+} from "@/lib/conversion-options";
+
+interface ConversionOptionsPanelProps {
+  format: string;
+  options: ConversionOptions;
+  onChange: (options: ConversionOptions) => void;
+  disabled?: boolean;
+}
+
+function parseNumberInput(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+export function ConversionOptionsPanel({ format, options, onChange, disabled }: ConversionOptionsPanelProps) {
+  const capabilities = FORMAT_CAPABILITIES[format];
+  if (!capabilities) return null;
+
+  const supports = (option: keyof typeof OPTION_LABELS) => capabilities.options.includes(option);
+  const update = (changes: Partial<ConversionOptions>) => onChange({ ...options, ...changes });
+  const hasResize = options.width !== undefined || options.height !== undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {supports('quality') && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="option-quality">{OPTION_LABELS.quality}</Label>
+              <span className="text-xs font-mono text-muted-foreground">
+                {options.lossless ? 'lossless' : `${options.quality}%`}
+              </span>
+            </div>
+            <input
+              id="option-quality"
+              type="range"
+              min={1}
+              max={100}
+              value={options.quality ?? 85}
+              onChange={(e) => update({ quality: Number(e.target.value) })}
+              disabled={disabled || options.lossless}
+              className="w-full accent-orange-500"
+            />
+          </div>
+        )}
+
+        {supports('effort') && capabilities.effortRange && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="option-effort">
+                {format === 'png' ? 'Compression level' : OPTION_LABELS.effort}
+              </Label>
+              <span className="text-xs font-mono text-muted-foreground">
+                {options.effort} / {capabilities.effortRange[1]}
+              </span>
+            </div>
+            <input
+              id="option-effort"
+              type="range"
+              min={capabilities.effortRange[0]}
+              max={capabilities.effortRange[1]}
+              value={options.effort ?? capabilities.effortRange[1]}
+              onChange={(e) => update({ effort: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full accent-orange-500"
+            />
+          </div>
+        )}
+
+        {supports('chromaSubsampling') && (
+          <div className="space-y-2">
+            <Label>{OPTION_LABELS.chromaSubsampling}</Label>
+            <Select
+              value={options.chromaSubsampling}
+              onValueChange={(value) => update({ chromaSubsampling: value as ChromaSubsampling })}
+              disabled={disabled || options.lossless}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHROMA_SUBSAMPLING_VALUES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value} {value === '4:4:4' ? '(full color detail)' : '(smaller files)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {(supports('lossless') || supports('progressive')) && (
+          <div className="space-y-2 flex flex-col justify-end">
+            {supports('lossless') && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={options.lossless ?? false}
+                  onChange={(e) => update({ lossless: e.target.checked })}
+                  disabled={disabled}
+                  className="accent-orange-500"
+                />
+                {OPTION_LABELS.lossless}
+              </label>
+            )}
+            {supports('progressive') && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={options.progressive ?? false}
+                  onChange={(e) => update({ progressive: e.target.checked })}
+                  disabled={disabled}
+                  className="accent-orange-500"
+                />
+                {format === 'png' ? 'Interlaced (Adam7)' : 'Progressive'}
+              </label>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="option-width">Width (px)</Label>
+          <Input
+            id="option-width"
+            type="number"
+            min={1}
+            max={MAX_OUTPUT_DIMENSION}
+            placeholder="Original"
+            value={options.width ?? ''}
+            onChange={(e) => update({ width: parseNumberInput(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="option-height">Height (px)</Label>
+          <Input
+            id="option-height"
+            type="number"
+            min={1}
+            max={MAX_OUTPUT_DIMENSION}
+            placeholder="Original"
+            value={options.height ?? ''}
+            onChange={(e) => update({ height: parseNumberInput(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Fit</Label>
+          <Select
+            value={options.fit ?? 'inside'}
+            onValueChange={(value) => update({ fit: value as ResizeFit })}
+            disabled={disabled || !hasResize}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESIZE_FITS.map((fit) => (
+                <SelectItem key={fit.value} value={fit.value}>
+                  {fit.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
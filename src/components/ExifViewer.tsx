@@ -7,16 +7,32 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { FileUpload } from "@/components/FileUpload";
 import { LocationViewer } from "@/components/LocationViewer";
+import { MetadataStripper } from "@/components/MetadataStripper";
+import { MetadataEditor } from "@/components/MetadataEditor";
+import { BatchExifResults } from "@/components/BatchExifResults";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
 import { 
   Eye, EyeOff, Search, AlertTriangle, Shield, ShieldAlert, 
-  Image as ImageIcon, MapPin, Calendar, Camera, Settings 
+  Image as ImageIcon, MapPin, Calendar, Camera, Settings, ScanSearch, ArrowLeft,
+  Download, FileJson, FileSpreadsheet, FileText, Printer, PencilLine 
 } from "lucide-react";
-import { ProcessedExifData, ExifTag } from "@/types/exif";
+import { ProcessedExifData, ExifTag, BatchExifResult, ConversionProgress } from "@/types/exif";
 import { PRIVACY_CATEGORIES } from "@/types/exif";
-import { formatFileSize, formatDate, getImagePreviewUrl } from "@/lib/utils";
+import { formatFileSize, formatDate, formatCaptureTime, downloadBlob, describePlace } from "@/lib/utils";
+import { getDisplayablePreviewUrl } from "@/lib/image-preview";
+import { postWithProgress } from "@/lib/progress-request";
+import { buildExifExport, printExifReport, ExportFormat } from "@/lib/exif-export";
 import { cn } from "@/lib/utils";
 
 interface ExifViewerProps {
@@ -27,11 +43,16 @@ interface ExifViewerProps {
 export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps) {
   const [exifData, setExifData] = useState<ProcessedExifData | null>(null);
   const [loading, setLoading] = useState(false);
+  const [extractionProgress, setExtractionProgress] = useState<ConversionProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [showRawData, setShowRawData] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<'all' | 'high' | 'medium' | 'safe'>('all');
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [batchResult, setBatchResult] = useState<BatchExifResult | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [selectedBatchIndex, setSelectedBatchIndex] = useState<number | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
   
   // Add refs and mobile detection
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -48,15 +69,10 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
-  const handleFileUpload = useCallback(async (file: File) => {
-    setUploadedImage(file);
+  const runExtraction = useCallback(async (file: File, deepScan: boolean) => {
     setLoading(true);
     setError(null);
-    setExifData(null);
-    
-    // Create preview URL
-    const previewUrl = getImagePreviewUrl(file);
-    setImagePreview(previewUrl);
+    setExtractionProgress(null);
 
     try {
       const controller = new AbortController();
@@ -64,29 +80,16 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
 
       const formData = new FormData();
       formData.append('image', file);
+      if (deepScan) {
+        formData.append('deepScan', 'true');
+      }
 
-      const response = await fetch('/api/extract-exif', {
-        method: 'POST',
-        body: formData,
+      const result = await postWithProgress<ProcessedExifData>('/api/extract-exif', formData, {
+        onProgress: setExtractionProgress,
         signal: controller.signal,
       });
 
       clearTimeout(timeoutId);
-
-      // Check if response is actually JSON
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        const text = await response.text();
-        console.error('Non-JSON response:', text);
-        throw new Error('Server returned invalid response format');
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP ${response.status}`);
-      }
-
-      const result: ProcessedExifData = await response.json();
       setExifData(result);
     } catch (err) {
       console.error('EXIF extraction error:', err);
@@ -102,10 +105,79 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
       } else {
         setError('An unexpected error occurred');
       }
+    } finally {
+      setLoading(false);
+      setExtractionProgress(null);
+    }
+  }, []);
+
+  const handleFileUpload = useCallback(async (file: File) => {
+    setUploadedImage(file);
+    setExifData(null);
+    
+    // Create preview URL
+    setImagePreview(null);
+    getDisplayablePreviewUrl(file)
+      .then(setImagePreview)
+      .catch(() => setImagePreview(null));
+
+    await runExtraction(file, false);
+  }, [setUploadedImage, runExtraction]);
+
+  const handleFilesUpload = useCallback(async (files: File[]) => {
+    setBatchFiles(files);
+    setBatchResult(null);
+    setSelectedBatchIndex(null);
+    setLoading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append('images', file));
+
+      const response = await fetch('/api/extract-exif/batch', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      const result: BatchExifResult = await response.json();
+      setBatchResult(result);
+    } catch (err) {
+      console.error('Batch EXIF extraction error:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
       setLoading(false);
     }
-  }, [setUploadedImage]);
+  }, []);
+
+  const selectBatchEntry = useCallback((index: number) => {
+    const entry = batchResult?.files[index];
+    if (!entry?.data) return;
+
+    // Images that came out of a ZIP have no local File, so no preview or stripping
+    const localFile = batchFiles.find(file => file.name === entry.filename) || null;
+    setUploadedImage(localFile);
+    setImagePreview(null);
+    if (localFile) {
+      getDisplayablePreviewUrl(localFile)
+        .then(setImagePreview)
+        .catch(() => setImagePreview(null));
+    }
+    setExifData(entry.data);
+    setSelectedBatchIndex(index);
+    setSearchTerm("");
+    setSelectedCategory('all');
+  }, [batchResult, batchFiles, setUploadedImage]);
+
+  const isDeepScanned = useMemo(
+    () => exifData?.tags.some(tag => tag.source === 'exiftool') ?? false,
+    [exifData?.tags]
+  );
 
   // Optimized search with debouncing and memoization
   const handleSearchChange = useCallback((value: string) => {
@@ -164,6 +236,20 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
     }
   }, [exifData?.tags]);
 
+  // Exports use the full filtered list, not the truncated on-screen slice
+  const exportTags = (format: ExportFormat) => {
+    if (!exifData) return;
+    const exported = buildExifExport(format, exifData, filteredTags, { category: selectedCategory, searchTerm });
+    downloadBlob(new Blob([exported.content], { type: exported.mimeType }), exported.filename);
+  };
+
+  const printReport = () => {
+    if (!exifData) return;
+    if (!printExifReport(exifData, filteredTags, { category: selectedCategory, searchTerm })) {
+      setError('Pop-up blocked. Allow pop-ups to print the report, or export it as HTML instead.');
+    }
+  };
+
   const getCategoryIcon = (category: 'high' | 'medium' | 'safe') => {
     switch (category) {
       case 'high': return <ShieldAlert className="w-4 h-4" />;
@@ -199,7 +285,20 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
     }
   }, []);
 
-  if (!uploadedImage) {
+  const resetViewer = () => {
+    setUploadedImage(null);
+    setExifData(null);
+    setImagePreview(null);
+    setError(null);
+    setSearchTerm("");
+    setSelectedCategory('all');
+    setBatchResult(null);
+    setBatchFiles([]);
+    setSelectedBatchIndex(null);
+    setIsEditing(false);
+  };
+
+  if (!uploadedImage && !batchResult) {
     return (
       <div className="space-y-6">
         <div className="text-center">
@@ -214,9 +313,22 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
         
         <FileUpload 
           onFileUpload={handleFileUpload}
-          acceptedTypes={["image/*"]}
+          onFilesUpload={handleFilesUpload}
+          acceptedTypes={["image/*", "application/zip", "application/x-zip-compressed"]}
           maxSize={50 * 1024 * 1024}
+          disabled={loading}
         />
+
+        {loading && (
+          <LoadingSpinner message="Analyzing batch... This may take a while for many files" />
+        )}
+
+        {error && (
+          <Alert className="bg-red-500/10 border-red-500/20">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
         
         <Alert className="bg-blue-500/10 border-blue-500/20">
           <AlertTriangle className="h-4 w-4" />
@@ -229,8 +341,34 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
     );
   }
 
+  if (batchResult && selectedBatchIndex === null) {
+    return (
+      <div className="space-y-6">
+        <BatchExifResults result={batchResult} onSelect={selectBatchEntry} />
+
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={resetViewer}>
+            Upload Other Images
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
+      {batchResult && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setSelectedBatchIndex(null)}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to batch results
+        </Button>
+      )}
+
       {/* Header with Image Preview */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card className="bg-card/50 backdrop-blur">
@@ -279,6 +417,48 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
                   <span className="text-muted-foreground">Format:</span>
                   <p className="font-medium">{exifData.imageInfo.format}</p>
                 </div>
+                <div className="col-span-2">
+                  <span className="text-muted-foreground">Color Profile:</span>
+                  {exifData.imageInfo.iccProfile ? (
+                    <>
+                      <p className="font-medium">
+                        {exifData.imageInfo.iccProfile.name}
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {exifData.imageInfo.iccProfile.colorSpace} · ICC v{exifData.imageInfo.iccProfile.version}
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">{exifData.imageInfo.iccProfile.description}</p>
+                    </>
+                  ) : (
+                    <>
+                      <p className="font-medium">None embedded</p>
+                      <p className="text-xs text-muted-foreground">
+                        {exifData.imageInfo.colorSpace
+                          ? `EXIF color space: ${exifData.imageInfo.colorSpace}. `
+                          : ''}
+                        Viewers will assume sRGB.
+                      </p>
+                    </>
+                  )}
+                </div>
+                {exifData.captureTime && (
+                  <div className="col-span-2">
+                    <span className="text-muted-foreground">Captured:</span>
+                    <p className="font-medium">{formatCaptureTime(exifData.captureTime)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {exifData.captureTime.utc && `${formatDate(exifData.captureTime.utc, '+00:00')}. `}
+                      {exifData.captureTime.offsetSource === 'gps' && 'Time zone inferred from the GPS clock. '}
+                      {!exifData.captureTime.offset && 'No time zone recorded; shown as the camera clock read. '}
+                      From {exifData.captureTime.source}.
+                    </p>
+                    {exifData.captureTime.clockWarning && (
+                      <p className="mt-1 flex items-start gap-1 text-xs text-yellow-400">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                        {exifData.captureTime.clockWarning}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </CardContent>
@@ -294,11 +474,16 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
           </CardHeader>
           <CardContent>
             {loading && (
-              <div className="flex items-center justify-center py-8">
-                <LoadingSpinner />
-                <span className="ml-2 text-sm text-muted-foreground">
-                  {isMobile ? 'Processing... This may take a moment' : 'Processing image...'}
-                </span>
+              <div className="py-8 space-y-3">
+                <div className="flex items-center justify-center">
+                  <LoadingSpinner />
+                  <span className="ml-2 text-sm text-muted-foreground">
+                    {extractionProgress?.message ?? (isMobile ? 'Processing... This may take a moment' : 'Processing image...')}
+                  </span>
+                </div>
+                {extractionProgress && (
+                  <Progress value={extractionProgress.progress} className="h-2 max-w-xs mx-auto" />
+                )}
               </div>
             )}
             
@@ -328,10 +513,18 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
                   <Alert className="bg-red-500/20 border-red-500/40">
                     <MapPin className="h-4 w-4" />
                     <AlertDescription>
-                      <strong>Location data detected!</strong> This image contains GPS coordinates.
+                      <strong>Location data detected!</strong> This image contains GPS coordinates
+                      {exifData.place ? ` revealing it was taken ${describePlace(exifData.place)}.` : '.'}
                     </AlertDescription>
                   </Alert>
                 )}
+
+                {exifData.errors && exifData.errors.length > 0 && (
+                  <Alert className="bg-yellow-500/10 border-yellow-500/20">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{exifData.errors.join(' ')}</AlertDescription>
+                  </Alert>
+                )}
               </div>
             )}
           </CardContent>
@@ -340,7 +533,7 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
 
       {/* GPS Map Viewer */}
       {exifData?.gpsData && (
-        <LocationViewer gpsData={exifData.gpsData} />
+        <LocationViewer gpsData={exifData.gpsData} place={exifData.place} file={uploadedImage} />
       )}
 
       {/* EXIF Data Table */}
@@ -363,6 +556,57 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
                   {showRawData ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
                   {showRawData ? 'Hide Raw' : 'Show Raw'}
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => uploadedImage && runExtraction(uploadedImage, true)}
+                  disabled={loading || isDeepScanned || !uploadedImage}
+                  className="flex items-center gap-2"
+                  title="Run exiftool to read MakerNotes, full XMP, ICC profile and composite tags"
+                >
+                  <ScanSearch className="w-4 h-4" />
+                  {isDeepScanned ? 'Deep Scanned' : 'Deep Scan'}
+                </Button>
+                <Button
+                  variant={isEditing ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setIsEditing(!isEditing)}
+                  disabled={!uploadedImage}
+                  className="flex items-center gap-2"
+                >
+                  <PencilLine className="w-4 h-4" />
+                  {isEditing ? 'Close Editor' : 'Edit Metadata'}
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="flex items-center gap-2">
+                      <Download className="w-4 h-4" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>
+                      Export {filteredTags.length} {filteredTags.length === 1 ? 'tag' : 'tags'}
+                    </DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => exportTags('json')}>
+                      <FileJson className="w-4 h-4 mr-2" />
+                      JSON
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => exportTags('csv')}>
+                      <FileSpreadsheet className="w-4 h-4 mr-2" />
+                      CSV
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => exportTags('html')}>
+                      <FileText className="w-4 h-4 mr-2" />
+                      HTML report
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={printReport}>
+                      <Printer className="w-4 h-4 mr-2" />
+                      Print / Save as PDF
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             </div>
             
@@ -433,6 +677,11 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
                           >
                             {PRIVACY_CATEGORIES[tag.category].label}
                           </Badge>
+                          {tag.source === 'exiftool' && (
+                            <Badge variant="outline" className="text-xs" title={`Read by exiftool from ${tag.group}`}>
+                              {tag.group}
+                            </Badge>
+                          )}
                         </div>
                         <p className="text-sm opacity-80 mb-2">{tag.description}</p>
                         <div className="font-mono text-sm bg-white/10 p-2 rounded border break-all">
@@ -456,19 +705,23 @@ export function ExifViewer({ uploadedImage, setUploadedImage }: ExifViewerProps)
           </CardContent>
         </Card>
       )}
+
+      {/* Metadata Editing */}
+      {exifData && uploadedImage && isEditing && (
+        <MetadataEditor
+          key={`${exifData.imageInfo.filename}-${exifData.tags.length}`}
+          file={uploadedImage}
+          tags={exifData.tags}
+        />
+      )}
+
+      {/* Metadata Removal */}
+      {exifData && uploadedImage && (
+        <MetadataStripper key={exifData.imageInfo.filename} file={uploadedImage} />
+      )}
       
       <div className="flex justify-center">
-        <Button 
-          variant="outline" 
-          onClick={() => {
-            setUploadedImage(null);
-            setExifData(null);
-            setImagePreview(null);
-            setError(null);
-            setSearchTerm("");
-            setSelectedCategory('all');
-          }}
-        >
+        <Button variant="outline" onClick={resetViewer}>
           Upload Another Image
         </Button>
       </div>
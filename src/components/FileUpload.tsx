@@ -4,14 +4,15 @@ import { useCallback, useState } from "react";
 import { useDropzone } from "react-dropzone";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Upload, Image as ImageIcon, AlertCircle, CheckCircle } from "lucide-react";
-import { validateImageFile, formatFileSize } from "@/lib/utils";
+import { Upload, Image as ImageIcon, AlertCircle } from "lucide-react";
+import { validateImageFile, formatFileSize, isZipFile, normalizeImageFile } from "@/lib/utils";
 import { cn } from "@/lib/utils";
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void;
+  // When set, dropping several files (or a ZIP) calls this instead of onFileUpload
+  onFilesUpload?: (files: File[]) => void;
   acceptedTypes?: string[];
   maxSize?: number;
   disabled?: boolean;
@@ -19,66 +20,52 @@ interface FileUploadProps {
 
 export function FileUpload({ 
   onFileUpload, 
+  onFilesUpload,
   acceptedTypes = ["image/*"], 
   maxSize = 50 * 1024 * 1024,
   disabled = false 
 }: FileUploadProps) {
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  const [uploading, setUploading] = useState(false);
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+  const onDrop = useCallback((droppedFiles: File[]) => {
+    const acceptedFiles = droppedFiles.map(normalizeImageFile);
+    const isBatch = !!onFilesUpload && (acceptedFiles.length > 1 || acceptedFiles.some(isZipFile));
+    if (isBatch) {
+      setError(null);
+
+      // ZIP archives are validated server-side, entry by entry
+      const invalid = acceptedFiles.filter(file => !isZipFile(file) && !validateImageFile(file).valid);
+      if (invalid.length > 0) {
+        setError(`Unsupported or oversized files: ${invalid.map(file => file.name).join(', ')}`);
+        return;
+      }
+
+      onFilesUpload(acceptedFiles);
+      return;
+    }
+
     const file = acceptedFiles[0];
     if (!file) return;
 
-    setError(null);
-    setUploading(true);
-
     // Validate file
     const validation = validateImageFile(file);
     if (!validation.valid) {
       setError(validation.error || 'Invalid file');
-      setUploading(false);
       return;
     }
 
-    // Simulate upload progress for better UX
-    const progressInterval = setInterval(() => {
-      setUploadProgress(prev => {
-        if (prev >= 90) {
-          clearInterval(progressInterval);
-          return 90;
-        }
-        return prev + 10;
-      });
-    }, 100);
-
-    try {
-      // Small delay to show progress animation
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      setUploadProgress(100);
-      onFileUpload(file);
-      
-      // Reset progress after successful upload
-      setTimeout(() => {
-        setUploadProgress(0);
-        setUploading(false);
-      }, 1000);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Upload failed');
-      setUploadProgress(0);
-      setUploading(false);
-      clearInterval(progressInterval);
-    }
-  }, [onFileUpload]);
+    // The file is read locally; callers report real progress when they send it
+    setError(null);
+    onFileUpload(file);
+  }, [onFileUpload, onFilesUpload]);
 
   const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
     onDrop,
-    accept: acceptedTypes.reduce((acc, type) => ({ ...acc, [type]: [] }), {}),
+    // List HEIC by extension too, since its MIME type is often missing
+    accept: acceptedTypes.reduce((acc, type) => ({ ...acc, [type]: type === 'image/*' ? ['.heic', '.heif'] : [] }), {}),
     maxSize,
-    multiple: false,
-    disabled: disabled || uploading,
+    multiple: !!onFilesUpload,
+    disabled,
   });
 
   return (
@@ -89,7 +76,6 @@ export function FileUpload({
           "transition-all duration-200 cursor-pointer border-2 border-dashed hover:border-primary/50",
           isDragActive && !isDragReject && "border-primary bg-primary/5 scale-105",
           isDragReject && "border-red-500 bg-red-500/5",
-          uploading && "pointer-events-none opacity-75",
           disabled && "pointer-events-none opacity-50"
         )}
       >
@@ -104,47 +90,31 @@ export function FileUpload({
                 : "bg-muted text-muted-foreground",
               isDragReject && "bg-red-500/20 text-red-500"
             )}>
-              {uploading ? (
-                <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-              ) : (
-                <Upload className="w-8 h-8" />
-              )}
+              <Upload className="w-8 h-8" />
             </div>
             
-            {uploading ? (
-              <div className="space-y-3">
-                <p className="text-lg font-semibold">Uploading...</p>
-                <div className="w-full max-w-xs mx-auto">
-                  <Progress value={uploadProgress} className="h-2" />
-                  <p className="text-sm text-muted-foreground mt-1">
-                    {uploadProgress}% complete
-                  </p>
-                </div>
-              </div>
-            ) : (
-              <div className="space-y-2">
-                <p className="text-lg font-semibold">
-                  {isDragActive 
-                    ? (isDragReject ? "File type not supported" : "Drop your image here") 
-                    : "Upload an image to analyze"
-                  }
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  Drag and drop an image file, or{" "}
-                  <Button variant="link" className="h-auto p-0 text-primary">
-                    browse
-                  </Button>
-                </p>
-                <div className="flex items-center justify-center gap-4 text-xs text-muted-foreground mt-4">
-                  <div className="flex items-center gap-1">
-                    <ImageIcon className="w-3 h-3" />
-                    JPEG, PNG, WebP, TIFF
-                  </div>
-                  <div>•</div>
-                  <div>Max {formatFileSize(maxSize)}</div>
+            <div className="space-y-2">
+              <p className="text-lg font-semibold">
+                {isDragActive 
+                  ? (isDragReject ? "File type not supported" : onFilesUpload ? "Drop your images here" : "Drop your image here") 
+                  : onFilesUpload ? "Upload images or a ZIP to analyze" : "Upload an image to analyze"
+                }
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Drag and drop an image file, or{" "}
+                <Button variant="link" className="h-auto p-0 text-primary">
+                  browse
+                </Button>
+              </p>
+              <div className="flex items-center justify-center gap-4 text-xs text-muted-foreground mt-4">
+                <div className="flex items-center gap-1">
+                  <ImageIcon className="w-3 h-3" />
+                  JPEG, PNG, WebP, TIFF
                 </div>
+                <div>•</div>
+                <div>Max {formatFileSize(maxSize)}</div>
               </div>
-            )}
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -156,12 +126,6 @@ export function FileUpload({
         </Alert>
       )}
 
-      {uploadProgress === 100 && !error && (
-        <Alert className="mt-4 bg-green-500/10 border-green-500/20">
-          <CheckCircle className="h-4 w-4" />
-          <AlertDescription>File uploaded successfully!</AlertDescription>
-        </Alert>
-      )}
     </div>
   );
 }
\ No newline at end of file
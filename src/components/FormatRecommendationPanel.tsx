@@ -0,0 +1,115 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Trophy, AlertCircle } from "lucide-react";
+import { FormatRecommendation, SSIM_RATINGS } from "@/types/exif";
+import { formatFileSize } from "@/lib/utils";
+import { calculateSavings } from "@/lib/conversion-client";
+import { cn } from "@/lib/utils";
+
+interface FormatRecommendationPanelProps {
+  recommendation: FormatRecommendation;
+  onUseFormat: (format: string, quality: number) => void;
+  disabled?: boolean;
+}
+
+export function FormatRecommendationPanel({ recommendation, onUseFormat, disabled }: FormatRecommendationPanelProps) {
+  const { trials, recommended, quality, minSsim, originalSize } = recommendation;
+  const winner = trials.find(trial => trial.format === recommended);
+  const threshold = SSIM_RATINGS.find(rating => rating.min === minSsim)?.label.toLowerCase();
+
+  return (
+    <Card className="bg-card/50 backdrop-blur">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="w-5 h-5" />
+            Best Output Format
+          </CardTitle>
+          {winner && (
+            <Button
+              onClick={() => onUseFormat(winner.format, quality)}
+              disabled={disabled}
+              className="bg-gradient-to-r from-orange-500 to-yellow-500 hover:from-orange-600 hover:to-yellow-600"
+            >
+              Use {winner.name}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Every format encoded at quality {quality} where it applies. Acceptable means SSIM of at
+          least {minSsim}{threshold && ` (${threshold})`}.
+        </p>
+
+        {!winner && (
+          <div className="flex items-center gap-2 text-sm text-yellow-400">
+            <AlertCircle className="w-4 h-4" />
+            No format reached the minimum SSIM at this quality. Try a lower threshold.
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border/50">
+                <th className="py-2 pr-4 font-medium">Format</th>
+                <th className="py-2 pr-4 font-medium text-right">Size</th>
+                <th className="py-2 pr-4 font-medium text-right">Change</th>
+                <th className="py-2 pr-4 font-medium text-right">Encode</th>
+                <th className="py-2 pr-4 font-medium text-right">PSNR</th>
+                <th className="py-2 pr-4 font-medium text-right">SSIM</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {trials.map((trial) => {
+                const savings = trial.error ? null : calculateSavings(originalSize, trial.size);
+
+                return (
+                  <tr
+                    key={trial.format}
+                    className={cn(
+                      "border-b border-border/30",
+                      trial.format === recommended && "bg-green-500/10",
+                      !trial.acceptable && "text-muted-foreground"
+                    )}
+                  >
+                    <td className="py-2 pr-4 font-medium">{trial.name}</td>
+                    {trial.error ? (
+                      <td colSpan={5} className="py-2 pr-4 text-red-400">{trial.error}</td>
+                    ) : (
+                      <>
+                        <td className="py-2 pr-4 text-right font-mono">{formatFileSize(trial.size)}</td>
+                        <td className="py-2 pr-4 text-right font-mono">
+                          {savings !== null && `${savings > 0 ? '-' : '+'}${Math.abs(savings).toFixed(1)}%`}
+                        </td>
+                        <td className="py-2 pr-4 text-right font-mono">{trial.encodeMs} ms</td>
+                        <td className="py-2 pr-4 text-right font-mono">
+                          {trial.quality ? (trial.quality.psnr === null ? '∞' : `${trial.quality.psnr.toFixed(1)} dB`) : '—'}
+                        </td>
+                        <td className="py-2 pr-4 text-right font-mono">
+                          {trial.quality ? trial.quality.ssim.toFixed(4) : '—'}
+                        </td>
+                      </>
+                    )}
+                    <td className="py-2">
+                      {trial.format === recommended ? (
+                        <Badge variant="secondary" className="text-xs bg-green-500/20 text-green-300">Recommended</Badge>
+                      ) : !trial.error && !trial.acceptable ? (
+                        <Badge variant="secondary" className="text-xs">Below threshold</Badge>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
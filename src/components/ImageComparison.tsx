@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Columns2, Contrast, ZoomIn } from "lucide-react";
+import { QualityMetrics, SSIM_RATINGS } from "@/types/exif";
+import { cn } from "@/lib/utils";
+
+type ComparisonMode = 'slider' | 'difference';
+
+interface ImageComparisonProps {
+  originalUrl: string;
+  convertedUrl: string;
+  quality?: QualityMetrics;
+}
+
+const ZOOM_LEVELS = [1, 2, 4, 8];
+const DIFFERENCE_GAINS = [1, 4, 10, 25];
+// Largest side of the difference image; bigger images are compared scaled down
+const MAX_DIFFERENCE_DIMENSION = 2048;
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = url;
+  });
+}
+
+function readPixels(image: HTMLImageElement, width: number, height: number): Uint8ClampedArray {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * Draw |original - converted| into `canvas`, averaged over RGB and multiplied
+ * by `gain` so small encoder errors become visible. Black means identical.
+ */
+async function drawDifference(canvas: HTMLCanvasElement, originalUrl: string, convertedUrl: string, gain: number) {
+  const [original, converted] = await Promise.all([loadImage(originalUrl), loadImage(convertedUrl)]);
+
+  const scale = Math.min(1, MAX_DIFFERENCE_DIMENSION / Math.max(converted.naturalWidth, converted.naturalHeight));
+  const width = Math.max(1, Math.round(converted.naturalWidth * scale));
+  const height = Math.max(1, Math.round(converted.naturalHeight * scale));
+
+  const a = readPixels(original, width, height);
+  const b = readPixels(converted, width, height);
+
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  const output = context.createImageData(width, height);
+
+  for (let i = 0; i < a.length; i += 4) {
+    const difference = (Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2])) / 3;
+    const value = Math.min(255, difference * gain);
+    output.data[i] = value;
+    output.data[i + 1] = value * 0.4;
+    output.data[i + 2] = 0;
+    output.data[i + 3] = 255;
+  }
+
+  context.putImageData(output, 0, 0);
+}
+
+export function ImageComparison({ originalUrl, convertedUrl, quality }: ImageComparisonProps) {
+  const [mode, setMode] = useState<ComparisonMode>('slider');
+  const [position, setPosition] = useState(50);
+  const [zoom, setZoom] = useState(1);
+  const [origin, setOrigin] = useState({ x: 50, y: 50 });
+  const [gain, setGain] = useState(4);
+  const [differenceError, setDifferenceError] = useState<string | null>(null);
+  const differenceCanvas = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (mode !== 'difference' || !differenceCanvas.current) return;
+
+    setDifferenceError(null);
+    drawDifference(differenceCanvas.current, originalUrl, convertedUrl, gain)
+      .catch(() => setDifferenceError('Could not compute the difference image'));
+  }, [mode, originalUrl, convertedUrl, gain]);
+
+  // At higher zoom levels the magnified area follows the pointer
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (zoom === 1) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setOrigin({
+      x: ((event.clientX - bounds.left) / bounds.width) * 100,
+      y: ((event.clientY - bounds.top) / bounds.height) * 100,
+    });
+  };
+
+  const rating = quality ? SSIM_RATINGS.find(entry => quality.ssim >= entry.min)! : null;
+  const layerClass = cn("absolute inset-0 w-full h-full object-contain", zoom > 1 && "[image-rendering:pixelated]");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={mode === 'slider' ? 'default' : 'outline'}
+            onClick={() => setMode('slider')}
+          >
+            <Columns2 className="w-4 h-4 mr-2" />
+            Slider
+          </Button>
+          <Button
+            size="sm"
+            variant={mode === 'difference' ? 'default' : 'outline'}
+            onClick={() => setMode('difference')}
+          >
+            <Contrast className="w-4 h-4 mr-2" />
+            Difference
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {mode === 'difference' && (
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">Gain</Label>
+              <Select value={String(gain)} onValueChange={(value) => setGain(Number(value))}>
+                <SelectTrigger className="h-8 w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIFFERENCE_GAINS.map((value) => (
+                    <SelectItem key={value} value={String(value)}>×{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <ZoomIn className="w-4 h-4 text-muted-foreground" />
+            <Select value={String(zoom)} onValueChange={(value) => setZoom(Number(value))}>
+              <SelectTrigger className="h-8 w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ZOOM_LEVELS.map((value) => (
+                  <SelectItem key={value} value={String(value)}>{value * 100}%</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      <div
+        className={cn("relative h-80 overflow-hidden rounded-lg bg-muted", zoom > 1 && "cursor-crosshair")}
+        onPointerMove={handlePointerMove}
+      >
+        <div
+          className="absolute inset-0"
+          style={{ transform: `scale(${zoom})`, transformOrigin: `${origin.x}% ${origin.y}%` }}
+        >
+          {mode === 'slider' ? (
+            <>
+              <img src={originalUrl} alt="Original" className={layerClass} />
+              <img
+                src={convertedUrl}
+                alt="Converted"
+                className={layerClass}
+                style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+              />
+            </>
+          ) : (
+            <canvas ref={differenceCanvas} className={layerClass} />
+          )}
+        </div>
+
+        {mode === 'slider' && (
+          <>
+            <div
+              className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none"
+              style={{ left: `${position}%` }}
+            />
+            <Badge variant="secondary" className="absolute top-2 left-2 text-xs">Original</Badge>
+            <Badge variant="secondary" className="absolute top-2 right-2 text-xs">Converted</Badge>
+          </>
+        )}
+      </div>
+
+      {mode === 'slider' ? (
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={position}
+          onChange={(e) => setPosition(Number(e.target.value))}
+          aria-label="Comparison position"
+          className="w-full accent-orange-500"
+        />
+      ) : (
+        <p className={cn("text-xs", differenceError ? "text-red-400" : "text-muted-foreground")}>
+          {differenceError ?? `Brighter pixels changed more; differences are amplified ×${gain}. Black means unchanged.`}
+        </p>
+      )}
+
+      {quality && rating && (
+        <div className="flex flex-wrap items-center gap-4 p-3 rounded-lg border border-border/50 text-sm">
+          <div>
+            <span className="text-muted-foreground">PSNR </span>
+            <span className="font-mono font-medium">
+              {quality.psnr === null ? '∞ (identical)' : `${quality.psnr.toFixed(2)} dB`}
+            </span>
+          </div>
+          <div>
+            <span className="text-muted-foreground">SSIM </span>
+            <span className="font-mono font-medium">{quality.ssim.toFixed(4)}</span>
+          </div>
+          <Badge variant="secondary" className={cn("text-xs", rating.className)}>{rating.label}</Badge>
+          <span className="text-xs text-muted-foreground ml-auto">
+            Measured at {quality.width}×{quality.height}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
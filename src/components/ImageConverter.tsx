@@ -1,11 +1,12 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
 import { 
   Select,
   SelectContent,
@@ -14,36 +15,66 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { FileUpload } from "@/components/FileUpload";
+import { BatchConversionQueue, BatchConversionItem } from "@/components/BatchConversionQueue";
+import { ConversionOptionsPanel } from "@/components/ConversionOptionsPanel";
+import { TargetSizeControl } from "@/components/TargetSizeControl";
+import { TransformControls } from "@/components/TransformControls";
+import { ImageComparison } from "@/components/ImageComparison";
+import { FormatRecommendationPanel } from "@/components/FormatRecommendationPanel";
+import { ResponsiveSetGenerator } from "@/components/ResponsiveSetGenerator";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
 import { 
   RefreshCw, Download, Image as ImageIcon, 
   Zap, FileImage, CheckCircle, AlertCircle,
-  Sparkles, Cpu, Layers
+  Sparkles, Cpu, Layers, Tags, Film, Target, Trophy, Crop
 } from "lucide-react";
-import { SUPPORTED_FORMATS } from "@/types/exif";
-import { formatFileSize, downloadBlob, getImagePreviewUrl } from "@/lib/utils";
+import {
+  SUPPORTED_FORMATS, OUTPUT_FORMATS, METADATA_POLICIES, COLOR_PROFILE_MODES, PRIVACY_CATEGORIES, SSIM_RATINGS,
+  AnimationInfo, ColorProfileMode, ConversionOptions, ConversionMetadataReport, ConversionProgress, MetadataPolicy,
+  FormatRecommendation, QualityMetrics, TargetSizeRequest, TargetSizeResult, TransformOptions, TransformResult
+} from "@/types/exif";
+import {
+  FORMAT_CAPABILITIES, NO_TRANSFORM, isGeometricTransform, parseConversionOptions, parseTargetSize, supportsTargetSize
+} from "@/lib/conversion-options";
+import { formatFileSize, downloadBlob, base64ToBlob, generateId } from "@/lib/utils";
+import { requestConversion, requestFormatRecommendation, buildConversionZip, calculateSavings } from "@/lib/conversion-client";
+import { expandBatchUploads, MAX_BATCH_FILES } from "@/lib/batch-upload";
+import { getDisplayablePreviewUrl, renderTransformedPreview } from "@/lib/image-preview";
 import { cn } from "@/lib/utils";
 
-interface ConversionState {
-  stage: string;
-  progress: number;
-  message: string;
-}
-
 export function ImageConverter() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [targetFormat, setTargetFormat] = useState<string>("webp");
+  const [conversionOptions, setConversionOptions] = useState<ConversionOptions>(FORMAT_CAPABILITIES.webp.defaults);
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>("strip");
+  const [colorProfile, setColorProfile] = useState<ColorProfileMode>("auto");
+  const [metadataReport, setMetadataReport] = useState<ConversionMetadataReport | null>(null);
+  const [animationInfo, setAnimationInfo] = useState<AnimationInfo | null>(null);
+  const [targetSize, setTargetSize] = useState<TargetSizeRequest | null>(null);
+  const [targetSizeResult, setTargetSizeResult] = useState<TargetSizeResult | null>(null);
+  // Upright output by default: stripping the metadata would otherwise leave photos on their side
+  const [transform, setTransform] = useState<TransformOptions>({ ...NO_TRANSFORM, autoOrient: true });
+  const [transformResult, setTransformResult] = useState<TransformResult | null>(null);
+  const [qualityMetrics, setQualityMetrics] = useState<QualityMetrics | null>(null);
+  const [recommendation, setRecommendation] = useState<FormatRecommendation | null>(null);
+  const [minSsim, setMinSsim] = useState(0.95);
   const [converting, setConverting] = useState(false);
-  const [conversionState, setConversionState] = useState<ConversionState>({
+  const [conversionState, setConversionState] = useState<ConversionProgress>({
     stage: "idle",
     progress: 0,
     message: ""
   });
   const [convertedBlob, setConvertedBlob] = useState<Blob | null>(null);
   const [originalPreview, setOriginalPreview] = useState<string | null>(null);
+  // The original with the same crop, rotation and flips, for the comparison
+  const [referencePreview, setReferencePreview] = useState<string | null>(null);
   const [convertedPreview, setConvertedPreview] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [compressionSavings, setCompressionSavings] = useState<number | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchConversionItem[]>([]);
+  const [batchNotice, setBatchNotice] = useState<string | null>(null);
+  const [zipping, setZipping] = useState(false);
+  const isBatch = batchItems.length > 0;
 
   const handleFileUpload = useCallback((file: File) => {
     setSelectedFile(file);
@@ -51,68 +82,129 @@ export function ImageConverter() {
     setConvertedBlob(null);
     setConvertedPreview(null);
     setCompressionSavings(null);
+    setMetadataReport(null);
+    setAnimationInfo(null);
+    setTargetSizeResult(null);
+    setTransformResult(null);
+    setReferencePreview(null);
+    setQualityMetrics(null);
+    setRecommendation(null);
+    // Crop coordinates belong to the previous image
+    setTransform(prev => ({ ...prev, crop: undefined }));
     
-    const previewUrl = getImagePreviewUrl(file);
-    setOriginalPreview(previewUrl);
+    setOriginalPreview(null);
+    getDisplayablePreviewUrl(file)
+      .then(setOriginalPreview)
+      .catch(() => setOriginalPreview(null));
   }, []);
 
-  const simulateConversionProgress = useCallback(() => {
-    const stages = [
-      { stage: "analyzing", message: "Analyzing image structure...", progress: 15 },
-      { stage: "decoding", message: "Decoding original format...", progress: 35 },
-      { stage: "processing", message: "Optimizing pixels...", progress: 60 },
-      { stage: "encoding", message: "Encoding to new format...", progress: 85 },
-      { stage: "finalizing", message: "Finalizing conversion...", progress: 95 },
-    ];
+  const handleFilesUpload = useCallback(async (files: File[]) => {
+    setError(null);
+    setBatchNotice(null);
 
-    let currentStage = 0;
-    
-    const updateStage = () => {
-      if (currentStage < stages.length) {
-        setConversionState(stages[currentStage]);
-        currentStage++;
-        setTimeout(updateStage, 400 + Math.random() * 300);
+    try {
+      const { files: images, skipped, truncated } = await expandBatchUploads(files);
+      if (images.length === 0) {
+        setError('No images found in the upload');
+        return;
       }
-    };
 
-    updateStage();
+      const notices: string[] = [];
+      if (skipped.length > 0) {
+        notices.push(`Skipped ${skipped.length} non-image ${skipped.length === 1 ? 'file' : 'files'} from the archive.`);
+      }
+      if (truncated) {
+        notices.push(`Only the first ${MAX_BATCH_FILES} images were queued.`);
+      }
+
+      setSelectedFile(null);
+      setTransform(prev => ({ ...prev, crop: undefined }));
+      setBatchNotice(notices.length > 0 ? notices.join(' ') : null);
+      setBatchItems(images.map(file => ({ id: generateId(), file, status: 'queued' })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the uploaded files');
+    }
   }, []);
 
+  const handleFormatChange = (format: string) => {
+    setTargetFormat(format);
+    // Encoder settings don't carry across formats; the resize target does
+    setConversionOptions(prev => ({
+      ...FORMAT_CAPABILITIES[format]?.defaults,
+      width: prev.width,
+      height: prev.height,
+      fit: prev.fit,
+    }));
+  };
+
+  // Only send fit alongside a resize target, and drop encoder options the
+  // format doesn't understand
+  const optionsPayload = useMemo(() => {
+    const capabilities = FORMAT_CAPABILITIES[targetFormat];
+    const payload: ConversionOptions = {};
+    for (const option of capabilities?.options ?? []) {
+      if (conversionOptions[option] !== undefined) {
+        Object.assign(payload, { [option]: conversionOptions[option] });
+      }
+    }
+    if (conversionOptions.width !== undefined) payload.width = conversionOptions.width;
+    if (conversionOptions.height !== undefined) payload.height = conversionOptions.height;
+    if (payload.width !== undefined || payload.height !== undefined) {
+      payload.fit = conversionOptions.fit ?? 'inside';
+    }
+    return payload;
+  }, [conversionOptions, targetFormat]);
+
+  // The target size setting is kept while switching formats but only sent for ones that support it
+  const targetSizePayload = targetSize && supportsTargetSize(targetFormat) ? targetSize : undefined;
+  const transformPayload = transform.autoOrient || isGeometricTransform(transform) ? transform : undefined;
+
+  const optionsError = useMemo(() => {
+    const result = parseConversionOptions(optionsPayload, targetFormat);
+    if ('error' in result) return result.error;
+    if (targetSizePayload) {
+      const target = parseTargetSize(targetSizePayload, targetFormat, result.options);
+      if ('error' in target) return target.error;
+    }
+    return null;
+  }, [optionsPayload, targetFormat, targetSizePayload]);
+
   const convertImage = async () => {
     if (!selectedFile) return;
 
     setConverting(true);
     setError(null);
-    setConversionState({ stage: "initializing", progress: 5, message: "Preparing conversion..." });
-    
-    // Start progress animation
-    simulateConversionProgress();
+    setConversionState({ stage: "uploading", progress: 0, message: "Starting upload..." });
 
     try {
-      const formData = new FormData();
-      formData.append('image', selectedFile);
-      formData.append('format', targetFormat);
-
-      const response = await fetch('/api/convert-image', {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Conversion failed');
-      }
-
-      const blob = await response.blob();
+      const result = await requestConversion(selectedFile, {
+        format: targetFormat,
+        options: optionsPayload,
+        metadata: metadataPolicy,
+        colorProfile,
+        targetSize: targetSizePayload,
+        transform: transformPayload,
+        measureQuality: true,
+      }, setConversionState);
+      const blob = base64ToBlob(result.data, result.mimeType);
       setConvertedBlob(blob);
+      setMetadataReport(result.metadata);
+      setAnimationInfo(result.animation ?? null);
+      setTargetSizeResult(result.targetSize ?? null);
+      setQualityMetrics(result.quality ?? null);
+      setTransformResult(result.transform ?? null);
+      setReferencePreview(
+        originalPreview && transformPayload && isGeometricTransform(transformPayload)
+          ? await renderTransformedPreview(originalPreview, transformPayload).catch(() => null)
+          : null
+      );
       
       // Create preview for converted image
       const convertedUrl = URL.createObjectURL(blob);
       setConvertedPreview(convertedUrl);
       
       // Calculate compression savings
-      const savings = ((selectedFile.size - blob.size) / selectedFile.size) * 100;
-      setCompressionSavings(savings);
+      setCompressionSavings(calculateSavings(selectedFile.size, blob.size));
       
       setConversionState({ 
         stage: "complete", 
@@ -134,6 +226,79 @@ export function ImageConverter() {
     }
   };
 
+  const findBestFormat = async () => {
+    if (!selectedFile) return;
+
+    setConverting(true);
+    setError(null);
+    setRecommendation(null);
+    setConversionState({ stage: "uploading", progress: 0, message: "Starting upload..." });
+
+    try {
+      setRecommendation(await requestFormatRecommendation(selectedFile, minSsim, setConversionState));
+      setConversionState({ stage: "complete", progress: 100, message: "Comparison complete" });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Format comparison failed');
+      setConversionState({ stage: "error", progress: 0, message: "Format comparison failed" });
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  const applyRecommendedFormat = (format: string, quality: number) => {
+    handleFormatChange(format);
+    if (FORMAT_CAPABILITIES[format]?.options.includes('quality')) {
+      setConversionOptions(prev => ({ ...prev, quality }));
+    }
+  };
+
+  // Files are converted one at a time so a failure only marks that entry
+  const convertBatch = async () => {
+    setConverting(true);
+    setError(null);
+    const request = {
+      format: targetFormat,
+      options: optionsPayload,
+      metadata: metadataPolicy,
+      colorProfile,
+      targetSize: targetSizePayload,
+      transform: transformPayload,
+    };
+    const updateItem = (id: string, changes: Partial<BatchConversionItem>) => {
+      setBatchItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+    };
+
+    // Re-running the queue converts everything again with the current settings
+    setBatchItems(prev => prev.map(item => ({ ...item, status: 'queued', result: undefined, error: undefined })));
+
+    for (const item of batchItems) {
+      updateItem(item.id, { status: 'converting' });
+      try {
+        const result = await requestConversion(item.file, request);
+        updateItem(item.id, { status: 'done', result });
+      } catch (err) {
+        updateItem(item.id, { status: 'error', error: err instanceof Error ? err.message : 'Conversion failed' });
+      }
+    }
+
+    setConverting(false);
+  };
+
+  const downloadBatchZip = async () => {
+    const results = batchItems.flatMap(item => (item.status === 'done' && item.result ? [item.result] : []));
+    if (results.length === 0) return;
+
+    setZipping(true);
+    try {
+      const zip = await buildConversionZip(results);
+      downloadBlob(zip, `converted-${targetFormat}-${results.length}.zip`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build ZIP');
+    } finally {
+      setZipping(false);
+    }
+  };
+
   const downloadConverted = () => {
     if (!convertedBlob || !selectedFile) return;
     
@@ -151,6 +316,16 @@ export function ImageConverter() {
     setConvertedPreview(null);
     setError(null);
     setCompressionSavings(null);
+    setMetadataReport(null);
+    setAnimationInfo(null);
+    setTargetSizeResult(null);
+    setTransformResult(null);
+    setReferencePreview(null);
+    setTransform(prev => ({ ...prev, crop: undefined }));
+    setQualityMetrics(null);
+    setRecommendation(null);
+    setBatchItems([]);
+    setBatchNotice(null);
     setConversionState({ stage: "idle", progress: 0, message: "" });
   };
 
@@ -158,7 +333,7 @@ export function ImageConverter() {
     return SUPPORTED_FORMATS.find(f => f.extension === format);
   };
 
-  if (!selectedFile) {
+  if (!selectedFile && !isBatch) {
     return (
       <div className="space-y-6">
         <div className="text-center">
@@ -167,13 +342,15 @@ export function ImageConverter() {
           </div>
           <h2 className="text-2xl font-bold mb-2">Image Format Converter</h2>
           <p className="text-muted-foreground mb-6">
-            Convert your images between different formats with optimized compression
+            Convert your images between different formats with optimized compression.
+            Drop several images or a ZIP to convert them as a batch.
           </p>
         </div>
         
         <FileUpload 
           onFileUpload={handleFileUpload}
-          acceptedTypes={["image/*"]}
+          onFilesUpload={handleFilesUpload}
+          acceptedTypes={["image/*", "application/zip", "application/x-zip-compressed"]}
           maxSize={50 * 1024 * 1024}
         />
         
@@ -198,39 +375,60 @@ export function ImageConverter() {
   return (
     <div className="space-y-6">
       {/* Original Image Info */}
+      {selectedFile && (
+        <Card className="bg-card/50 backdrop-blur">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ImageIcon className="w-5 h-5" />
+              Original Image
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                {originalPreview && (
+                  <img 
+                    src={originalPreview} 
+                    alt="Original image"
+                    className="w-full h-48 object-contain rounded-lg bg-muted"
+                  />
+                )}
+              </div>
+              <div className="space-y-3">
+                <div>
+                  <span className="text-sm text-muted-foreground">Filename:</span>
+                  <p className="font-medium truncate">{selectedFile.name}</p>
+                </div>
+                <div>
+                  <span className="text-sm text-muted-foreground">Size:</span>
+                  <p className="font-medium">{formatFileSize(selectedFile.size)}</p>
+                </div>
+                <div>
+                  <span className="text-sm text-muted-foreground">Type:</span>
+                  <p className="font-medium">{selectedFile.type}</p>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Transform */}
       <Card className="bg-card/50 backdrop-blur">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <ImageIcon className="w-5 h-5" />
-            Original Image
+            <Crop className="w-5 h-5" />
+            Transform
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <div>
-              {originalPreview && (
-                <img 
-                  src={originalPreview} 
-                  alt="Original image"
-                  className="w-full h-48 object-contain rounded-lg bg-muted"
-                />
-              )}
-            </div>
-            <div className="space-y-3">
-              <div>
-                <span className="text-sm text-muted-foreground">Filename:</span>
-                <p className="font-medium truncate">{selectedFile.name}</p>
-              </div>
-              <div>
-                <span className="text-sm text-muted-foreground">Size:</span>
-                <p className="font-medium">{formatFileSize(selectedFile.size)}</p>
-              </div>
-              <div>
-                <span className="text-sm text-muted-foreground">Type:</span>
-                <p className="font-medium">{selectedFile.type}</p>
-              </div>
-            </div>
-          </div>
+          <TransformControls
+            key={selectedFile ? `${selectedFile.name}-${selectedFile.lastModified}` : 'batch'}
+            imageUrl={isBatch ? null : originalPreview}
+            value={transform}
+            onChange={setTransform}
+            disabled={converting}
+          />
         </CardContent>
       </Card>
 
@@ -246,12 +444,12 @@ export function ImageConverter() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-end">
             <div className="space-y-2">
               <label className="text-sm font-medium">Target Format</label>
-              <Select value={targetFormat} onValueChange={setTargetFormat} disabled={converting}>
+              <Select value={targetFormat} onValueChange={handleFormatChange} disabled={converting}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select format" />
                 </SelectTrigger>
                 <SelectContent>
-                  {SUPPORTED_FORMATS.map((format) => (
+                  {OUTPUT_FORMATS.map((format) => (
                     <SelectItem key={format.extension} value={format.extension}>
                       <div className="flex items-center gap-2">
                         <FileImage className="w-4 h-4" />
@@ -264,18 +462,17 @@ export function ImageConverter() {
                   ))}
                 </SelectContent>
               </Select>
-              {getFormatInfo(targetFormat) && (
-                <p className="text-xs text-muted-foreground">
-                  {getFormatInfo(targetFormat)?.quality && 
-                    `Quality: ${getFormatInfo(targetFormat)?.quality}%`
-                  }
-                </p>
-              )}
+              <TargetSizeControl
+                format={targetFormat}
+                value={targetSize}
+                onChange={setTargetSize}
+                disabled={converting}
+              />
             </div>
             
             <Button 
-              onClick={convertImage} 
-              disabled={converting || !targetFormat}
+              onClick={isBatch ? convertBatch : convertImage} 
+              disabled={converting || !targetFormat || optionsError !== null}
               className="bg-gradient-to-r from-orange-500 to-yellow-500 hover:from-orange-600 hover:to-yellow-600"
             >
               {converting ? (
@@ -286,16 +483,99 @@ export function ImageConverter() {
               ) : (
                 <>
                   <Zap className="w-4 h-4 mr-2" />
-                  Convert Image
+                  {isBatch ? `Convert ${batchItems.length} Images` : 'Convert Image'}
                 </>
               )}
             </Button>
           </div>
+
+          <div className="mt-6 pt-6 border-t border-border/50 space-y-4">
+            <ConversionOptionsPanel
+              format={targetFormat}
+              options={conversionOptions}
+              onChange={setConversionOptions}
+              disabled={converting}
+            />
+            <div className="space-y-2">
+              <Label>Metadata</Label>
+              <Select
+                value={metadataPolicy}
+                onValueChange={(value) => setMetadataPolicy(value as MetadataPolicy)}
+                disabled={converting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METADATA_POLICIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {METADATA_POLICIES.find(option => option.value === metadataPolicy)?.description}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Color Profile</Label>
+              <Select
+                value={colorProfile}
+                onValueChange={(value) => setColorProfile(value as ColorProfileMode)}
+                disabled={converting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COLOR_PROFILE_MODES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {COLOR_PROFILE_MODES.find(option => option.value === colorProfile)?.description}
+              </p>
+            </div>
+            {optionsError && (
+              <p className="text-sm text-red-400">{optionsError}</p>
+            )}
+            {!isBatch && (
+              <div className="flex flex-col sm:flex-row sm:items-end gap-3 pt-4 border-t border-border/50">
+                <div className="space-y-2 flex-1">
+                  <Label>Acceptable Quality</Label>
+                  <Select
+                    value={String(minSsim)}
+                    onValueChange={(value) => setMinSsim(Number(value))}
+                    disabled={converting}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SSIM_RATINGS.filter(rating => rating.min > 0).map((rating) => (
+                        <SelectItem key={rating.min} value={String(rating.min)}>
+                          {rating.label} (SSIM ≥ {rating.min})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="outline" onClick={findBestFormat} disabled={converting}>
+                  <Trophy className="w-4 h-4 mr-2" />
+                  Find Best Format
+                </Button>
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
       {/* Conversion Progress */}
-      {converting && (
+      {converting && !isBatch && (
         <Card className="bg-card/50 backdrop-blur border-orange-500/20">
           <CardContent className="p-6">
             <div className="space-y-4">
@@ -323,8 +603,36 @@ export function ImageConverter() {
         </Alert>
       )}
 
+      {/* Format Recommendation */}
+      {recommendation && !isBatch && (
+        <FormatRecommendationPanel
+          recommendation={recommendation}
+          onUseFormat={applyRecommendedFormat}
+          disabled={converting}
+        />
+      )}
+
+      {/* Batch Queue */}
+      {isBatch && (
+        <>
+          {batchNotice && (
+            <Alert className="bg-yellow-500/10 border-yellow-500/20">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{batchNotice}</AlertDescription>
+            </Alert>
+          )}
+          <BatchConversionQueue items={batchItems} zipping={zipping} onDownloadZip={downloadBatchZip} />
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={resetConverter} disabled={converting}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Start Over
+            </Button>
+          </div>
+        </>
+      )}
+
       {/* Conversion Result */}
-      {convertedBlob && !converting && (
+      {convertedBlob && selectedFile && !converting && (
         <Card className="bg-card/50 backdrop-blur border-green-500/20">
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-green-400">
@@ -333,35 +641,17 @@ export function ImageConverter() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
-            {/* Comparison Grid */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <div>
-                <h4 className="font-medium mb-2">Before</h4>
-                {originalPreview && (
-                  <img 
-                    src={originalPreview} 
-                    alt="Original"
-                    className="w-full h-48 object-contain rounded-lg bg-muted"
-                  />
-                )}
-                <div className="mt-2 text-sm text-muted-foreground">
-                  Size: {formatFileSize(selectedFile.size)}
-                </div>
-              </div>
-              
-              <div>
-                <h4 className="font-medium mb-2">After</h4>
-                {convertedPreview && (
-                  <img 
-                    src={convertedPreview} 
-                    alt="Converted"
-                    className="w-full h-48 object-contain rounded-lg bg-muted"
-                  />
-                )}
-                <div className="mt-2 text-sm text-muted-foreground">
-                  Size: {formatFileSize(convertedBlob.size)}
-                </div>
-              </div>
+            {/* Comparison */}
+            {originalPreview && convertedPreview && (
+              <ImageComparison
+                originalUrl={referencePreview ?? originalPreview}
+                convertedUrl={convertedPreview}
+                quality={qualityMetrics ?? undefined}
+              />
+            )}
+            <div className="grid grid-cols-2 gap-6 text-sm text-muted-foreground">
+              <div>Before: {formatFileSize(selectedFile.size)}</div>
+              <div className="text-right">After: {formatFileSize(convertedBlob.size)}</div>
             </div>
 
             {/* Compression Stats */}
@@ -390,6 +680,88 @@ export function ImageConverter() {
               </div>
             )}
 
+            {/* Target Size */}
+            {targetSizeResult && (
+              <Alert className={targetSizeResult.fits ? "bg-blue-500/10 border-blue-500/20" : "bg-yellow-500/10 border-yellow-500/20"}>
+                <Target className="h-4 w-4" />
+                <AlertDescription>
+                  {targetSizeResult.fits
+                    ? `Fits the ${formatFileSize(targetSizeResult.target)} budget: `
+                    : `Could not get under ${formatFileSize(targetSizeResult.target)}; this is the smallest result: `}
+                  quality {targetSizeResult.quality} at {targetSizeResult.width}×{targetSizeResult.height}
+                  {targetSizeResult.resized && ' (downscaled)'}, {formatFileSize(convertedBlob.size)} after {targetSizeResult.attempts} attempts.
+                  {!targetSizeResult.fits && !targetSizeResult.resized && ' Allow downscaling to shrink it further.'}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Transform */}
+            {transformResult && (
+              <Alert className="bg-blue-500/10 border-blue-500/20">
+                <Crop className="h-4 w-4" />
+                <AlertDescription>
+                  {transformResult.orientation !== 1
+                    ? `Turned upright from EXIF orientation ${transformResult.orientation}. `
+                    : 'No EXIF rotation was needed. '}
+                  Transformed size {transformResult.width}×{transformResult.height} before resizing.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Animation */}
+            {animationInfo && (
+              <Alert className={animationInfo.preserved ? "bg-blue-500/10 border-blue-500/20" : "bg-yellow-500/10 border-yellow-500/20"}>
+                <Film className="h-4 w-4" />
+                <AlertDescription>
+                  {animationInfo.preserved
+                    ? `Animation preserved: ${animationInfo.frames} frames, ${animationInfo.loop === 0 ? 'looping forever' : `${animationInfo.loop} loop${animationInfo.loop === 1 ? '' : 's'}`}.`
+                    : `Only the first of ${animationInfo.frames} frames was converted. ${getFormatInfo(targetFormat)?.name || targetFormat.toUpperCase()} output is a still image; choose GIF or WebP to keep the animation.`}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Metadata Report */}
+            {metadataReport && (
+              <div className="space-y-2">
+                <h4 className="font-medium flex items-center gap-2">
+                  <Tags className="w-4 h-4" />
+                  Metadata Kept ({metadataReport.retained.length} tags)
+                </h4>
+                {metadataReport.retained.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No EXIF, XMP, IPTC or ICC metadata was carried over to the converted image.
+                  </p>
+                ) : (
+                  <div className="max-h-64 overflow-y-auto space-y-1">
+                    {metadataReport.retained.map((tag, index) => (
+                      <div
+                        key={`${tag.group}-${tag.tag}-${index}`}
+                        className={cn(
+                          "flex items-center justify-between gap-4 px-3 py-2 rounded border text-sm",
+                          PRIVACY_CATEGORIES[tag.category].bgClass
+                        )}
+                      >
+                        <div className="min-w-0">
+                          <span className="font-semibold">{tag.tag}</span>
+                          <span className="ml-2 text-xs opacity-70">{tag.group}</span>
+                          <p className="font-mono text-xs truncate opacity-80">{tag.value}</p>
+                        </div>
+                        <Badge variant="secondary" className="bg-white/20 text-xs shrink-0">
+                          {PRIVACY_CATEGORIES[tag.category].label}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-sm text-muted-foreground">
+                  Color profile: {metadataReport.colorProfile ?? "none embedded (viewers assume sRGB)"}
+                </p>
+                {metadataReport.warnings.map((warning) => (
+                  <p key={warning} className="text-xs text-yellow-400">{warning}</p>
+                ))}
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
               <Button 
@@ -422,6 +794,15 @@ export function ImageConverter() {
           </CardContent>
         </Card>
       )}
+
+      {/* Responsive Image Set */}
+      {selectedFile && !isBatch && (
+        <ResponsiveSetGenerator
+          key={`${selectedFile.name}-${selectedFile.lastModified}`}
+          file={selectedFile}
+          disabled={converting}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -20,7 +20,8 @@ import {
   Zap, Smartphone
 } from "lucide-react";
 import { PuzzlePiece, PuzzleState } from "@/types/exif";
-import { getImagePreviewUrl, shuffleArray } from "@/lib/utils";
+import { shuffleArray } from "@/lib/utils";
+import { getDisplayablePreviewUrl, toDisplayableImage } from "@/lib/image-preview";
 import { cn } from "@/lib/utils";
 
 interface ImagePuzzleProps {
@@ -59,8 +60,9 @@ export function ImagePuzzle({ uploadedImage }: ImagePuzzleProps) {
   useEffect(() => {
     if (uploadedImage && uploadedImage !== selectedFile) {
       setSelectedFile(uploadedImage);
-      const previewUrl = getImagePreviewUrl(uploadedImage);
-      setImagePreview(previewUrl);
+      getDisplayablePreviewUrl(uploadedImage)
+        .then(setImagePreview)
+        .catch(() => setImagePreview(null));
     }
   }, [uploadedImage, selectedFile]);
 
@@ -91,8 +93,9 @@ export function ImagePuzzle({ uploadedImage }: ImagePuzzleProps) {
 
   const handleFileUpload = useCallback((file: File) => {
     setSelectedFile(file);
-    const previewUrl = getImagePreviewUrl(file);
-    setImagePreview(previewUrl);
+    getDisplayablePreviewUrl(file)
+      .then(setImagePreview)
+      .catch(() => setImagePreview(null));
     resetGame();
   }, []);
 
@@ -105,11 +108,13 @@ export function ImagePuzzle({ uploadedImage }: ImagePuzzleProps) {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
       const img = new Image();
+      // HEIC is converted server-side first; canvases can't draw it in most browsers
+      const displayable = await toDisplayableImage(selectedFile);
       
       await new Promise((resolve, reject) => {
         img.onload = resolve;
         img.onerror = reject;
-        img.src = URL.createObjectURL(selectedFile);
+        img.src = URL.createObjectURL(displayable);
       });
 
       const pieceSize = 300; // Larger piece size for better quality
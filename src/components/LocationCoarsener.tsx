@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { AlertCircle, CheckCircle, Download, Grid3x3 } from "lucide-react";
+import { CoarsenedLocation, CoarsenLocationResult, LocationPrecision } from "@/types/exif";
+import {
+  coarsenCoordinates, LOCATION_PRECISION_PRESETS, MAX_CELL_KM, MAX_DECIMALS, MIN_CELL_KM, parseLocationPrecision
+} from "@/lib/location-precision";
+import { base64ToBlob, downloadBlob, formatFileSize } from "@/lib/utils";
+
+interface LocationCoarsenerProps {
+  file: File;
+  gpsData: { latitude: number; longitude: number };
+  // The area the coarsened position would cover, for the map to draw
+  onPreviewChange: (preview: CoarsenedLocation | null) => void;
+}
+
+function formatRadius(metres: number): string {
+  return metres < 1000 ? `${metres} m` : `${(metres / 1000).toFixed(metres < 10000 ? 1 : 0)} km`;
+}
+
+export function LocationCoarsener({ file, gpsData, onPreviewChange }: LocationCoarsenerProps) {
+  const [choice, setChoice] = useState('city');
+  const [customKind, setCustomKind] = useState<LocationPrecision['kind']>('grid');
+  const [customValue, setCustomValue] = useState('5');
+  const [coarsening, setCoarsening] = useState(false);
+  const [result, setResult] = useState<CoarsenLocationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => {
+    const preset = LOCATION_PRECISION_PRESETS.find(option => option.value === choice);
+    if (preset) return parseLocationPrecision(preset.precision);
+
+    const value = Number(customValue);
+    return parseLocationPrecision(customKind === 'decimals'
+      ? { kind: 'decimals', decimals: value }
+      : { kind: 'grid', cellKm: value });
+  }, [choice, customKind, customValue]);
+
+  const preview = useMemo(
+    () => ('precision' in parsed ? coarsenCoordinates(gpsData.latitude, gpsData.longitude, parsed.precision) : null),
+    [parsed, gpsData.latitude, gpsData.longitude]
+  );
+
+  useEffect(() => {
+    onPreviewChange(preview);
+  }, [preview, onPreviewChange]);
+
+  useEffect(() => () => onPreviewChange(null), [onPreviewChange]);
+
+  const coarsen = async () => {
+    if (!('precision' in parsed)) return;
+
+    setCoarsening(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+      formData.append('precision', JSON.stringify(parsed.precision));
+
+      const response = await fetch('/api/coarsen-location', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to coarsen the location');
+      }
+
+      setResult(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to coarsen the location');
+    } finally {
+      setCoarsening(false);
+    }
+  };
+
+  const downloadCoarsened = () => {
+    if (!result) return;
+    downloadBlob(base64ToBlob(result.data, result.mimeType), result.filename);
+  };
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-border/50">
+      <div>
+        <h4 className="font-medium flex items-center gap-2">
+          <Grid3x3 className="w-4 h-4" />
+          Coarsen Location
+        </h4>
+        <p className="text-xs text-muted-foreground mt-1">
+          Keep an approximate position instead of removing it. Altitude, heading, speed, timestamps and
+          other precise GPS fields are removed.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label>Precision</Label>
+          <Select value={choice} onValueChange={setChoice} disabled={coarsening}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOCATION_PRECISION_PRESETS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+              <SelectItem value="custom">Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {choice === 'custom' && (
+          <>
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select
+                value={customKind}
+                onValueChange={(value) => setCustomKind(value as LocationPrecision['kind'])}
+                disabled={coarsening}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="grid">Grid cell (km)</SelectItem>
+                  <SelectItem value="decimals">Decimal places</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coarsen-value">
+                {customKind === 'grid' ? `Cell size (${MIN_CELL_KM}–${MAX_CELL_KM} km)` : `Decimal places (0–${MAX_DECIMALS})`}
+              </Label>
+              <Input
+                id="coarsen-value"
+                type="number"
+                min={customKind === 'grid' ? MIN_CELL_KM : 0}
+                max={customKind === 'grid' ? MAX_CELL_KM : MAX_DECIMALS}
+                step={customKind === 'grid' ? 'any' : 1}
+                value={customValue}
+                onChange={(e) => setCustomValue(e.target.value)}
+                disabled={coarsening}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {'error' in parsed ? (
+        <p className="text-sm text-red-400">{parsed.error}</p>
+      ) : preview && (
+        <p className="text-sm text-muted-foreground">
+          New position {preview.latitude.toFixed(5)}°, {preview.longitude.toFixed(5)}°, within{' '}
+          {formatRadius(preview.radiusM)} of the original. The orange circle on the map shows the area it could be anywhere in.
+        </p>
+      )}
+
+      <Button
+        onClick={coarsen}
+        disabled={coarsening || 'error' in parsed}
+        className="w-full bg-gradient-to-r from-orange-500 to-amber-500 hover:from-orange-600 hover:to-amber-600"
+      >
+        {coarsening ? (
+          <>
+            <LoadingSpinner size="sm" />
+            <span className="ml-2">Coarsening...</span>
+          </>
+        ) : (
+          <>
+            <Grid3x3 className="w-4 h-4 mr-2" />
+            Coarsen Location
+          </>
+        )}
+      </Button>
+
+      {error && (
+        <Alert className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <Alert className="bg-green-500/10 border-green-500/20">
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              Position moved to {result.coarsened.latitude.toFixed(5)}°, {result.coarsened.longitude.toFixed(5)}°
+              {result.removed.length > 0 && ` and ${result.removed.length} precise GPS field${result.removed.length === 1 ? '' : 's'} removed (${result.removed.map(tag => tag.tag).join(', ')})`}.
+              File size: {formatFileSize(result.size)}.
+            </AlertDescription>
+          </Alert>
+          {result.warnings.map((warning) => (
+            <p key={warning} className="text-xs text-yellow-400">{warning}</p>
+          ))}
+          <Button
+            onClick={downloadCoarsened}
+            className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download Image with Coarse Location
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,47 +6,56 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { MapPin, Globe, Copy, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { formatCoordinate } from "@/lib/utils";
+import { describePlace, formatCoordinate, formatPlaceName } from "@/lib/utils";
 import { useState } from "react";
+import { CoarsenedLocation, GeocodedPlace, GpsData } from "@/types/exif";
+import { LocationCoarsener } from "@/components/LocationCoarsener";
+import { describeGpsDetails, projectPosition } from "@/lib/gps-data";
+import { createBaseMap } from "@/lib/leaflet-basemap";
+import type Leaflet from "leaflet";
+import type { Map as LeafletMap } from "leaflet";
+import "leaflet/dist/leaflet.css";
+
+// Length and angle of the camera-heading cone; EXIF does not record the field of view
+const HEADING_CONE_M = 150;
+const HEADING_CONE_SPREAD = 60;
 
 interface LocationViewerProps {
-  gpsData: {
-    latitude: number;
-    longitude: number;
-    altitude?: number;
-  };
+  gpsData: GpsData;
+  place?: GeocodedPlace;
+  // The uploaded image, for offering to coarsen its location
+  file?: File | null;
 }
 
-export function LocationViewer({ gpsData }: LocationViewerProps) {
+export function LocationViewer({ gpsData, place, file }: LocationViewerProps) {
   const mapRef = useRef<HTMLDivElement>(null);
+  // Leaflet and the map instance, kept for drawing the coarsening preview
+  const leafletRef = useRef<{ L: typeof Leaflet; map: LeafletMap } | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
   const [copySuccess, setCopySuccess] = useState(false);
+  // Showing the bundled country outlines instead of map tiles
+  const [offlineMap, setOfflineMap] = useState(false);
+  const [coarsePreview, setCoarsePreview] = useState<CoarsenedLocation | null>(null);
 
   useEffect(() => {
-    let map: any;
-    
+    let map: LeafletMap | undefined;
+    let cancelled = false;
+
     const loadMap = async () => {
       try {
-        // Dynamically import Leaflet to avoid SSR issues
-        const L = (await import('leaflet')).default;
-        
-        // Fix for default markers in Leaflet
-        delete (L.Icon.Default.prototype as any)._getIconUrl;
-        L.Icon.Default.mergeOptions({
-          iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-icon-2x.png',
-          iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-icon.png',
-          shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-shadow.png',
-        });
-
         if (mapRef.current && !map) {
-          // Initialize map
-          map = L.map(mapRef.current).setView([gpsData.latitude, gpsData.longitude], 15);
-
-          // Add OpenStreetMap tiles
-          L.tileLayer('https://tile.openstreetmap.org/{z}/{x}/{y}.png', {
-            maxZoom: 19,
-            attribution: '&copy; <a href="http://www.openstreetmap.org/copyright">OpenStreetMap</a>',
-          }).addTo(map);
+          const created = await createBaseMap(mapRef.current, {
+            center: [gpsData.latitude, gpsData.longitude],
+            tileZoom: 15,
+            offlineZoom: 6,
+            onOfflineBasemap: () => setOfflineMap(true),
+          });
+          if (cancelled) {
+            created.map.remove();
+            return;
+          }
+          const { L } = created;
+          map = created.map;
 
           // Create custom icon for the location marker
           const customIcon = L.divIcon({
@@ -75,20 +84,68 @@ export function LocationViewer({ gpsData }: LocationViewerProps) {
                 <div><strong>Latitude:</strong> ${gpsData.latitude.toFixed(6)}°</div>
                 <div><strong>Longitude:</strong> ${gpsData.longitude.toFixed(6)}°</div>
                 ${gpsData.altitude ? `<div><strong>Altitude:</strong> ${gpsData.altitude.toFixed(1)}m</div>` : ''}
+                ${gpsData.accuracyM !== undefined ? `<div><strong>Accuracy:</strong> ±${gpsData.accuracyM.toFixed(0)}m</div>` : ''}
               </div>
             </div>
           `;
 
           marker.bindPopup(popupContent).openPopup();
 
-          // Add circle to show approximate area
-          L.circle([gpsData.latitude, gpsData.longitude], {
-            color: '#ef4444',
-            fillColor: '#ef4444',
-            fillOpacity: 0.1,
-            radius: 100,
-          }).addTo(map);
+          // Accuracy circle, from the positioning error or the dilution of precision
+          if (gpsData.accuracyM !== undefined) {
+            L.circle([gpsData.latitude, gpsData.longitude], {
+              color: '#ef4444',
+              fillColor: '#ef4444',
+              fillOpacity: 0.1,
+              radius: gpsData.accuracyM,
+            }).addTo(map);
+          }
+
+          // Cone showing which way the camera was facing
+          if (gpsData.imgDirection) {
+            const { degrees } = gpsData.imgDirection;
+            const arc = [];
+            for (let offset = -HEADING_CONE_SPREAD / 2; offset <= HEADING_CONE_SPREAD / 2; offset += 5) {
+              arc.push(projectPosition(gpsData.latitude, gpsData.longitude, degrees + offset, HEADING_CONE_M));
+            }
+            L.polygon([[gpsData.latitude, gpsData.longitude], ...arc], {
+              color: '#facc15',
+              fillColor: '#facc15',
+              fillOpacity: 0.25,
+              weight: 1,
+              interactive: false,
+            }).addTo(map);
+          }
 
+          // Where the photographer was heading, joined to the position by a dashed line
+          if (gpsData.destination) {
+            const destination: [number, number] = [gpsData.destination.latitude, gpsData.destination.longitude];
+            L.polyline([[gpsData.latitude, gpsData.longitude], destination], {
+              color: '#3b82f6',
+              weight: 2,
+              dashArray: '6 6',
+              interactive: false,
+            }).addTo(map);
+            L.marker(destination, {
+              icon: L.divIcon({
+                html: '<div class="bg-blue-500 w-4 h-4 rounded-full border-2 border-white shadow-lg"></div>',
+                className: 'custom-marker',
+                iconSize: [16, 16],
+                iconAnchor: [8, 8],
+              }),
+            }).addTo(map).bindPopup(`
+              <div class="text-white p-2 text-sm">
+                <div class="font-semibold mb-1">GPS Destination</div>
+                <div>${destination[0].toFixed(6)}°, ${destination[1].toFixed(6)}°</div>
+              </div>
+            `);
+            map.fitBounds(L.latLngBounds([[gpsData.latitude, gpsData.longitude], destination]), {
+              padding: [32, 32],
+              maxZoom: 15,
+            });
+          }
+
+          leafletRef.current = { L, map };
           setMapLoaded(true);
         }
       } catch (error) {
@@ -99,12 +156,52 @@ export function LocationViewer({ gpsData }: LocationViewerProps) {
     loadMap();
 
     return () => {
+      cancelled = true;
       if (map) {
         map.remove();
+        map = undefined;
       }
+      leafletRef.current = null;
     };
   }, [gpsData]);
 
+  // Draw the area a coarsened position could be anywhere in, next to the exact one
+  useEffect(() => {
+    const leaflet = leafletRef.current;
+    if (!mapLoaded || !leaflet || !coarsePreview) return;
+
+    const { L, map } = leaflet;
+    const area = L.circle([coarsePreview.latitude, coarsePreview.longitude], {
+      color: '#f97316',
+      fillColor: '#f97316',
+      fillOpacity: 0.1,
+      dashArray: '6 6',
+      radius: coarsePreview.radiusM,
+    });
+    const layer = L.layerGroup([
+      area,
+      L.circleMarker([coarsePreview.latitude, coarsePreview.longitude], {
+        color: '#f97316',
+        fillColor: '#f97316',
+        fillOpacity: 1,
+        radius: 4,
+      }),
+    ]).addTo(map);
+    map.fitBounds(area.getBounds(), { padding: [16, 16], maxZoom: 15 });
+
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [coarsePreview, mapLoaded]);
+
+  const gpsDetails = describeGpsDetails(gpsData);
+  const legend: [string, string][] = [
+    ['Exact position', 'text-red-400'],
+    ...(gpsData.imgDirection ? [['Camera heading', 'text-yellow-400'] as [string, string]] : []),
+    ...(gpsData.destination ? [['Destination', 'text-blue-400'] as [string, string]] : []),
+    ...(coarsePreview ? [['Coarsened area', 'text-orange-400'] as [string, string]] : []),
+  ];
+
   const copyCoordinates = async () => {
     const coordString = `${gpsData.latitude}, ${gpsData.longitude}`;
     try {
@@ -140,7 +237,8 @@ export function LocationViewer({ gpsData }: LocationViewerProps) {
           <MapPin className="h-4 w-4" />
           <AlertDescription>
             <strong>Location Exposed:</strong> This image contains precise GPS coordinates 
-            that reveal where it was taken. Consider removing this data before sharing.
+            that reveal {place ? <>it was taken {describePlace(place)}</> : 'where it was taken'}.
+            Consider removing this data before sharing.
           </AlertDescription>
         </Alert>
 
@@ -151,6 +249,21 @@ export function LocationViewer({ gpsData }: LocationViewerProps) {
             className="h-64 w-full rounded-lg border border-border overflow-hidden"
             style={{ backgroundColor: '#1a1a1a' }}
           />
+          {legend.length > 1 && mapLoaded && (
+            <p className="absolute bottom-2 left-2 z-[1000] px-2 py-1 rounded bg-black/60 text-xs text-muted-foreground">
+              {legend.map(([label, color], index) => (
+                <span key={label}>
+                  {index > 0 && ' · '}
+                  <span className={color}>●</span> {label}
+                </span>
+              ))}
+            </p>
+          )}
+          {offlineMap && (
+            <p className="absolute top-2 right-2 z-[1000] px-2 py-1 rounded bg-black/60 text-xs text-muted-foreground">
+              Offline map · country outlines only
+            </p>
+          )}
           {!mapLoaded && (
             <div className="absolute inset-0 flex items-center justify-center bg-muted rounded-lg">
               <div className="text-center">
@@ -161,6 +274,21 @@ export function LocationViewer({ gpsData }: LocationViewerProps) {
           )}
         </div>
 
+        {place && (
+          <div className="flex items-start gap-3 p-3 rounded-lg bg-muted">
+            <Globe className="w-5 h-5 mt-0.5 text-red-400 shrink-0" />
+            <div>
+              <p className="font-medium">{formatPlaceName(place)}</p>
+              <p className="text-xs text-muted-foreground">
+                {place.distanceKm < 1
+                  ? 'Within a kilometre of the city centre'
+                  : `${place.distanceKm.toFixed(1)} km from the city centre`}
+                {' '}· Looked up offline from the GeoNames gazetteer
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Coordinates Information */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-3">
@@ -184,17 +312,6 @@ export function LocationViewer({ gpsData }: LocationViewerProps) {
               </p>
             </div>
 
-            {gpsData.altitude && (
-              <div>
-                <label className="text-sm font-medium text-muted-foreground">Altitude</label>
-                <p className="font-mono text-sm bg-muted p-2 rounded">
-                  {gpsData.altitude.toFixed(1)} meters
-                </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  Above sea level
-                </p>
-              </div>
-            )}
           </div>
 
           <div className="flex flex-col gap-3">
@@ -218,6 +335,24 @@ export function LocationViewer({ gpsData }: LocationViewerProps) {
           </div>
         </div>
 
+        {gpsDetails.length > 0 && (
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">GPS Details</label>
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-1 text-sm">
+              {gpsDetails.map((detail) => (
+                <div key={detail.key} className="flex justify-between gap-4 bg-muted p-2 rounded">
+                  <dt className="text-muted-foreground">{detail.label}</dt>
+                  <dd className="font-mono text-right">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        {file && (
+          <LocationCoarsener file={file} gpsData={gpsData} onPreviewChange={setCoarsePreview} />
+        )}
+
         {/* Privacy Warning */}
         <Alert className="bg-orange-500/10 border-orange-500/20">
           <AlertDescription className="text-sm">
@@ -0,0 +1,195 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { PencilLine, Trash2, Undo2, Download, AlertCircle } from "lucide-react";
+import { ExifTag, MetadataEdit } from "@/types/exif";
+import { EDITABLE_TAGS, toEditableValue, validateMetadataEdit } from "@/lib/metadata-edit";
+import { cn, downloadBlob } from "@/lib/utils";
+
+interface MetadataEditorProps {
+  file: File;
+  tags: ExifTag[];
+}
+
+export function MetadataEditor({ file, tags }: MetadataEditorProps) {
+  const initialValues = useMemo(() => {
+    const values: Record<string, string> = {};
+    for (const tagName of Object.keys(EDITABLE_TAGS)) {
+      const existing = tags.find(tag => tag.tag === tagName);
+      values[tagName] = existing ? toEditableValue(tagName, existing.value) : '';
+    }
+    return values;
+  }, [tags]);
+
+  const [values, setValues] = useState<Record<string, string>>(initialValues);
+  const [deleted, setDeleted] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+
+  const edits: MetadataEdit[] = useMemo(() => {
+    return Object.keys(EDITABLE_TAGS).flatMap((tagName): MetadataEdit[] => {
+      if (deleted.has(tagName)) {
+        return initialValues[tagName] !== '' ? [{ tag: tagName, value: null }] : [];
+      }
+      return values[tagName] !== initialValues[tagName] ? [{ tag: tagName, value: values[tagName] }] : [];
+    });
+  }, [values, deleted, initialValues]);
+
+  const fieldErrors = useMemo(() => {
+    const errors: Record<string, string> = { ...serverErrors };
+    for (const edit of edits) {
+      const validationError = validateMetadataEdit(edit);
+      if (validationError) errors[edit.tag] = validationError;
+    }
+    return errors;
+  }, [edits, serverErrors]);
+
+  const hasErrors = Object.keys(fieldErrors).length > 0;
+
+  const updateValue = (tagName: string, value: string) => {
+    setValues(prev => ({ ...prev, [tagName]: value }));
+    setServerErrors(prev => {
+      const next = { ...prev };
+      delete next[tagName];
+      return next;
+    });
+  };
+
+  const toggleDeleted = (tagName: string) => {
+    setDeleted(prev => {
+      const next = new Set(prev);
+      if (next.has(tagName)) {
+        next.delete(tagName);
+      } else {
+        next.add(tagName);
+      }
+      return next;
+    });
+  };
+
+  const saveEdits = async () => {
+    setSaving(true);
+    setError(null);
+    setServerErrors({});
+
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+      formData.append('edits', JSON.stringify(edits));
+
+      const response = await fetch('/api/edit-metadata', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        if (errorData.fieldErrors) {
+          setServerErrors(errorData.fieldErrors);
+        }
+        throw new Error(errorData.error || 'Failed to write metadata');
+      }
+
+      const blob = await response.blob();
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      const extension = file.name.includes('.') ? file.name.split('.').pop() : '';
+      downloadBlob(blob, `${baseName}-edited${extension ? `.${extension}` : ''}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to write metadata');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 backdrop-blur border-purple-500/20">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <PencilLine className="w-5 h-5" />
+            Edit Metadata
+          </CardTitle>
+          <Badge variant="secondary">
+            {edits.length} {edits.length === 1 ? 'change' : 'changes'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {Object.entries(EDITABLE_TAGS).map(([tagName, spec]) => {
+            const isDeleted = deleted.has(tagName);
+            const fieldError = fieldErrors[tagName];
+
+            return (
+              <div key={tagName} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <label htmlFor={`edit-${tagName}`} className="text-sm font-medium">
+                    {spec.label}
+                  </label>
+                  {initialValues[tagName] !== '' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => toggleDeleted(tagName)}
+                      disabled={saving}
+                    >
+                      {isDeleted ? <Undo2 className="w-3 h-3 mr-1" /> : <Trash2 className="w-3 h-3 mr-1" />}
+                      {isDeleted ? 'Keep' : 'Delete'}
+                    </Button>
+                  )}
+                </div>
+                <Input
+                  id={`edit-${tagName}`}
+                  value={values[tagName]}
+                  placeholder={spec.placeholder}
+                  onChange={(e) => updateValue(tagName, e.target.value)}
+                  disabled={saving || isDeleted}
+                  className={cn(
+                    isDeleted && "line-through opacity-50",
+                    fieldError && "border-red-500"
+                  )}
+                  autoComplete="off"
+                  spellCheck="false"
+                />
+                {fieldError && <p className="text-xs text-red-400">{fieldError}</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        {error && (
+          <Alert className="bg-red-500/10 border-red-500/20">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          onClick={saveEdits}
+          disabled={saving || edits.length === 0 || hasErrors}
+          className="w-full bg-gradient-to-r from-purple-500 to-cyan-500 hover:from-purple-600 hover:to-cyan-600"
+        >
+          {saving ? (
+            <>
+              <LoadingSpinner size="sm" />
+              <span className="ml-2">Writing metadata...</span>
+            </>
+          ) : (
+            <>
+              <Download className="w-4 h-4 mr-2" />
+              Save &amp; Download Edited Image
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { Eraser, Download, AlertCircle, CheckCircle } from "lucide-react";
+import { StripMetadataResult, StripPolicy, STRIP_POLICIES, PRIVACY_CATEGORIES } from "@/types/exif";
+import { base64ToBlob, downloadBlob, formatFileSize } from "@/lib/utils";
+import { cn } from "@/lib/utils";
+
+interface MetadataStripperProps {
+  file: File;
+}
+
+export function MetadataStripper({ file }: MetadataStripperProps) {
+  const [policy, setPolicy] = useState<StripPolicy>('high');
+  const [stripping, setStripping] = useState(false);
+  const [result, setResult] = useState<StripMetadataResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stripMetadata = async () => {
+    setStripping(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+      formData.append('policy', policy);
+
+      const response = await fetch('/api/strip-metadata', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove metadata');
+      }
+
+      setResult(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove metadata');
+    } finally {
+      setStripping(false);
+    }
+  };
+
+  const downloadCleaned = () => {
+    if (!result) return;
+    downloadBlob(base64ToBlob(result.data, result.mimeType), result.filename);
+  };
+
+  return (
+    <Card className="bg-card/50 backdrop-blur">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eraser className="w-5 h-5" />
+          Remove Metadata
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">What to remove</label>
+            <Select
+              value={policy}
+              onValueChange={(value) => setPolicy(value as StripPolicy)}
+              disabled={stripping}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select policy" />
+              </SelectTrigger>
+              <SelectContent>
+                {STRIP_POLICIES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {STRIP_POLICIES.find(option => option.value === policy)?.description}
+            </p>
+          </div>
+
+          <Button
+            onClick={stripMetadata}
+            disabled={stripping}
+            className="bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600"
+          >
+            {stripping ? (
+              <>
+                <LoadingSpinner size="sm" />
+                <span className="ml-2">Removing...</span>
+              </>
+            ) : (
+              <>
+                <Eraser className="w-4 h-4 mr-2" />
+                Remove Metadata
+              </>
+            )}
+          </Button>
+        </div>
+
+        {error && (
+          <Alert className="bg-red-500/10 border-red-500/20">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <Alert className="bg-green-500/10 border-green-500/20">
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>
+                Removed {result.manifest.removed.length} tags, {result.manifest.retainedCount} remain.
+                Cleaned file size: {formatFileSize(result.size)}.
+              </AlertDescription>
+            </Alert>
+
+            {result.manifest.removed.length > 0 && (
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {result.manifest.removed.map((tag, index) => (
+                  <div
+                    key={`${tag.group}-${tag.tag}-${index}`}
+                    className={cn(
+                      "flex items-center justify-between gap-4 px-3 py-2 rounded border text-sm",
+                      PRIVACY_CATEGORIES[tag.category].bgClass
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <span className="font-semibold">{tag.tag}</span>
+                      <span className="ml-2 text-xs opacity-70">{tag.group}</span>
+                      <p className="font-mono text-xs truncate opacity-80">{tag.value}</p>
+                    </div>
+                    <Badge variant="secondary" className="bg-white/20 text-xs shrink-0">
+                      {PRIVACY_CATEGORIES[tag.category].label}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button
+              onClick={downloadCleaned}
+              className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download Cleaned Image
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
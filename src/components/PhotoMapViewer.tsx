@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download, MapPin, Route } from "lucide-react";
+import { BatchExifEntry } from "@/types/exif";
+import { createBaseMap } from "@/lib/leaflet-basemap";
+import {
+  buildTrackExport, clusterPoints, collectPhotoPoints, PhotoPoint, TRACK_EXPORT_FORMATS, TrackExportFormat, trackPoints
+} from "@/lib/photo-track";
+import { downloadBlob, formatCaptureTime, formatDate } from "@/lib/utils";
+import type { Map as LeafletMap } from "leaflet";
+
+// Markers closer together than this on screen are drawn as one cluster
+const CLUSTER_CELL_PX = 48;
+
+interface PhotoMapViewerProps {
+  entries: BatchExifEntry[];
+  onSelect: (index: number) => void;
+}
+
+// Filenames come from the user's disk, so tooltips are built as DOM nodes rather than HTML
+function describePoint(point: PhotoPoint, order?: number): HTMLElement {
+  const element = document.createElement('div');
+  const name = document.createElement('div');
+  name.className = 'font-semibold';
+  name.textContent = order ? `${order}. ${point.filename}` : point.filename;
+  const time = document.createElement('div');
+  time.className = 'text-xs';
+  time.textContent = point.captureTime
+    ? formatCaptureTime(point.captureTime)
+    : point.time ? formatDate(point.time) : 'No capture time';
+  element.append(name, time);
+  return element;
+}
+
+export function PhotoMapViewer({ entries, onSelect }: PhotoMapViewerProps) {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const onSelectRef = useRef(onSelect);
+  const [mapLoaded, setMapLoaded] = useState(false);
+  const [offlineMap, setOfflineMap] = useState(false);
+
+  const points = useMemo(() => collectPhotoPoints(entries), [entries]);
+  const track = useMemo(() => trackPoints(points), [points]);
+
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  }, [onSelect]);
+
+  useEffect(() => {
+    if (points.length === 0) return;
+
+    let map: LeafletMap | undefined;
+    let cancelled = false;
+
+    const loadMap = async () => {
+      try {
+        if (!mapRef.current) return;
+        const created = await createBaseMap(mapRef.current, {
+          center: [points[0].latitude, points[0].longitude],
+          tileZoom: 13,
+          offlineZoom: 4,
+          onOfflineBasemap: () => setOfflineMap(true),
+        });
+        if (cancelled) {
+          created.map.remove();
+          return;
+        }
+        const { L } = created;
+        const currentMap = created.map;
+        map = currentMap;
+
+        // Position in the time-ordered track, shown on each marker
+        const order = new Map(track.map((point, position) => [point, position + 1]));
+
+        if (track.length > 1) {
+          L.polyline(track.map(point => [point.latitude, point.longitude] as [number, number]), {
+            color: '#a855f7',
+            weight: 3,
+            opacity: 0.8,
+            interactive: false,
+          }).addTo(currentMap);
+        }
+
+        const markers = L.layerGroup().addTo(currentMap);
+
+        const showClusterList = (latitude: number, longitude: number, clustered: PhotoPoint[]) => {
+          const list = document.createElement('div');
+          list.className = 'space-y-1 max-h-48 overflow-y-auto';
+          for (const point of clustered) {
+            const item = document.createElement('button');
+            item.type = 'button';
+            item.className = 'block w-full text-left hover:underline';
+            item.append(describePoint(point, order.get(point)));
+            item.addEventListener('click', () => onSelectRef.current(point.index));
+            list.append(item);
+          }
+          L.popup().setLatLng([latitude, longitude]).setContent(list).openOn(currentMap);
+        };
+
+        // Clusters depend on the zoom level, so they are rebuilt after every zoom
+        const renderClusters = () => {
+          markers.clearLayers();
+          const zoom = currentMap.getZoom();
+          const clusters = clusterPoints(points, point => currentMap.project([point.latitude, point.longitude], zoom), CLUSTER_CELL_PX);
+
+          for (const cluster of clusters) {
+            if (cluster.points.length === 1) {
+              const [point] = cluster.points;
+              const label = order.get(point) ?? '?';
+              L.marker([point.latitude, point.longitude], {
+                icon: L.divIcon({
+                  html: `<div class="bg-red-500 w-6 h-6 rounded-full border-2 border-white shadow-lg flex items-center justify-center text-[10px] font-bold text-white">${label}</div>`,
+                  className: 'custom-marker',
+                  iconSize: [24, 24],
+                  iconAnchor: [12, 12],
+                }),
+              })
+                .bindTooltip(describePoint(point, order.get(point)))
+                .on('click', () => onSelectRef.current(point.index))
+                .addTo(markers);
+              continue;
+            }
+
+            const bounds = L.latLngBounds(cluster.points.map(point => [point.latitude, point.longitude] as [number, number]));
+            L.marker([cluster.latitude, cluster.longitude], {
+              icon: L.divIcon({
+                html: `<div class="bg-red-500/80 w-9 h-9 rounded-full border-2 border-white shadow-lg flex items-center justify-center text-xs font-bold text-white">${cluster.points.length}</div>`,
+                className: 'custom-marker',
+                iconSize: [36, 36],
+                iconAnchor: [18, 18],
+              }),
+            })
+              .bindTooltip(`${cluster.points.length} photos`)
+              .on('click', () => {
+                // Photos taken at the same spot never separate, so list them instead
+                const samePlace = bounds.getNorthEast().equals(bounds.getSouthWest());
+                if (samePlace || currentMap.getZoom() >= currentMap.getMaxZoom()) {
+                  showClusterList(cluster.latitude, cluster.longitude, cluster.points);
+                } else {
+                  currentMap.fitBounds(bounds, { padding: [32, 32] });
+                }
+              })
+              .addTo(markers);
+          }
+        };
+
+        currentMap.on('zoomend', renderClusters);
+
+        if (points.length > 1) {
+          currentMap.fitBounds(
+            L.latLngBounds(points.map(point => [point.latitude, point.longitude] as [number, number])),
+            { padding: [32, 32], maxZoom: 15 }
+          );
+        }
+        renderClusters();
+        setMapLoaded(true);
+      } catch (error) {
+        console.error('Error loading map:', error);
+      }
+    };
+
+    loadMap();
+
+    return () => {
+      cancelled = true;
+      if (map) {
+        map.remove();
+        map = undefined;
+      }
+    };
+  }, [points, track]);
+
+  const exportTrack = (format: TrackExportFormat) => {
+    const exported = buildTrackExport(format, points);
+    downloadBlob(new Blob([exported.content], { type: exported.mimeType }), exported.filename);
+  };
+
+  if (points.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <MapPin className="w-10 h-10 mx-auto mb-3 opacity-50" />
+        <p>None of these images contain GPS coordinates.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <div
+          ref={mapRef}
+          className="h-96 w-full rounded-lg border border-border overflow-hidden"
+          style={{ backgroundColor: '#1a1a1a' }}
+        />
+        {offlineMap && (
+          <p className="absolute top-2 right-2 z-[1000] px-2 py-1 rounded bg-black/60 text-xs text-muted-foreground">
+            Offline map · country outlines only
+          </p>
+        )}
+        {!mapLoaded && (
+          <div className="absolute inset-0 flex items-center justify-center bg-muted rounded-lg">
+            <div className="text-center">
+              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground">Loading map...</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p className="flex items-center gap-2">
+            <MapPin className="w-4 h-4 text-red-400" />
+            {points.length} of {entries.length} images are geotagged. Click a marker to open its EXIF.
+          </p>
+          <p className="flex items-center gap-2">
+            <Route className="w-4 h-4 text-purple-400" />
+            {track.length} joined into a track by capture time
+            {points.length > track.length && `; ${points.length - track.length} without a capture time are not`}.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {TRACK_EXPORT_FORMATS.map((format) => (
+            <Button key={format.value} variant="outline" size="sm" onClick={() => exportTrack(format.value)}>
+              <Download className="w-4 h-4 mr-2" />
+              {format.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
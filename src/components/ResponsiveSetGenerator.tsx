@@ -0,0 +1,231 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { MonitorSmartphone, Copy, CheckCircle, AlertCircle, FileArchive } from "lucide-react";
+import { ConversionProgress, ResponsiveImageSetResult } from "@/types/exif";
+import {
+  DEFAULT_SRCSET_FORMATS, DEFAULT_SRCSET_WIDTHS, MAX_SRCSET_WIDTHS, SRCSET_FORMATS, SRCSET_WIDTH_PRESETS
+} from "@/lib/conversion-options";
+import { requestResponsiveSet } from "@/lib/conversion-client";
+import { base64ToBlob, downloadBlob, formatFileSize } from "@/lib/utils";
+
+interface ResponsiveSetGeneratorProps {
+  file: File;
+  disabled?: boolean;
+}
+
+// JPG duplicates JPEG here; the file extension does not matter for a web set
+const FORMAT_CHOICES = SRCSET_FORMATS.filter(format => format.extension !== 'jpg');
+
+export function ResponsiveSetGenerator({ file, disabled }: ResponsiveSetGeneratorProps) {
+  const [widths, setWidths] = useState<number[]>(DEFAULT_SRCSET_WIDTHS);
+  const [formats, setFormats] = useState<string[]>(DEFAULT_SRCSET_FORMATS);
+  const [sizes, setSizes] = useState("100vw");
+  const [alt, setAlt] = useState("");
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState<ConversionProgress | null>(null);
+  const [result, setResult] = useState<ResponsiveImageSetResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copySuccess, setCopySuccess] = useState(false);
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(entry => entry !== value) : [...values, value];
+
+  const generate = async () => {
+    setGenerating(true);
+    setError(null);
+    setResult(null);
+    setProgress(null);
+
+    try {
+      setResult(await requestResponsiveSet(file, {
+        widths: [...widths].sort((a, b) => a - b),
+        // Keep the order of the format list so the request is stable
+        formats: FORMAT_CHOICES.map(format => format.extension).filter(format => formats.includes(format)),
+        sizes,
+        alt,
+      }, setProgress));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate the responsive set');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const copySnippet = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.html);
+      setCopySuccess(true);
+      setTimeout(() => setCopySuccess(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy snippet:', err);
+    }
+  };
+
+  const downloadZip = () => {
+    if (!result) return;
+    downloadBlob(base64ToBlob(result.data, 'application/zip'), result.filename);
+  };
+
+  const invalid = widths.length === 0 || widths.length > MAX_SRCSET_WIDTHS || formats.length === 0;
+
+  return (
+    <Card className="bg-card/50 backdrop-blur">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="w-5 h-5" />
+          Responsive Image Set
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Widths (px)</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {SRCSET_WIDTH_PRESETS.map((width) => (
+                <label key={width} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={widths.includes(width)}
+                    onChange={() => setWidths(prev => toggle(prev, width))}
+                    disabled={generating || disabled}
+                    className="accent-orange-500"
+                  />
+                  {width}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Formats</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {FORMAT_CHOICES.map((format) => (
+                <label key={format.extension} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formats.includes(format.extension)}
+                    onChange={() => setFormats(prev => toggle(prev, format.extension))}
+                    disabled={generating || disabled}
+                    className="accent-orange-500"
+                  />
+                  {format.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="srcset-sizes">sizes attribute</Label>
+            <Input
+              id="srcset-sizes"
+              value={sizes}
+              onChange={(e) => setSizes(e.target.value)}
+              placeholder="100vw"
+              disabled={generating || disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="srcset-alt">Alt text</Label>
+            <Input
+              id="srcset-alt"
+              value={alt}
+              onChange={(e) => setAlt(e.target.value)}
+              placeholder="Describe the image"
+              disabled={generating || disabled}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-muted-foreground">
+            {widths.length * formats.length} images. Widths larger than the original are skipped, never upscaled.
+          </p>
+          <Button onClick={generate} disabled={generating || disabled || invalid}>
+            {generating ? (
+              <>
+                <LoadingSpinner size="sm" />
+                <span className="ml-2">Generating...</span>
+              </>
+            ) : (
+              'Generate Set'
+            )}
+          </Button>
+        </div>
+
+        {generating && progress && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>{progress.message}</span>
+              <span className="font-mono">{progress.progress}%</span>
+            </div>
+            <Progress value={progress.progress} className="h-2" />
+          </div>
+        )}
+
+        {error && (
+          <Alert className="bg-red-500/10 border-red-500/20">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            {result.manifest.skippedWidths.length > 0 && (
+              <p className="text-sm text-yellow-400">
+                Skipped {result.manifest.skippedWidths.join(', ')}px: the original is only {result.manifest.source.width}px wide.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>&lt;picture&gt; snippet</Label>
+                <Button size="sm" variant="outline" onClick={copySnippet}>
+                  {copySuccess ? <CheckCircle className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+                  {copySuccess ? 'Copied' : 'Copy'}
+                </Button>
+              </div>
+              <pre className="text-xs bg-muted rounded-lg p-3 overflow-x-auto">{result.html}</pre>
+            </div>
+
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border/50">
+                    <th className="py-2 pr-4 font-medium">File</th>
+                    <th className="py-2 pr-4 font-medium text-right">Dimensions</th>
+                    <th className="py-2 font-medium text-right">Size</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.manifest.files.map((entry) => (
+                    <tr key={entry.filename} className="border-b border-border/30">
+                      <td className="py-2 pr-4 font-mono">{entry.filename}</td>
+                      <td className="py-2 pr-4 text-right font-mono">{entry.width}×{entry.height}</td>
+                      <td className="py-2 text-right font-mono">{formatFileSize(entry.size)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <Button
+              onClick={downloadZip}
+              className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+            >
+              <FileArchive className="w-4 h-4 mr-2" />
+              Download ZIP ({formatFileSize(result.size)})
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { FileUpload } from "@/components/FileUpload";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { ShieldCheck, ShieldAlert, AlertCircle, RotateCcw, Sparkles } from "lucide-react";
+import { PrivacyGrade, PrivacyScanResult } from "@/types/exif";
+import { cn } from "@/lib/utils";
+
+interface ShareSafeScannerProps {
+  uploadedImage: File | null;
+}
+
+const GRADE_STYLES: Record<PrivacyGrade, string> = {
+  A: 'from-green-500 to-emerald-500',
+  B: 'from-lime-500 to-green-500',
+  C: 'from-yellow-500 to-amber-500',
+  D: 'from-orange-500 to-red-500',
+  F: 'from-red-500 to-rose-600',
+};
+
+export function ShareSafeScanner({ uploadedImage }: ShareSafeScannerProps) {
+  const [scanning, setScanning] = useState(false);
+  const [result, setResult] = useState<PrivacyScanResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const scanImage = useCallback(async (file: File) => {
+    setScanning(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+
+      const response = await fetch('/api/privacy-scan', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Scan failed');
+      }
+
+      setResult(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Scan failed');
+    } finally {
+      setScanning(false);
+    }
+  }, []);
+
+  // Grade whatever image was last analysed in the EXIF viewer
+  useEffect(() => {
+    if (uploadedImage) {
+      scanImage(uploadedImage);
+    }
+  }, [uploadedImage, scanImage]);
+
+  return (
+    <Card className="relative overflow-hidden bg-gradient-to-br from-purple-500/10 via-cyan-500/10 to-purple-500/10 border border-purple-500/20 backdrop-blur">
+      <CardContent className="relative p-8">
+        <div className="text-center mb-6">
+          <div className="flex items-center justify-center gap-3 mb-3">
+            <Sparkles className="w-6 h-6 text-purple-400" />
+            <h3 className="text-3xl font-bold bg-gradient-to-r from-purple-300 via-cyan-300 to-purple-300 bg-clip-text text-transparent">
+              Share-Safe Image Scanner
+            </h3>
+          </div>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Know before you share! Detect hidden GPS coordinates, personal data, and AI prompts
+            in your photos and get an instant privacy grade.
+          </p>
+        </div>
+
+        {scanning && (
+          <LoadingSpinner size="lg" message="Scanning image..." className="py-8" />
+        )}
+
+        {error && (
+          <Alert className="mb-4 bg-red-500/10 border-red-500/20">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!scanning && !result && (
+          <FileUpload
+            onFileUpload={scanImage}
+            acceptedTypes={["image/*"]}
+            maxSize={50 * 1024 * 1024}
+          />
+        )}
+
+        {result && (
+          <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row items-center gap-6">
+              <div className={cn(
+                "w-28 h-28 shrink-0 rounded-2xl bg-gradient-to-br flex items-center justify-center shadow-lg",
+                GRADE_STYLES[result.report.grade]
+              )}>
+                <span className="text-6xl font-bold text-white">{result.report.grade}</span>
+              </div>
+              <div className="text-center sm:text-left">
+                <p className="text-sm text-muted-foreground truncate">{result.imageInfo.filename}</p>
+                <p className="text-xl font-semibold">{result.report.summary}</p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Privacy score: {result.report.score}/100
+                </p>
+              </div>
+            </div>
+
+            {result.report.findings.length > 0 ? (
+              <div className="space-y-2">
+                {result.report.findings.map((finding) => (
+                  <div key={finding.id} className="p-3 rounded-lg border privacy-high">
+                    <div className="flex items-center justify-between gap-4 mb-1">
+                      <div className="flex items-center gap-2">
+                        <ShieldAlert className="w-4 h-4" />
+                        <span className="font-semibold">{finding.label}</span>
+                      </div>
+                      <Badge variant="secondary" className="bg-white/20 text-xs">
+                        -{finding.weight}
+                      </Badge>
+                    </div>
+                    <p className="text-sm opacity-80">{finding.reason}</p>
+                    <p className="font-mono text-xs opacity-70 mt-1">{finding.tags.join(', ')}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <Alert className="bg-green-500/10 border-green-500/20">
+                <ShieldCheck className="h-4 w-4" />
+                <AlertDescription>
+                  No GPS, serial numbers, owner names, timestamps or AI prompts were found.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => setResult(null)}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Scan Another Image
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
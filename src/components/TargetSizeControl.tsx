@@ -0,0 +1,73 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { TargetSizeRequest } from "@/types/exif";
+import { supportsTargetSize } from "@/lib/conversion-options";
+
+interface TargetSizeControlProps {
+  format: string;
+  value: TargetSizeRequest | null; // null when the mode is off
+  onChange: (value: TargetSizeRequest | null) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_TARGET: TargetSizeRequest = { bytes: 500 * 1024, allowResize: false };
+
+export function TargetSizeControl({ format, value, onChange, disabled }: TargetSizeControlProps) {
+  if (!supportsTargetSize(format)) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Target file size is available for JPEG, WebP and AVIF.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_TARGET : null)}
+          disabled={disabled}
+          className="accent-orange-500"
+        />
+        Target file size
+      </label>
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              aria-label="Maximum size in KB"
+              value={value.bytes > 0 ? Math.round(value.bytes / 1024) : ''}
+              onChange={(e) => onChange({ ...value, bytes: Number(e.target.value) * 1024 })}
+              disabled={disabled}
+              className="w-28"
+            />
+            <span className="text-sm text-muted-foreground">KB max</span>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={value.allowResize}
+              onChange={(e) => onChange({ ...value, allowResize: e.target.checked })}
+              disabled={disabled}
+              className="accent-orange-500"
+            />
+            Allow downscaling
+          </label>
+        </div>
+      )}
+
+      {value && (
+        <p className="text-xs text-muted-foreground">
+          Quality is lowered from the setting below until the file fits
+          {value.allowResize ? ', shrinking the image when that is not enough.' : '.'}
+        </p>
+      )}
+    </div>
+  );
+}
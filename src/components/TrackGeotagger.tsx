@@ -0,0 +1,379 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileUpload } from "@/components/FileUpload";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { AlertCircle, CheckCircle, Download, Eye, MapPinned, Route, X } from "lucide-react";
+import { GeotagOptions, GeotagResult } from "@/types/exif";
+import { DEFAULT_GEOTAG_OPTIONS, formatUtcOffset, UTC_OFFSETS } from "@/lib/geotag-options";
+import { createBaseMap } from "@/lib/leaflet-basemap";
+import { base64ToBlob, downloadBlob, formatDate } from "@/lib/utils";
+import type { Map as LeafletMap } from "leaflet";
+
+const STATUS_CLASSES: Record<GeotagResult['matches'][number]['status'], string> = {
+  matched: 'bg-green-500/20 text-green-400',
+  unmatched: 'bg-yellow-500/20 text-yellow-400',
+  skipped: 'bg-muted text-muted-foreground',
+};
+
+async function requestGeotag(track: File, images: File[], options: GeotagOptions, write: boolean): Promise<GeotagResult> {
+  const formData = new FormData();
+  formData.append('track', track);
+  for (const image of images) {
+    formData.append('images', image);
+  }
+  formData.append('options', JSON.stringify(options));
+  if (write) {
+    formData.append('write', 'true');
+  }
+
+  const response = await fetch('/api/geotag', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to geotag the images');
+  }
+
+  return response.json();
+}
+
+// The logged track and where each matched photo lands on it
+function GeotagPreviewMap({ result }: { result: GeotagResult }) {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const [offlineMap, setOfflineMap] = useState(false);
+
+  useEffect(() => {
+    let map: LeafletMap | undefined;
+    let cancelled = false;
+
+    const loadMap = async () => {
+      try {
+        if (!mapRef.current || result.track.length === 0) return;
+        const created = await createBaseMap(mapRef.current, {
+          center: [result.track[0].latitude, result.track[0].longitude],
+          tileZoom: 13,
+          offlineZoom: 4,
+          onOfflineBasemap: () => setOfflineMap(true),
+        });
+        if (cancelled) {
+          created.map.remove();
+          return;
+        }
+        const { L } = created;
+        map = created.map;
+
+        const line = L.polyline(result.track.map(point => [point.latitude, point.longitude] as [number, number]), {
+          color: '#a855f7',
+          weight: 3,
+          opacity: 0.8,
+        }).addTo(map);
+
+        for (const match of result.matches) {
+          if (!match.position) continue;
+          const tooltip = document.createElement('div');
+          tooltip.textContent = `${match.filename}${match.captureTime ? ` · ${formatDate(match.captureTime, match.utcOffset)}` : ''}`;
+          L.circleMarker([match.position.latitude, match.position.longitude], {
+            color: '#ffffff',
+            weight: 2,
+            fillColor: '#ef4444',
+            fillOpacity: 1,
+            radius: 6,
+          }).bindTooltip(tooltip).addTo(map);
+        }
+
+        map.fitBounds(line.getBounds(), { padding: [24, 24], maxZoom: 16 });
+      } catch (error) {
+        console.error('Error loading map:', error);
+      }
+    };
+
+    loadMap();
+
+    return () => {
+      cancelled = true;
+      if (map) {
+        map.remove();
+        map = undefined;
+      }
+    };
+  }, [result]);
+
+  return (
+    <div className="relative">
+      <div
+        ref={mapRef}
+        className="h-80 w-full rounded-lg border border-border overflow-hidden"
+        style={{ backgroundColor: '#1a1a1a' }}
+      />
+      {offlineMap && (
+        <p className="absolute top-2 right-2 z-[1000] px-2 py-1 rounded bg-black/60 text-xs text-muted-foreground">
+          Offline map · country outlines only
+        </p>
+      )}
+      <p className="absolute bottom-2 left-2 z-[1000] px-2 py-1 rounded bg-black/60 text-xs text-muted-foreground">
+        <span className="text-purple-400">●</span> GPS log · <span className="text-red-400">●</span> Matched photos
+      </p>
+    </div>
+  );
+}
+
+export function TrackGeotagger() {
+  const [track, setTrack] = useState<File | null>(null);
+  const [images, setImages] = useState<File[]>([]);
+  const [timezone, setTimezone] = useState(() => formatUtcOffset(-new Date().getTimezoneOffset()));
+  const [clockOffset, setClockOffset] = useState('0');
+  const [maxGapMinutes, setMaxGapMinutes] = useState(String(DEFAULT_GEOTAG_OPTIONS.maxGapSeconds / 60));
+  const [overwrite, setOverwrite] = useState(false);
+  const [busy, setBusy] = useState<'preview' | 'write' | null>(null);
+  const [preview, setPreview] = useState<GeotagResult | null>(null);
+  const [written, setWritten] = useState<GeotagResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A preview only describes the inputs it was made from
+  useEffect(() => {
+    setPreview(null);
+    setWritten(null);
+  }, [track, images, timezone, clockOffset, maxGapMinutes, overwrite]);
+
+  const options: GeotagOptions = {
+    timezone,
+    clockOffsetSeconds: Number(clockOffset) || 0,
+    maxGapSeconds: Math.max(0, Number(maxGapMinutes) || 0) * 60,
+    overwrite,
+  };
+
+  const run = async (write: boolean) => {
+    if (!track || images.length === 0) return;
+
+    setBusy(write ? 'write' : 'preview');
+    setError(null);
+
+    try {
+      const result = await requestGeotag(track, images, options, write);
+      if (write) {
+        setWritten(result);
+        if (result.archive) {
+          downloadBlob(base64ToBlob(result.archive.data, 'application/zip'), result.archive.filename);
+        }
+      } else {
+        setPreview(result);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to geotag the images');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const matchedCount = preview?.matches.filter(match => match.status === 'matched').length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <MapPinned className="w-5 h-5" />
+          Geotag Photos from a GPS Log
+        </h3>
+        <p className="text-sm text-muted-foreground mt-1">
+          Match each photo&apos;s capture time to a GPX or KML track recorded on a phone or logger, preview the
+          positions, then write them into the images&apos; EXIF GPS tags.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <Label htmlFor="geotag-track">GPS Track (GPX or KML)</Label>
+          <Input
+            id="geotag-track"
+            type="file"
+            accept=".gpx,.kml,application/gpx+xml,application/vnd.google-earth.kml+xml"
+            onChange={(e) => setTrack(e.target.files?.[0] ?? null)}
+            disabled={busy !== null}
+          />
+          {track && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Route className="w-3 h-3" /> {track.name}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Photos</Label>
+          {images.length > 0 ? (
+            <div className="flex items-center justify-between p-3 rounded-lg bg-muted text-sm">
+              <span>
+                {images.length === 1 ? images[0].name : `${images.length} files`}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => setImages([])} disabled={busy !== null}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <FileUpload
+              onFileUpload={(file) => setImages([file])}
+              onFilesUpload={setImages}
+              acceptedTypes={["image/*", "application/zip", "application/x-zip-compressed"]}
+              disabled={busy !== null}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label>Camera Time Zone</Label>
+          <Select value={timezone} onValueChange={setTimezone} disabled={busy !== null}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Recorded in each photo</SelectItem>
+              {UTC_OFFSETS.map((offset) => (
+                <SelectItem key={offset} value={offset}>UTC{offset}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="geotag-clock-offset">Camera Clock Offset (s)</Label>
+          <Input
+            id="geotag-clock-offset"
+            type="number"
+            value={clockOffset}
+            onChange={(e) => setClockOffset(e.target.value)}
+            disabled={busy !== null}
+          />
+          <p className="text-xs text-muted-foreground">Positive if the camera clock was ahead</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="geotag-max-gap">Maximum Gap (min)</Label>
+          <Input
+            id="geotag-max-gap"
+            type="number"
+            min={0}
+            max={1440}
+            value={maxGapMinutes}
+            onChange={(e) => setMaxGapMinutes(e.target.value)}
+            disabled={busy !== null}
+          />
+          <p className="text-xs text-muted-foreground">Furthest a photo may be from a logged point</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="geotag-overwrite">Existing Positions</Label>
+          <label className="flex items-center gap-2 h-10 text-sm">
+            <input
+              id="geotag-overwrite"
+              type="checkbox"
+              checked={overwrite}
+              onChange={(e) => setOverwrite(e.target.checked)}
+              disabled={busy !== null}
+            />
+            Overwrite GPS already in photos
+          </label>
+        </div>
+      </div>
+
+      <Button
+        onClick={() => run(false)}
+        disabled={busy !== null || !track || images.length === 0}
+        className="w-full bg-gradient-to-r from-purple-500 to-cyan-500 hover:from-purple-600 hover:to-cyan-600"
+      >
+        {busy === 'preview' ? (
+          <>
+            <LoadingSpinner size="sm" />
+            <span className="ml-2">Matching...</span>
+          </>
+        ) : (
+          <>
+            <Eye className="w-4 h-4 mr-2" />
+            Preview Matches
+          </>
+        )}
+      </Button>
+
+      {error && (
+        <Alert className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {preview && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {preview.trackPoints} logged points from {formatDate(preview.trackStart)} to {formatDate(preview.trackEnd)}.{' '}
+            {matchedCount} of {preview.matches.length} photos matched.
+          </p>
+
+          <GeotagPreviewMap result={preview} />
+
+          <div className="space-y-2">
+            {preview.matches.map((match) => (
+              <div key={match.filename} className="flex flex-col md:flex-row md:items-center gap-2 p-3 rounded-lg border bg-card/30 text-sm">
+                <Badge variant="secondary" className={STATUS_CLASSES[match.status]}>
+                  {match.status}
+                </Badge>
+                <span className="font-medium truncate flex-1" title={match.filename}>{match.filename}</span>
+                <span className="text-muted-foreground">
+                  {match.position
+                    ? `${match.position.latitude.toFixed(5)}°, ${match.position.longitude.toFixed(5)}° · ${Math.round(match.gapSeconds ?? 0)} s from the log`
+                    : match.reason}
+                </span>
+                {match.captureTime && (
+                  <span className="text-xs text-muted-foreground">{formatDate(match.captureTime, match.utcOffset)}</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <Button
+            onClick={() => run(true)}
+            disabled={busy !== null || matchedCount === 0}
+            className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+          >
+            {busy === 'write' ? (
+              <>
+                <LoadingSpinner size="sm" />
+                <span className="ml-2">Writing GPS tags...</span>
+              </>
+            ) : (
+              <>
+                <Download className="w-4 h-4 mr-2" />
+                Write GPS Tags to {matchedCount} Photo{matchedCount === 1 ? '' : 's'}
+              </>
+            )}
+          </Button>
+        </div>
+      )}
+
+      {written && (
+        <Alert className="bg-green-500/10 border-green-500/20">
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>
+            {written.archive
+              ? `Downloaded ${written.archive.filename} with ${written.matches.filter(match => match.status === 'matched').length} geotagged photos.`
+              : 'No photos matched, so nothing was written.'}
+            {written.warnings.map((warning) => (
+              <span key={warning} className="block text-xs text-yellow-400">{warning}</span>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
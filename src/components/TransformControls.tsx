@@ -0,0 +1,298 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2, Undo2 } from "lucide-react";
+import { CropRegion, RotationAngle, TransformOptions } from "@/types/exif";
+import { isGeometricTransform } from "@/lib/conversion-options";
+import { cn } from "@/lib/utils";
+
+interface TransformControlsProps {
+  // Preview of the single file being converted; the crop editor needs it, so batches can't crop
+  imageUrl?: string | null;
+  value: TransformOptions;
+  onChange: (value: TransformOptions) => void;
+  disabled?: boolean;
+}
+
+const ASPECT_RATIOS: { value: string; label: string; ratio: number | null }[] = [
+  { value: 'free', label: 'Free', ratio: null },
+  { value: '1:1', label: '1:1 Square', ratio: 1 },
+  { value: '4:3', label: '4:3', ratio: 4 / 3 },
+  { value: '3:4', label: '3:4', ratio: 3 / 4 },
+  { value: '3:2', label: '3:2', ratio: 3 / 2 },
+  { value: '2:3', label: '2:3', ratio: 2 / 3 },
+  { value: '16:9', label: '16:9', ratio: 16 / 9 },
+  { value: '9:16', label: '9:16', ratio: 9 / 16 },
+];
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// Largest region of the given aspect ratio, centred in the image
+function centredRegion(image: Size, ratio: number | null): CropRegion {
+  if (ratio === null) return { left: 0, top: 0, width: image.width, height: image.height };
+
+  const width = Math.min(image.width, Math.round(image.height * ratio));
+  const height = Math.min(image.height, Math.round(width / ratio));
+  return {
+    left: Math.floor((image.width - width) / 2),
+    top: Math.floor((image.height - height) / 2),
+    width,
+    height,
+  };
+}
+
+// Region spanned by a drag from `start` to `end`, kept inside the image and to the ratio
+function dragRegion(start: { x: number; y: number }, end: { x: number; y: number }, image: Size, ratio: number | null): CropRegion {
+  const towardsLeft = end.x < start.x;
+  const towardsTop = end.y < start.y;
+  const maxWidth = towardsLeft ? start.x : image.width - start.x;
+  const maxHeight = towardsTop ? start.y : image.height - start.y;
+
+  let width = Math.min(Math.abs(end.x - start.x), maxWidth);
+  let height = Math.min(Math.abs(end.y - start.y), maxHeight);
+  if (ratio !== null) {
+    width = Math.min(width, maxHeight * ratio);
+    height = width / ratio;
+  }
+
+  width = Math.max(1, Math.round(width));
+  height = Math.max(1, Math.round(height));
+  return {
+    left: Math.round(towardsLeft ? start.x - width : start.x),
+    top: Math.round(towardsTop ? start.y - height : start.y),
+    width,
+    height,
+  };
+}
+
+export function TransformControls({ imageUrl, value, onChange, disabled }: TransformControlsProps) {
+  const [imageSize, setImageSize] = useState<Size | null>(null);
+  const [aspect, setAspect] = useState('free');
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const ratio = ASPECT_RATIOS.find(option => option.value === aspect)?.ratio ?? null;
+  const geometric = isGeometricTransform(value);
+  const update = (changes: Partial<TransformOptions>) => onChange({ ...value, ...changes });
+
+  const rotateBy = (degrees: number) => {
+    update({ rotate: ((value.rotate + degrees + 360) % 360) as RotationAngle });
+  };
+
+  const toggleCrop = (enabled: boolean) => {
+    update({ crop: enabled && imageSize ? centredRegion(imageSize, ratio) : undefined });
+  };
+
+  const changeAspect = (next: string) => {
+    setAspect(next);
+    if (value.crop && imageSize) {
+      update({ crop: centredRegion(imageSize, ASPECT_RATIOS.find(option => option.value === next)?.ratio ?? null) });
+    }
+  };
+
+  // Numeric edits keep the region inside the image; with a ratio the other side follows
+  const changeCropField = (field: keyof CropRegion, input: string) => {
+    if (!value.crop || !imageSize || input === '') return;
+    const crop = { ...value.crop, [field]: Math.max(0, Math.round(Number(input))) };
+
+    if (ratio !== null && field === 'width') crop.height = Math.round(crop.width / ratio);
+    if (ratio !== null && field === 'height') crop.width = Math.round(crop.height * ratio);
+    crop.width = Math.max(1, Math.min(crop.width, imageSize.width));
+    crop.height = Math.max(1, Math.min(crop.height, imageSize.height));
+    crop.left = Math.min(crop.left, imageSize.width - crop.width);
+    crop.top = Math.min(crop.top, imageSize.height - crop.height);
+    update({ crop });
+  };
+
+  const toImagePoint = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * imageSize!.width;
+    const y = ((event.clientY - bounds.top) / bounds.height) * imageSize!.height;
+    return {
+      x: Math.max(0, Math.min(imageSize!.width, x)),
+      y: Math.max(0, Math.min(imageSize!.height, y)),
+    };
+  };
+
+  const startDrag = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (disabled || !imageSize || !value.crop) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = toImagePoint(event);
+  };
+
+  const moveDrag = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current || !imageSize) return;
+    const end = toImagePoint(event);
+    // Ignore clicks and jitter; a crop is drawn, not tapped
+    if (Math.abs(end.x - dragStart.current.x) < 2 && Math.abs(end.y - dragStart.current.y) < 2) return;
+    update({ crop: dragRegion(dragStart.current, end, imageSize, ratio) });
+  };
+
+  const endDrag = () => {
+    dragStart.current = null;
+  };
+
+  const percent = (part: number, whole: number) => `${(part / whole) * 100}%`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => rotateBy(-90)} disabled={disabled}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Rotate Left
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => rotateBy(90)} disabled={disabled}>
+          <RotateCw className="w-4 h-4 mr-2" />
+          Rotate Right
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => update({ flop: !value.flop })}
+          disabled={disabled}
+          className={cn(value.flop && "border-orange-500 text-orange-400")}
+        >
+          <FlipHorizontal2 className="w-4 h-4 mr-2" />
+          Flip Horizontal
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => update({ flip: !value.flip })}
+          disabled={disabled}
+          className={cn(value.flip && "border-orange-500 text-orange-400")}
+        >
+          <FlipVertical2 className="w-4 h-4 mr-2" />
+          Flip Vertical
+        </Button>
+        {geometric && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, crop: undefined, rotate: 0, flip: false, flop: false })}
+            disabled={disabled}
+          >
+            <Undo2 className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+        )}
+        {value.rotate !== 0 && (
+          <span className="text-xs font-mono text-muted-foreground">{value.rotate}°</span>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={value.autoOrient || geometric}
+          onChange={(e) => update({ autoOrient: e.target.checked })}
+          disabled={disabled || geometric}
+          className="accent-orange-500"
+        />
+        Auto-orient from EXIF
+      </label>
+      <p className="text-xs text-muted-foreground">
+        {geometric
+          ? 'Crop, rotate and flip work on the image as it is displayed, so its EXIF orientation is always applied first.'
+          : 'Rotates the pixels the way the Orientation tag says and resets the tag, so the image shows upright everywhere.'}
+      </p>
+
+      {imageUrl && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={value.crop !== undefined}
+                onChange={(e) => toggleCrop(e.target.checked)}
+                disabled={disabled || !imageSize}
+                className="accent-orange-500"
+              />
+              Crop
+            </label>
+            <div className="space-y-2 w-40">
+              <Label>Aspect Ratio</Label>
+              <Select value={aspect} onValueChange={changeAspect} disabled={disabled}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASPECT_RATIOS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-center">
+            <div
+              className={cn("relative inline-block overflow-hidden rounded-lg select-none touch-none", value.crop && "cursor-crosshair")}
+              onPointerDown={startDrag}
+              onPointerMove={moveDrag}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+            >
+              <img
+                src={imageUrl}
+                alt="Crop preview"
+                draggable={false}
+                onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className="block max-w-full max-h-80"
+              />
+              {value.crop && imageSize && (
+                <div
+                  className="absolute border-2 border-orange-400 pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                  style={{
+                    left: percent(value.crop.left, imageSize.width),
+                    top: percent(value.crop.top, imageSize.height),
+                    width: percent(value.crop.width, imageSize.width),
+                    height: percent(value.crop.height, imageSize.height),
+                  }}
+                />
+              )}
+            </div>
+          </div>
+
+          {value.crop && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {(['left', 'top', 'width', 'height'] as const).map((field) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`crop-${field}`} className="capitalize">{field}</Label>
+                    <Input
+                      id={`crop-${field}`}
+                      type="number"
+                      min={field === 'left' || field === 'top' ? 0 : 1}
+                      value={value.crop![field]}
+                      onChange={(e) => changeCropField(field, e.target.value)}
+                      disabled={disabled}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Drag on the image to draw the crop. Pixels of the upright image; the crop is taken before rotating.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
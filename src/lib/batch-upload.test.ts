@@ -0,0 +1,104 @@
+import JSZip from 'jszip';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { expandBatchUploads } from '@/lib/batch-upload';
+
+const MB = 1024 * 1024;
+
+async function zipUpload(entries: Record<string, Uint8Array>): Promise<File> {
+  const zip = new JSZip();
+  for (const [name, data] of Object.entries(entries)) {
+    zip.file(name, data);
+  }
+  const archive = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  return new File([archive], 'photos.zip', { type: 'application/zip' });
+}
+
+describe('expandBatchUploads', () => {
+  it('extracts images and skips other entries', async () => {
+    const upload = await zipUpload({
+      'a.jpg': new Uint8Array(10),
+      'trip/b.png': new Uint8Array(20),
+      'notes.txt': new Uint8Array(5),
+      '__MACOSX/._a.jpg': new Uint8Array(5),
+    });
+
+    const result = await expandBatchUploads([upload]);
+
+    expect(result.files.map(file => [file.name, file.type, file.size])).toEqual([
+      ['a.jpg', 'image/jpeg', 10],
+      ['trip/b.png', 'image/png', 20],
+    ]);
+    expect(result.skipped).toEqual(['notes.txt']);
+    expect(result.oversized).toEqual([]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('leaves an entry larger than the per-entry limit compressed', async () => {
+    // 51MB of zeros deflates to a few kilobytes
+    const upload = await zipUpload({
+      'bomb.jpg': new Uint8Array(51 * MB),
+      'ok.jpg': new Uint8Array(100),
+    });
+
+    const result = await expandBatchUploads([upload]);
+
+    expect(result.oversized).toEqual(['bomb.jpg']);
+    expect(result.files.map(file => file.name)).toEqual(['ok.jpg']);
+  });
+
+  it('throws once the archives expand past the total limit', async () => {
+    const upload = await zipUpload({
+      'a.jpg': new Uint8Array(3 * MB),
+      'b.jpg': new Uint8Array(3 * MB),
+    });
+
+    await expect(expandBatchUploads([upload], { entryBytes: 4 * MB, totalBytes: 5 * MB }))
+      .rejects.toThrow('Archives expand to more than 5MB');
+  });
+
+  it('counts uploads past MAX_BATCH_FILES as truncated', async () => {
+    const uploads = Array.from({ length: 201 }, (_, index) => new File([new Uint8Array(1)], `${index}.jpg`, { type: 'image/jpeg' }));
+
+    const result = await expandBatchUploads(uploads);
+
+    expect(result.truncated).toBe(true);
+    expect(result.files).toHaveLength(200);
+  });
+});
+
+// The converter's batch queue runs this in the browser, where JSZip has no
+// Node streams; switching them off here reproduces that
+describe('expandBatchUploads without Node streams', () => {
+  // Missing from JSZip's typings, but read on every nodeStream() call
+  const support = JSZip.support as typeof JSZip.support & { nodestream: boolean };
+  const nodestream = support.nodestream;
+
+  beforeEach(() => {
+    support.nodestream = false;
+  });
+
+  afterEach(() => {
+    support.nodestream = nodestream;
+  });
+
+  it('extracts images', async () => {
+    const upload = await zipUpload({ 'a.jpg': new Uint8Array([1, 2, 3]) });
+
+    const result = await expandBatchUploads([upload]);
+
+    expect(result.files).toHaveLength(1);
+    expect(new Uint8Array(await result.files[0].arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('still enforces the limits', async () => {
+    const upload = await zipUpload({
+      'big.jpg': new Uint8Array(2 * MB),
+      'small.jpg': new Uint8Array(100),
+    });
+
+    const result = await expandBatchUploads([upload], { entryBytes: MB, totalBytes: 10 * MB });
+
+    expect(result.oversized).toEqual(['big.jpg']);
+    expect(result.files.map(file => file.name)).toEqual(['small.jpg']);
+  });
+});
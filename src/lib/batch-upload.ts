@@ -0,0 +1,156 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { isZipFile } from '@/lib/utils';
+
+export const MAX_BATCH_FILES = 200;
+// Checked by the routes before an archive is loaded into memory at all
+export const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+export interface ExpansionLimits {
+  entryBytes: number; // largest single image taken out of an archive
+  totalBytes: number; // everything inflated from the archives of one batch
+}
+
+// Entries match the per-file upload limit; the total keeps a zip bomb from
+// filling memory, on the server and in the browser alike
+export const DEFAULT_EXPANSION_LIMITS: ExpansionLimits = {
+  entryBytes: 50 * 1024 * 1024,
+  totalBytes: 512 * 1024 * 1024,
+};
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.gif': 'image/gif',
+  '.avif': 'image/avif',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+};
+
+export interface ExpandedUploads {
+  files: File[];
+  skipped: string[]; // Archive entries that are not images
+  oversized: string[]; // Archive entries larger than the per-entry limit, left compressed
+  truncated: boolean; // More than MAX_BATCH_FILES images were uploaded
+}
+
+// The part of JSZip's internal stream used here. Unlike nodeStream() it
+// works in the browser too, where the converter's batch queue expands ZIPs.
+interface EntryStream {
+  on(event: 'data', listener: (chunk: Uint8Array) => void): EntryStream;
+  on(event: 'error', listener: (error: Error) => void): EntryStream;
+  on(event: 'end', listener: () => void): EntryStream;
+  pause(): EntryStream;
+  resume(): EntryStream;
+}
+
+function concatChunks(chunks: Uint8Array[], size: number): Uint8Array {
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+/**
+ * Inflate an archive entry, stopping as soon as it passes `limit` bytes.
+ * The sizes in the ZIP headers come from whoever made the archive, so only
+ * the bytes actually produced are counted. Resolves to null past the limit.
+ */
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Uint8Array | null> {
+  return new Promise((resolve, reject) => {
+    const stream = (entry as unknown as { internalStream(type: 'uint8array'): EntryStream }).internalStream('uint8array');
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    let done = false;
+
+    stream
+      .on('data', (chunk) => {
+        if (done) return;
+        size += chunk.length;
+        if (size > limit) {
+          done = true;
+          stream.pause();
+          resolve(null);
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', (error) => {
+        done = true;
+        reject(error);
+      })
+      .on('end', () => {
+        if (!done) resolve(concatChunks(chunks, size));
+      })
+      .resume();
+  });
+}
+
+/**
+ * Flatten a batch upload into individual image files. ZIP archives are opened
+ * in memory and every image inside them (at any depth) becomes its own File,
+ * named by its path in the archive so duplicates stay distinguishable.
+ * Throws once the archives inflate to more than `limits.totalBytes`.
+ */
+export async function expandBatchUploads(
+  uploads: File[],
+  limits: ExpansionLimits = DEFAULT_EXPANSION_LIMITS
+): Promise<ExpandedUploads> {
+  const files: File[] = [];
+  const skipped: string[] = [];
+  const oversized: string[] = [];
+  let remainingBytes = limits.totalBytes;
+
+  for (const upload of uploads) {
+    if (files.length >= MAX_BATCH_FILES) {
+      return { files, skipped, oversized, truncated: true };
+    }
+
+    if (!isZipFile(upload)) {
+      files.push(upload);
+      continue;
+    }
+
+    const zip = await JSZip.loadAsync(await upload.arrayBuffer());
+
+    for (const entry of Object.values(zip.files)) {
+      if (entry.dir) continue;
+
+      // Skip macOS resource forks and hidden files
+      const baseName = path.posix.basename(entry.name);
+      if (entry.name.startsWith('__MACOSX/') || baseName.startsWith('.')) continue;
+
+      const mimeType = IMAGE_MIME_TYPES[path.posix.extname(entry.name).toLowerCase()];
+      if (!mimeType) {
+        skipped.push(entry.name);
+        continue;
+      }
+
+      // Stop decompressing once the caller is going to reject the batch anyway
+      if (files.length >= MAX_BATCH_FILES) {
+        return { files, skipped, oversized, truncated: true };
+      }
+
+      const data = await inflateEntry(entry, Math.min(limits.entryBytes, remainingBytes));
+      if (data === null) {
+        if (remainingBytes <= limits.entryBytes) {
+          throw new Error(`Archives expand to more than ${Math.round(limits.totalBytes / (1024 * 1024))}MB`);
+        }
+        oversized.push(entry.name);
+        continue;
+      }
+
+      remainingBytes -= data.length;
+      files.push(new File([data], entry.name, { type: mimeType }));
+    }
+  }
+
+  return { files, skipped, oversized, truncated: false };
+}
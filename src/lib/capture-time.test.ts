@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { describeDuration, readCaptureTime, toWallClock } from '@/lib/capture-time';
+
+// Untranslated exifr tag IDs
+const DATE_TIME_ORIGINAL = '36867';
+const DATE_TIME_DIGITIZED = '36868';
+const DATE_TIME = '306';
+const SUB_SEC_TIME_ORIGINAL = '37521';
+const OFFSET_TIME = '36880';
+const OFFSET_TIME_ORIGINAL = '36881';
+
+const gpsAt = (timestamp: string) => ({ latitude: 0, longitude: 0, timestamp });
+
+describe('readCaptureTime', () => {
+  it('reads the most specific date with its sub-seconds and offset', () => {
+    expect(readCaptureTime({
+      [DATE_TIME]: '2024:05:02 08:00:00',
+      [DATE_TIME_ORIGINAL]: '2024:05:01 12:00:00',
+      [SUB_SEC_TIME_ORIGINAL]: '25\0',
+      [OFFSET_TIME_ORIGINAL]: '+02:00\0',
+    })).toEqual({
+      local: '2024-05-01T12:00:00.250',
+      source: 'DateTimeOriginal',
+      offset: '+02:00',
+      offsetSource: 'exif',
+      utc: '2024-05-01T10:00:00.250Z',
+    });
+  });
+
+  it('falls back to OffsetTime and to later date tags', () => {
+    expect(readCaptureTime({
+      [DATE_TIME_ORIGINAL]: '0000:00:00 00:00:00',
+      [DATE_TIME_DIGITIZED]: '2024:05:01 12:00:00',
+      [OFFSET_TIME]: '-05:00',
+    })).toMatchObject({ source: 'DateTimeDigitized', offset: '-05:00', utc: '2024-05-01T17:00:00.000Z' });
+  });
+
+  it('reads dates revived by exifr as wall-clock time', () => {
+    expect(readCaptureTime({ [DATE_TIME_ORIGINAL]: new Date(2024, 4, 1, 12, 0, 0) })).toEqual({
+      local: '2024-05-01T12:00:00',
+      source: 'DateTimeOriginal',
+    });
+    expect(readCaptureTime({ [DATE_TIME_ORIGINAL]: new Date(1899, 11, 30) })).toBeUndefined();
+  });
+
+  it('infers the time zone from a GPS clock a whole number of quarter hours away', () => {
+    expect(readCaptureTime({ [DATE_TIME_ORIGINAL]: '2024:05:01 15:30:20' }, gpsAt('2024-05-01T10:00:00Z'))).toEqual({
+      local: '2024-05-01T15:30:20',
+      source: 'DateTimeOriginal',
+      offset: '+05:30',
+      offsetSource: 'gps',
+      utc: '2024-05-01T10:00:20.000Z',
+      gpsDifferenceSeconds: 20,
+    });
+  });
+
+  it('warns when the camera clock matches no time zone', () => {
+    const capture = readCaptureTime({ [DATE_TIME_ORIGINAL]: '2024:05:01 10:07:00' }, gpsAt('2024-05-01T10:00:00Z'));
+    expect(capture).toMatchObject({ gpsDifferenceSeconds: 420 });
+    expect(capture?.offset).toBeUndefined();
+    expect(capture?.clockWarning).toBe(
+      'The camera clock does not match the GPS clock in any time zone: it reads 7 min ahead of GPS time (UTC).'
+    );
+  });
+
+  it('flags a recorded time zone that disagrees with the GPS clock by whole hours', () => {
+    const capture = readCaptureTime(
+      { [DATE_TIME_ORIGINAL]: '2024:05:01 12:00:00', [OFFSET_TIME_ORIGINAL]: '+01:00' },
+      gpsAt('2024-05-01T10:00:00Z')
+    );
+    expect(capture).toMatchObject({ offsetSource: 'exif', gpsDifferenceSeconds: 3600 });
+    expect(capture?.clockWarning).toBe(
+      'The camera clock is 1 h ahead of the GPS clock, so the recorded time zone (UTC+01:00) is probably wrong, e.g. daylight saving time was not applied.'
+    );
+  });
+
+  it('returns undefined without a readable date', () => {
+    expect(readCaptureTime({})).toBeUndefined();
+    expect(readCaptureTime({ [DATE_TIME_ORIGINAL]: 'unknown' })).toBeUndefined();
+  });
+});
+
+describe('toWallClock', () => {
+  it('keeps milliseconds only when there are some', () => {
+    expect(toWallClock(new Date(2024, 0, 2, 3, 4, 5))).toBe('2024-01-02T03:04:05');
+    expect(toWallClock(new Date(2024, 0, 2, 3, 4, 5, 7))).toBe('2024-01-02T03:04:05.007');
+  });
+});
+
+describe('describeDuration', () => {
+  it.each([
+    [0, '0 s'], [45, '45 s'], [200, '3 min 20 s'], [3900, '1 h 5 min'], [3605, '1 h'], [187200, '2 d 4 h'], [-90, '1 min 30 s'],
+  ])('describes %d seconds as %j', (seconds, text) => {
+    expect(describeDuration(seconds)).toBe(text);
+  });
+});
@@ -0,0 +1,134 @@
+import { formatUtcOffset } from '@/lib/geotag-options';
+import { parseUtcOffset } from '@/lib/gps-track';
+import { CaptureTime, GpsData } from '@/types/exif';
+
+// The GPS time is of the last fix, which can trail the shutter by a little
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+// Each date tag with the sub-second and offset tags that qualify it, most
+// specific first. exifr keys are untranslated tag IDs.
+const CAPTURE_TAGS = [
+  { source: 'DateTimeOriginal', date: '36867', subSeconds: '37521', offset: '36881' },
+  { source: 'DateTimeDigitized', date: '36868', subSeconds: '37522', offset: '36882' },
+  { source: 'DateTime', date: '306', subSeconds: '37520', offset: '36880' },
+] as const;
+
+// OffsetTime belongs to DateTime, but cameras that write only that one use it for all three
+const OFFSET_TIME = '36880';
+
+function pad(value: number, width = 2): string {
+  return String(value).padStart(width, '0');
+}
+
+/**
+ * The wall-clock time of an EXIF date revived by exifr, as
+ * "YYYY-MM-DDTHH:MM:SS" with no zone. exifr builds these in the server's
+ * time zone, so the local getters give back exactly what the camera wrote.
+ */
+export function toWallClock(date: Date): string {
+  const milliseconds = date.getMilliseconds();
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    (milliseconds ? `.${pad(milliseconds, 3)}` : '');
+}
+
+function readWallClock(value: unknown): string | undefined {
+  // The all-zero "0000:00:00 00:00:00" placeholder revives to a date in 1899
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) || value.getFullYear() < 1900 ? undefined : toWallClock(value);
+  }
+  const match = typeof value === 'string' && value.trim().match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  return match && match[1] !== '0000' ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+}
+
+function readOffset(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const minutes = parseUtcOffset(value.replace(/\0/g, ''));
+  return minutes === undefined ? undefined : formatUtcOffset(minutes);
+}
+
+// "1 h 5 min", "3 min 20 s" or "2 d 4 h": the two largest units are plenty for a warning
+export function describeDuration(seconds: number): string {
+  const units: [string, number][] = [['d', 86400], ['h', 3600], ['min', 60], ['s', 1]];
+  let remaining = Math.round(Math.abs(seconds));
+  const parts: string[] = [];
+  for (const [label, size] of units) {
+    if (remaining >= size && parts.length < 2) {
+      parts.push(`${Math.floor(remaining / size)} ${label}`);
+      remaining %= size;
+    } else if (parts.length > 0) {
+      break;
+    }
+  }
+  return parts.length > 0 ? parts.join(' ') : '0 s';
+}
+
+// A difference that is a whole number of quarter hours is a time zone, not drift
+function asUtcOffset(seconds: number): number | undefined {
+  const minutes = Math.round(seconds / 900) * 15;
+  return Math.abs(seconds - minutes * 60) <= CLOCK_TOLERANCE_SECONDS && Math.abs(minutes) <= 14 * 60
+    ? minutes
+    : undefined;
+}
+
+function describeClockDifference(seconds: number, offset: string | undefined): string {
+  const direction = seconds > 0 ? 'ahead of' : 'behind';
+  if (!offset) {
+    return `The camera clock does not match the GPS clock in any time zone: it reads ${describeDuration(seconds)} ${direction} GPS time (UTC).`;
+  }
+  const difference = `The camera clock is ${describeDuration(seconds)} ${direction} the GPS clock`;
+  if (asUtcOffset(seconds) !== undefined) {
+    return `${difference}, so the recorded time zone (UTC${offset}) is probably wrong, e.g. daylight saving time was not applied.`;
+  }
+  return `${difference}. One of them was set wrong, or the GPS position is from an earlier fix.`;
+}
+
+/**
+ * When the photo was taken, from the first of DateTimeOriginal,
+ * DateTimeDigitized and DateTime with its SubSecTime and OffsetTime tags.
+ * Without an offset tag the time zone is inferred from the GPS clock when
+ * the two agree to within a whole number of quarter hours, and a camera clock
+ * that disagrees with the GPS clock beyond that is flagged.
+ */
+export function readCaptureTime(tags: Record<string, unknown>, gps?: GpsData): CaptureTime | undefined {
+  for (const { source, date, subSeconds, offset: offsetTag } of CAPTURE_TAGS) {
+    const wallClock = readWallClock(tags[date]);
+    if (!wallClock) continue;
+
+    const fraction = String(tags[subSeconds] ?? '').replace(/\0/g, '').trim();
+    const local = /^\d+$/.test(fraction) && !wallClock.includes('.')
+      ? `${wallClock}.${fraction.padEnd(3, '0').slice(0, 3)}`
+      : wallClock;
+    const capture: CaptureTime = { local, source };
+
+    const wallClockMs = Date.parse(`${local}Z`);
+    const gpsMs = gps?.timestamp ? Date.parse(gps.timestamp) : NaN;
+    const offset = readOffset(tags[offsetTag]) ?? readOffset(tags[OFFSET_TIME]);
+
+    if (offset) {
+      capture.offset = offset;
+      capture.offsetSource = 'exif';
+      capture.utc = new Date(wallClockMs - (parseUtcOffset(offset) ?? 0) * 60000).toISOString();
+    } else if (!Number.isNaN(gpsMs)) {
+      const inferred = asUtcOffset((wallClockMs - gpsMs) / 1000);
+      if (inferred !== undefined) {
+        capture.offset = formatUtcOffset(inferred);
+        capture.offsetSource = 'gps';
+        capture.utc = new Date(wallClockMs - inferred * 60000).toISOString();
+      }
+    }
+
+    if (!Number.isNaN(gpsMs)) {
+      // Without an offset all there is to compare is the wall clock itself
+      const cameraMs = capture.utc ? Date.parse(capture.utc) : wallClockMs;
+      capture.gpsDifferenceSeconds = Math.round((cameraMs - gpsMs) / 1000);
+      if (Math.abs(capture.gpsDifferenceSeconds) > CLOCK_TOLERANCE_SECONDS) {
+        capture.clockWarning = describeClockDifference(capture.gpsDifferenceSeconds, capture.offset);
+      }
+    }
+
+    return capture;
+  }
+
+  return undefined;
+}
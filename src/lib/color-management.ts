@@ -0,0 +1,86 @@
+import sharp from 'sharp';
+import { getExifTool, withTempImage } from '@/lib/exiftool';
+import { buildMatrixShaperProfile, MatrixShaperProfile } from '@/lib/icc-profile';
+import { ColorProfileMode } from '@/types/exif';
+
+// Bradford adaptation from the D65 white of both spaces to the ICC D50 white
+const D65_TO_D50: MatrixShaperProfile['adaptation'] = [
+  [1.0478112, 0.0228866, -0.050127],
+  [0.0295424, 0.9904844, -0.0170491],
+  [-0.0092345, 0.0150436, 0.7521316],
+];
+
+// Profiles sharp has no built-in for, or whose built-in it only converts to
+const ASSIGNED_PROFILES: Record<'assign-display-p3' | 'assign-adobe-rgb', MatrixShaperProfile> = {
+  'assign-display-p3': {
+    description: 'Display P3',
+    copyright: 'No copyright, use freely',
+    red: [0.515121, 0.241196, 0],
+    green: [0.291977, 0.692245, 0.041824],
+    blue: [0.157104, 0.066559, 0.783081],
+    adaptation: D65_TO_D50,
+    transfer: 'srgb',
+  },
+  'assign-adobe-rgb': {
+    // The primaries of Adobe RGB (1998), under the usual compatible name
+    description: 'Compatible with Adobe RGB (1998)',
+    copyright: 'No copyright, use freely',
+    red: [0.60974, 0.31111, 0.01947],
+    green: [0.20528, 0.62567, 0.06087],
+    blue: [0.14919, 0.06322, 0.74457],
+    adaptation: D65_TO_D50,
+    transfer: { gamma: 563 / 256 },
+  },
+};
+
+export function isColorProfileMode(value: unknown): value is ColorProfileMode {
+  return value === 'auto' || value === 'srgb' || value === 'preserve'
+    || value === 'assign-display-p3' || value === 'assign-adobe-rgb';
+}
+
+export function isAssignedProfile(mode: ColorProfileMode): mode is keyof typeof ASSIGNED_PROFILES {
+  return Object.hasOwn(ASSIGNED_PROFILES, mode);
+}
+
+/**
+ * Configure how sharp treats color for the chosen mode, on top of the
+ * metadata policy. 'auto' leaves it to the policy: sharp converts to sRGB
+ * and the policy decides whether the original profile is kept. Assigning
+ * keeps the pixel values untouched; the profile itself is written by
+ * assignColorProfile once the image is encoded.
+ */
+export function applyColorProfile(pipeline: sharp.Sharp, mode: ColorProfileMode): sharp.Sharp {
+  switch (mode) {
+    case 'auto':
+      return pipeline;
+    case 'srgb':
+      return pipeline.withIccProfile('srgb');
+    case 'preserve':
+    case 'assign-display-p3':
+    case 'assign-adobe-rgb':
+      return pipeline.keepIccProfile();
+  }
+}
+
+/**
+ * Embed the profile for an 'assign-*' mode in an encoded file, replacing
+ * any profile it already has. exiftool cannot add one to every container
+ * (AVIF, GIF), which is reported as a warning.
+ */
+export async function assignColorProfile(
+  filePath: string,
+  mode: keyof typeof ASSIGNED_PROFILES
+): Promise<string[]> {
+  const profile = buildMatrixShaperProfile(ASSIGNED_PROFILES[mode]);
+
+  return withTempImage(profile, 'profile.icc', async (profilePath) => {
+    const written = await getExifTool().write(filePath, {}, {
+      writeArgs: [`-ICC_Profile<=${profilePath}`, '-overwrite_original'],
+    });
+    const warnings = written.warnings || [];
+    if (!written.updated) {
+      warnings.push('This format cannot have a color profile assigned; the output keeps the original color tagging');
+    }
+    return warnings;
+  });
+}
@@ -0,0 +1,113 @@
+import JSZip from 'jszip';
+import {
+  ColorProfileMode, ConversionOptions, ConversionProgress, ConvertImageResult, FormatRecommendation, MetadataPolicy,
+  ResponsiveImageSetResult, TargetSizeRequest, TransformOptions
+} from '@/types/exif';
+import { postWithProgress } from '@/lib/progress-request';
+import { uniqueFilename } from '@/lib/utils';
+
+export interface ConversionRequest {
+  format: string;
+  options: ConversionOptions;
+  metadata: MetadataPolicy;
+  colorProfile?: ColorProfileMode;
+  targetSize?: TargetSizeRequest;
+  transform?: TransformOptions;
+  measureQuality?: boolean; // compute PSNR/SSIM against the original
+}
+
+/**
+ * Send one file to /api/convert-image. Throws with the server's error message
+ * when the conversion is rejected or fails. `onProgress` receives the upload
+ * and the server's conversion stages as they happen.
+ */
+export async function requestConversion(
+  file: File,
+  request: ConversionRequest,
+  onProgress?: (progress: ConversionProgress) => void
+): Promise<ConvertImageResult> {
+  const formData = new FormData();
+  formData.append('image', file);
+  formData.append('format', request.format);
+  formData.append('options', JSON.stringify(request.options));
+  formData.append('metadata', request.metadata);
+  if (request.colorProfile) {
+    formData.append('colorProfile', request.colorProfile);
+  }
+  if (request.targetSize) {
+    formData.append('targetSize', JSON.stringify(request.targetSize));
+  }
+  if (request.transform) {
+    formData.append('transform', JSON.stringify(request.transform));
+  }
+  if (request.measureQuality) {
+    formData.append('measureQuality', 'true');
+  }
+
+  return postWithProgress<ConvertImageResult>('/api/convert-image', formData, { onProgress });
+}
+
+/**
+ * Encode one file to every output format on the server and get back the
+ * comparison table with the smallest format that reaches `minSsim`.
+ */
+export async function requestFormatRecommendation(
+  file: File,
+  minSsim: number,
+  onProgress?: (progress: ConversionProgress) => void
+): Promise<FormatRecommendation> {
+  const formData = new FormData();
+  formData.append('image', file);
+  formData.append('minSsim', String(minSsim));
+
+  return postWithProgress<FormatRecommendation>('/api/convert-image/recommend', formData, { onProgress });
+}
+
+export interface ResponsiveSetOptions {
+  widths: number[];
+  formats: string[];
+  sizes: string;
+  alt: string;
+}
+
+/**
+ * Generate a responsive image set (every width in every format) with its
+ * <picture> snippet and manifest, returned as a base64 ZIP.
+ */
+export async function requestResponsiveSet(
+  file: File,
+  options: ResponsiveSetOptions,
+  onProgress?: (progress: ConversionProgress) => void
+): Promise<ResponsiveImageSetResult> {
+  const formData = new FormData();
+  formData.append('image', file);
+  formData.append('widths', options.widths.join(','));
+  formData.append('formats', options.formats.join(','));
+  formData.append('sizes', options.sizes);
+  formData.append('alt', options.alt);
+
+  return postWithProgress<ResponsiveImageSetResult>('/api/convert-image/srcset', formData, { onProgress });
+}
+
+/**
+ * Percentage of the original size saved by the conversion; negative when the
+ * converted file is larger.
+ */
+export function calculateSavings(originalSize: number, convertedSize: number): number {
+  return ((originalSize - convertedSize) / originalSize) * 100;
+}
+
+/**
+ * Bundle converted images into one ZIP. Files that end up with the same name
+ * (photo.png and photo.jpg both becoming photo.webp) get a numeric suffix.
+ */
+export async function buildConversionZip(results: ConvertImageResult[]): Promise<Blob> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  for (const result of results) {
+    zip.file(uniqueFilename(result.filename, usedNames), result.data, { base64: true });
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+}
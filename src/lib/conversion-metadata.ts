@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+import type { WriteTags } from 'exiftool-vendored';
+import { getExifTool, readGroupedTags, summarizeGroupedTag, withTempImage } from '@/lib/exiftool';
+import { stripMetadata } from '@/lib/metadata-strip';
+import { assignColorProfile, isAssignedProfile } from '@/lib/color-management';
+import { ColorProfileMode, ConversionMetadataReport, MetadataPolicy } from '@/types/exif';
+
+// Groups that carry metadata copied from the source. Format structure such as
+// PNG IHDR or the JFIF header is written by the encoder and is not reported.
+const EMBEDDED_METADATA_GROUPS = new Set(['EXIF', 'XMP', 'IPTC', 'ICC_Profile', 'MakerNotes', 'Photoshop']);
+
+export function isMetadataPolicy(value: unknown): value is MetadataPolicy {
+  return value === 'keep-all' || value === 'keep-safe' || value === 'icc-only' || value === 'strip';
+}
+
+/**
+ * Configure which metadata sharp copies from the input. sharp drops
+ * everything by default; 'keep-safe' copies it all and relies on
+ * finalizeConvertedMetadata to remove the sensitive tags afterwards.
+ */
+export function applyMetadataPolicy(pipeline: sharp.Sharp, policy: MetadataPolicy): sharp.Sharp {
+  switch (policy) {
+    case 'keep-all':
+    case 'keep-safe':
+      return pipeline.keepMetadata();
+    case 'icc-only':
+      return pipeline.keepIccProfile();
+    case 'strip':
+      return pipeline;
+  }
+}
+
+interface MetadataSource {
+  buffer: Buffer;
+  filename: string;
+}
+
+// Set a copied Orientation tag back to normal once the pixels are upright.
+// Returns whether there was one to reset.
+async function resetOrientation(filePath: string): Promise<boolean> {
+  const orientation = (await readGroupedTags(filePath)).some(tag => tag.tag === 'Orientation');
+  if (orientation) {
+    await getExifTool().write(filePath, { 'Orientation#': 1 } as WriteTags, {
+      writeArgs: ['-overwrite_original'],
+    });
+  }
+  return orientation;
+}
+
+/**
+ * Copy metadata from the original file for inputs sharp could not read
+ * metadata from (decoded HEIC). The pixels were already rotated by the
+ * decoder, so any copied orientation is reset to normal.
+ */
+async function copyMetadataFrom(filePath: string, source: MetadataSource, groups: string[]): Promise<string[]> {
+  return withTempImage(source.buffer, source.filename, async (sourcePath) => {
+    const copied = await getExifTool().write(filePath, {}, {
+      writeArgs: ['-tagsFromFile', sourcePath, ...groups, '-overwrite_original'],
+    });
+
+    if (groups.includes('-EXIF:All')) {
+      await resetOrientation(filePath);
+    }
+
+    return copied.warnings || [];
+  });
+}
+
+// Metadata groups the policy and color mode keep from a HEIC original
+function copiedGroups(policy: MetadataPolicy, colorProfile: ColorProfileMode): string[] {
+  const groups = policy === 'keep-all' || policy === 'keep-safe' ? ['-EXIF:All', '-XMP:All'] : [];
+  if (colorProfile === 'preserve' || (colorProfile === 'auto' && policy !== 'strip')) {
+    groups.push('-ICC_Profile');
+  }
+  return groups;
+}
+
+interface FinalizeOptions {
+  source?: MetadataSource; // the original, when the encoder never saw its metadata
+  oriented?: boolean;      // the EXIF orientation was applied to the pixels
+  colorProfile?: ColorProfileMode;
+}
+
+/**
+ * Enforce the policy on the encoded output and report the metadata that
+ * survived. The report comes from re-reading the converted file, so it shows
+ * what is actually embedded rather than what was requested. sharp keeps
+ * the Orientation tag even when its explicit rotation made the pixels
+ * upright, so `oriented` resets it. Assigned color profiles are written
+ * here too, as sharp can only attach a profile by converting to it.
+ */
+export async function finalizeConvertedMetadata(
+  buffer: Buffer,
+  format: string,
+  policy: MetadataPolicy,
+  { source, oriented = false, colorProfile = 'auto' }: FinalizeOptions = {}
+): Promise<{ buffer: Buffer; report: ConversionMetadataReport }> {
+  return withTempImage(buffer, `converted.${format}`, async (filePath) => {
+    let warnings: string[] = [];
+    const groups = source ? copiedGroups(policy, colorProfile) : [];
+    let rewritten = groups.length > 0;
+
+    if (source && groups.length > 0) {
+      warnings = await copyMetadataFrom(filePath, source, groups);
+    } else if (oriented && (policy === 'keep-all' || policy === 'keep-safe')) {
+      rewritten = await resetOrientation(filePath);
+    }
+
+    if (isAssignedProfile(colorProfile)) {
+      warnings = [...warnings, ...await assignColorProfile(filePath, colorProfile)];
+      rewritten = true;
+    } else if (source && colorProfile === 'srgb') {
+      warnings.push('Decoded HEIC colors cannot be converted; the sRGB profile was embedded as is');
+    }
+
+    if (policy === 'keep-safe') {
+      const manifest = await stripMetadata(filePath, 'high-medium');
+      warnings = [...warnings, ...manifest.warnings];
+    }
+
+    const embedded = (await readGroupedTags(filePath))
+      .filter(tag => EMBEDDED_METADATA_GROUPS.has(tag.group0));
+    const retained = embedded.map(summarizeGroupedTag);
+    const profile = embedded.find(tag => tag.group0 === 'ICC_Profile' && tag.tag === 'ProfileDescription');
+
+    if (!profile && colorProfile === 'srgb') {
+      warnings.push(`${format.toUpperCase()} output cannot carry a color profile; colors were converted but left untagged`);
+    }
+
+    const unexpected = retained.filter(tag => tag.category !== 'safe');
+    if (policy === 'keep-safe' && unexpected.length > 0) {
+      warnings.push(`${unexpected.length} sensitive tag(s) could not be removed from this format`);
+    }
+
+    return {
+      buffer: rewritten || policy === 'keep-safe' ? await fs.readFile(filePath) : buffer,
+      report: { policy, retained, warnings, colorProfile: profile && String(profile.value) },
+    };
+  });
+}
@@ -0,0 +1,312 @@
+import {
+  ChromaSubsampling, ConversionOptions, CropRegion, OUTPUT_FORMATS, ResizeFit, RotationAngle, TargetSizeRequest, TransformOptions
+} from '@/types/exif';
+
+export type EncoderOption = 'quality' | 'lossless' | 'chromaSubsampling' | 'effort' | 'progressive';
+
+export interface FormatCapabilities {
+  options: EncoderOption[];
+  effortRange?: [number, number];
+  defaults: ConversionOptions;
+}
+
+// Encoder options each target format understands, with the defaults the
+// converter used before they were configurable. Resizing applies to every format.
+export const FORMAT_CAPABILITIES: Record<string, FormatCapabilities> = {
+  jpeg: {
+    options: ['quality', 'chromaSubsampling', 'progressive'],
+    defaults: { quality: 85, chromaSubsampling: '4:2:0', progressive: true },
+  },
+  jpg: {
+    options: ['quality', 'chromaSubsampling', 'progressive'],
+    defaults: { quality: 85, chromaSubsampling: '4:2:0', progressive: true },
+  },
+  png: {
+    // PNG "effort" is the zlib compression level
+    options: ['effort', 'progressive'],
+    effortRange: [0, 9],
+    defaults: { effort: 9, progressive: true },
+  },
+  webp: {
+    options: ['quality', 'lossless', 'effort'],
+    effortRange: [0, 6],
+    defaults: { quality: 85, lossless: false, effort: 6 },
+  },
+  avif: {
+    options: ['quality', 'lossless', 'chromaSubsampling', 'effort'],
+    effortRange: [0, 9],
+    defaults: { quality: 85, lossless: false, chromaSubsampling: '4:4:4', effort: 9 },
+  },
+  tiff: {
+    options: [],
+    defaults: {},
+  },
+  gif: {
+    options: ['effort'],
+    effortRange: [1, 10],
+    defaults: { effort: 7 },
+  },
+};
+
+export const OPTION_LABELS: Record<EncoderOption, string> = {
+  quality: 'Quality',
+  lossless: 'Lossless',
+  chromaSubsampling: 'Chroma subsampling',
+  effort: 'Encoder effort',
+  progressive: 'Progressive / interlaced',
+};
+
+export const CHROMA_SUBSAMPLING_VALUES: ChromaSubsampling[] = ['4:4:4', '4:2:0'];
+
+export const RESIZE_FITS: { value: ResizeFit; label: string }[] = [
+  { value: 'inside', label: 'Fit inside (keep aspect)' },
+  { value: 'cover', label: 'Cover (crop to fill)' },
+  { value: 'contain', label: 'Contain (letterbox)' },
+  { value: 'fill', label: 'Stretch to fill' },
+  { value: 'outside', label: 'Fit outside (keep aspect)' },
+];
+
+export const MAX_OUTPUT_DIMENSION = 16384;
+
+const KNOWN_OPTIONS = new Set<string>(['quality', 'lossless', 'chromaSubsampling', 'effort', 'progressive', 'width', 'height', 'fit']);
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate a raw options object for the given target format. Returns the typed
+ * options merged over the format defaults, or an error message describing the
+ * first problem found.
+ */
+export function parseConversionOptions(
+  raw: unknown,
+  format: string
+): { options: ConversionOptions } | { error: string } {
+  const capabilities = FORMAT_CAPABILITIES[format];
+  if (!capabilities) return { error: `Unsupported target format: ${format}` };
+
+  if (raw === undefined || raw === null) {
+    return { options: { ...capabilities.defaults } };
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Options must be a JSON object' };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const options: ConversionOptions = { ...capabilities.defaults };
+
+  for (const key of Object.keys(input)) {
+    if (!KNOWN_OPTIONS.has(key)) return { error: `Unknown option: ${key}` };
+
+    const value = input[key];
+    if (value === undefined || value === null) continue;
+
+    if (key !== 'width' && key !== 'height' && key !== 'fit' &&
+      !capabilities.options.includes(key as EncoderOption)) {
+      return { error: `${OPTION_LABELS[key as EncoderOption]} is not supported for ${format.toUpperCase()} output` };
+    }
+
+    switch (key) {
+      case 'quality':
+        if (!isInteger(value, 1, 100)) return { error: 'Quality must be a whole number from 1 to 100' };
+        options.quality = value;
+        break;
+
+      case 'effort': {
+        const [min, max] = capabilities.effortRange!;
+        if (!isInteger(value, min, max)) {
+          return { error: `Effort for ${format.toUpperCase()} must be a whole number from ${min} to ${max}` };
+        }
+        options.effort = value;
+        break;
+      }
+
+      case 'lossless':
+      case 'progressive':
+        if (typeof value !== 'boolean') return { error: `${OPTION_LABELS[key]} must be true or false` };
+        options[key] = value;
+        break;
+
+      case 'chromaSubsampling':
+        if (!CHROMA_SUBSAMPLING_VALUES.includes(value as ChromaSubsampling)) {
+          return { error: `Chroma subsampling must be one of ${CHROMA_SUBSAMPLING_VALUES.join(', ')}` };
+        }
+        options.chromaSubsampling = value as ChromaSubsampling;
+        break;
+
+      case 'width':
+      case 'height':
+        if (!isInteger(value, 1, MAX_OUTPUT_DIMENSION)) {
+          return { error: `${key === 'width' ? 'Width' : 'Height'} must be a whole number from 1 to ${MAX_OUTPUT_DIMENSION}` };
+        }
+        options[key] = value;
+        break;
+
+      case 'fit':
+        if (!RESIZE_FITS.some(fit => fit.value === value)) {
+          return { error: `Fit must be one of ${RESIZE_FITS.map(fit => fit.value).join(', ')}` };
+        }
+        options.fit = value as ResizeFit;
+        break;
+    }
+  }
+
+  if (options.fit && options.width === undefined && options.height === undefined) {
+    return { error: 'Fit requires a target width or height' };
+  }
+
+  return { options };
+}
+
+export const MIN_TARGET_SIZE = 1024;
+export const MAX_TARGET_SIZE = 50 * 1024 * 1024;
+
+// The target size search varies quality, so it needs a lossy encoder with a quality setting
+export function supportsTargetSize(format: string): boolean {
+  return FORMAT_CAPABILITIES[format]?.options.includes('quality') ?? false;
+}
+
+/**
+ * Validate a raw target size request against the target format and the
+ * already parsed encoder options.
+ */
+export function parseTargetSize(
+  raw: unknown,
+  format: string,
+  options: ConversionOptions
+): { target: TargetSizeRequest } | { error: string } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { error: 'Target size must be a JSON object' };
+  }
+
+  const { bytes, allowResize = false, ...rest } = raw as Record<string, unknown>;
+  const unknown = Object.keys(rest)[0];
+  if (unknown !== undefined) return { error: `Unknown target size field: ${unknown}` };
+
+  if (!supportsTargetSize(format)) {
+    return { error: `Target size is not supported for ${format.toUpperCase()} output; use JPEG, WebP or AVIF` };
+  }
+  if (options.lossless) {
+    return { error: 'Target size cannot be combined with lossless encoding' };
+  }
+  if (!isInteger(bytes, MIN_TARGET_SIZE, MAX_TARGET_SIZE)) {
+    return { error: `Target size must be a whole number of bytes from ${MIN_TARGET_SIZE} to ${MAX_TARGET_SIZE}` };
+  }
+  if (typeof allowResize !== 'boolean') {
+    return { error: 'allowResize must be true or false' };
+  }
+
+  return { target: { bytes, allowResize } };
+}
+
+export const ROTATION_ANGLES: RotationAngle[] = [0, 90, 180, 270];
+
+export const NO_TRANSFORM: TransformOptions = { autoOrient: false, rotate: 0, flip: false, flop: false };
+
+// Crop, rotation and flips change the geometry; auto-orienting alone only undoes the EXIF rotation
+export function isGeometricTransform(transform: TransformOptions): boolean {
+  return transform.crop !== undefined || transform.rotate !== 0 || transform.flip || transform.flop;
+}
+
+// JPEG and WebP top out at 65535 pixels a side; the real bounds are checked against the image
+const MAX_CROP_COORDINATE = 65535;
+
+/**
+ * Validate a raw transform request. Crop bounds are checked against the
+ * image later, once its oriented size is known. A request with a crop,
+ * rotation or flip is returned with autoOrient set, as those work on the
+ * image as it is displayed.
+ */
+export function parseTransformOptions(raw: unknown): { transform: TransformOptions } | { error: string } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { error: 'Transform must be a JSON object' };
+  }
+
+  const { autoOrient = false, crop, rotate = 0, flip = false, flop = false, ...rest } = raw as Record<string, unknown>;
+  const unknown = Object.keys(rest)[0];
+  if (unknown !== undefined) return { error: `Unknown transform field: ${unknown}` };
+
+  for (const [name, value] of Object.entries({ autoOrient, flip, flop })) {
+    if (typeof value !== 'boolean') return { error: `${name} must be true or false` };
+  }
+  if (!ROTATION_ANGLES.includes(rotate as RotationAngle)) {
+    return { error: `Rotate must be one of ${ROTATION_ANGLES.join(', ')} degrees` };
+  }
+
+  let region: CropRegion | undefined;
+  if (crop !== undefined && crop !== null) {
+    if (typeof crop !== 'object' || Array.isArray(crop)) {
+      return { error: 'Crop must be an object with left, top, width and height' };
+    }
+    const { left, top, width, height } = crop as Record<string, unknown>;
+    if (!isInteger(left, 0, MAX_CROP_COORDINATE) || !isInteger(top, 0, MAX_CROP_COORDINATE)) {
+      return { error: 'Crop left and top must be whole numbers of pixels from 0' };
+    }
+    if (!isInteger(width, 1, MAX_CROP_COORDINATE) || !isInteger(height, 1, MAX_CROP_COORDINATE)) {
+      return { error: 'Crop width and height must be whole numbers of pixels from 1' };
+    }
+    region = { left, top, width, height };
+  }
+
+  const transform: TransformOptions = {
+    autoOrient: autoOrient as boolean,
+    crop: region,
+    rotate: rotate as RotationAngle,
+    flip: flip as boolean,
+    flop: flop as boolean,
+  };
+  return { transform: { ...transform, autoOrient: transform.autoOrient || isGeometricTransform(transform) } };
+}
+
+export const SRCSET_WIDTH_PRESETS = [320, 640, 960, 1280, 1920, 2560];
+export const DEFAULT_SRCSET_WIDTHS = [320, 640, 1280, 1920];
+export const DEFAULT_SRCSET_FORMATS = ['avif', 'webp', 'jpeg'];
+export const MAX_SRCSET_WIDTHS = 8;
+// Formats a browser can show from a <picture>; TIFF is not one
+export const SRCSET_FORMATS = OUTPUT_FORMATS.filter(format => format.extension !== 'tiff');
+
+/**
+ * Parse a comma separated list of output widths, e.g. "320,640,1280".
+ * Returns the widths sorted and deduplicated.
+ */
+export function parseSrcsetWidths(value: string): { widths: number[] } | { error: string } {
+  const widths = new Set<number>();
+
+  for (const part of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const width = Number(part);
+    if (!isInteger(width, 16, MAX_OUTPUT_DIMENSION)) {
+      return { error: `Widths must be whole numbers from 16 to ${MAX_OUTPUT_DIMENSION}; got "${part}"` };
+    }
+    widths.add(width);
+  }
+
+  if (widths.size === 0) return { error: 'At least one width is required' };
+  if (widths.size > MAX_SRCSET_WIDTHS) return { error: `At most ${MAX_SRCSET_WIDTHS} widths can be generated` };
+
+  return { widths: [...widths].sort((a, b) => a - b) };
+}
+
+/**
+ * Parse a comma separated list of output formats, e.g. "avif,webp,jpeg".
+ * JPG and JPEG are the same format, so only the first one listed is kept.
+ */
+export function parseSrcsetFormats(value: string): { formats: string[] } | { error: string } {
+  const formats: string[] = [];
+  const mimeTypes = new Set<string>();
+
+  for (const part of value.split(',').map(part => part.trim().toLowerCase()).filter(Boolean)) {
+    const format = SRCSET_FORMATS.find(candidate => candidate.extension === part);
+    if (!format) {
+      return { error: `Unsupported format "${part}"; use ${SRCSET_FORMATS.map(candidate => candidate.extension).join(', ')}` };
+    }
+    if (!mimeTypes.has(format.mimeType)) {
+      mimeTypes.add(format.mimeType);
+      formats.push(format.extension);
+    }
+  }
+
+  if (formats.length === 0) return { error: 'At least one format is required' };
+
+  return { formats };
+}
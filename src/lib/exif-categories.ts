@@ -1,4 +1,5 @@
 import { ExifTag } from '@/types/exif';
+import { toWallClock } from '@/lib/capture-time';
 
 // COMPREHENSIVE EXIF Privacy Classification based on research findings
 export const EXIF_PRIVACY_CATEGORIES = {
@@ -13,6 +14,8 @@ export const EXIF_PRIVACY_CATEGORIES = {
     // Date/Time - Can reveal personal patterns and routines
     'DateTimeOriginal', 'DateTimeDigitized', 'DateTime', 'CreateDate', 'ModifyDate',
     'FileModifyDate', 'FileAccessDate', 'FileCreateDate',
+    'OffsetTime', 'OffsetTimeOriginal', 'OffsetTimeDigitized',
+    'SubSecTime', 'SubSecTimeOriginal', 'SubSecTimeDigitized',
 
     // Personal/Identity Information
     'Artist', 'Copyright', 'OwnerName', 'CameraOwnerName', 'Creator', 'Publisher', 'Rights',
@@ -98,6 +101,8 @@ export const EXIF_TAG_NAMES: Record<string, string> = {
   // EXIF Tags  
   '33434': 'ExposureTime', '33437': 'FNumber', '34855': 'ISO', '34850': 'ExposureProgram',
   '36864': 'ExifVersion', '36867': 'DateTimeOriginal', '36868': 'DateTimeDigitized',
+  '36880': 'OffsetTime', '36881': 'OffsetTimeOriginal', '36882': 'OffsetTimeDigitized',
+  '37520': 'SubSecTime', '37521': 'SubSecTimeOriginal', '37522': 'SubSecTimeDigitized',
   '37121': 'ComponentsConfiguration', '37377': 'ShutterSpeedValue', '37378': 'ApertureValue',
   '37380': 'ExposureBiasValue', '37381': 'MaxApertureValue', '37383': 'MeteringMode',
   '37384': 'LightSource', '37385': 'Flash', '37386': 'FocalLength', '37510': 'UserComment',
@@ -136,6 +141,12 @@ export const EXIF_TAG_DESCRIPTIONS: Record<string, string> = {
   'DateTimeOriginal': 'Date and time when the image was originally captured - can reveal personal patterns',
   'DateTimeDigitized': 'Date and time when the image was digitized',
   'DateTime': 'Date and time when the image file was last modified',
+  'OffsetTimeOriginal': 'UTC offset of the camera clock at capture - narrows down where the image was taken',
+  'OffsetTimeDigitized': 'UTC offset of the camera clock when the image was digitized',
+  'OffsetTime': 'UTC offset of the camera clock when the file was last modified',
+  'SubSecTimeOriginal': 'Fractions of a second for the capture time',
+  'SubSecTimeDigitized': 'Fractions of a second for the digitized time',
+  'SubSecTime': 'Fractions of a second for the modification time',
 
   // Personal Information (HIGH RISK)
   'Artist': 'Name of the image creator or photographer',
@@ -336,7 +347,8 @@ export function processExifData(rawData: Record<string, any>): ExifTag[] {
         // For arrays, show them nicely formatted
         displayValue = value;
       } else if (value instanceof Date) {
-        displayValue = value.toISOString();
+        // EXIF dates are camera local time; a UTC ISO string would shift them
+        displayValue = toWallClock(value);
       } else {
         // For other objects, stringify but limit length
         const stringified = JSON.stringify(value);
@@ -356,8 +368,12 @@ export function processExifData(rawData: Record<string, any>): ExifTag[] {
     });
   }
   
+  return sortExifTags(processedTags);
+}
+
+export function sortExifTags(tags: ExifTag[]): ExifTag[] {
   // Sort by category (high risk first) and then alphabetically
-  return processedTags.sort((a, b) => {
+  return tags.sort((a, b) => {
     const categoryOrder = { high: 0, medium: 1, safe: 2 };
     if (categoryOrder[a.category] !== categoryOrder[b.category]) {
       return categoryOrder[a.category] - categoryOrder[b.category];
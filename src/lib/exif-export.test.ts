@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { buildExifCsv, buildExifJson, ExportFilter } from '@/lib/exif-export';
+import { ExifTag, ProcessedExifData } from '@/types/exif';
+
+const ALL: ExportFilter = { category: 'all', searchTerm: '' };
+
+function exifData(gpsData?: ProcessedExifData['gpsData']): ProcessedExifData {
+  return {
+    tags: [],
+    imageInfo: { format: 'jpeg', width: 4000, height: 3000, size: 123456, filename: 'photo.jpg' },
+    gpsData,
+  };
+}
+
+function csvRows(csv: string): string[] {
+  return csv.split('\r\n');
+}
+
+describe('buildExifCsv', () => {
+  it('quotes values that a spreadsheet would run as formulas', () => {
+    const tags: ExifTag[] = [
+      { tag: 'Artist', value: '=HYPERLINK("http://x")', category: 'medium' },
+      { tag: 'Software', value: '-2+3', category: 'safe' },
+      { tag: 'Copyright', value: '@SUM(A1)', category: 'medium' },
+    ];
+    const rows = csvRows(buildExifCsv(exifData(), tags, ALL));
+
+    expect(rows).toContain('Artist,medium,,"\'=HYPERLINK(""http://x"")"');
+    expect(rows).toContain("Software,safe,,'-2+3");
+    expect(rows).toContain("Copyright,medium,,'@SUM(A1)");
+  });
+
+  it('leaves plain numbers numeric, including negative ones', () => {
+    const tags: ExifTag[] = [
+      { tag: 'ExposureCompensation', value: -0.7, category: 'safe' },
+      { tag: 'ISO', value: 400, category: 'safe' },
+    ];
+    const rows = csvRows(buildExifCsv(exifData({ latitude: -33.8568, longitude: 151.2153 }), tags, ALL));
+
+    expect(rows).toContain('ExposureCompensation,safe,,-0.7');
+    expect(rows).toContain('ISO,safe,,400');
+    expect(rows).toContain('GPS.Latitude,high,Decimal latitude,-33.8568');
+  });
+
+  it('writes GPS rows only when the filter would show them', () => {
+    const data = exifData({ latitude: 48.8584, longitude: 2.2945 });
+
+    expect(buildExifCsv(data, [], { category: 'high', searchTerm: '' })).toContain('GPS.Latitude');
+    expect(buildExifCsv(data, [], { category: 'safe', searchTerm: '' })).not.toContain('GPS.');
+    expect(buildExifCsv(data, [], { category: 'all', searchTerm: 'longitude' })).toContain('GPS.Longitude');
+    expect(buildExifCsv(data, [], { category: 'all', searchTerm: 'iso' })).not.toContain('GPS.');
+  });
+});
+
+describe('buildExifJson', () => {
+  it('omits the GPS block outside the filter', () => {
+    const data = exifData({ latitude: 48.8584, longitude: 2.2945 });
+
+    expect(JSON.parse(buildExifJson(data, [], ALL)).gpsData).toEqual({ latitude: 48.8584, longitude: 2.2945 });
+    expect(JSON.parse(buildExifJson(data, [], { category: 'medium', searchTerm: '' })).gpsData).toBeNull();
+  });
+});
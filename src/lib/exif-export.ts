@@ -0,0 +1,221 @@
+import { ExifTag, GpsData, ProcessedExifData, PRIVACY_CATEGORIES } from '@/types/exif';
+import { formatFileSize } from '@/lib/utils';
+import { describeGpsDetails } from '@/lib/gps-data';
+
+export type ExportFormat = 'json' | 'csv' | 'html';
+
+export interface ExportFilter {
+  category: 'all' | 'high' | 'medium' | 'safe';
+  searchTerm: string;
+}
+
+export interface ExifExport {
+  content: string;
+  mimeType: string;
+  filename: string;
+}
+
+function exportValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Spreadsheets run cells starting with these as formulas; tag values come
+// from the image, so a leading quote keeps them as plain text. Plain numbers
+// such as negative coordinates cannot run and stay numeric.
+function escapeCsv(value: string): string {
+  const formula = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value);
+  const text = formula ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function describeFilter(filter: ExportFilter): string {
+  const parts = [filter.category === 'all' ? 'all categories' : `${filter.category} risk only`];
+  if (filter.searchTerm) {
+    parts.push(`matching "${filter.searchTerm}"`);
+  }
+  return parts.join(', ');
+}
+
+// The GPS block as tag-like rows, named the way the CSV export writes them
+function gpsRows(gps: GpsData): { tag: string; description: string; value: string }[] {
+  return [
+    { tag: 'GPS.Latitude', description: 'Decimal latitude', value: String(gps.latitude) },
+    { tag: 'GPS.Longitude', description: 'Decimal longitude', value: String(gps.longitude) },
+    ...describeGpsDetails(gps).map(detail => ({ tag: `GPS.${detail.key}`, description: detail.label, value: detail.value })),
+  ];
+}
+
+/**
+ * The GPS block is high-risk location data, so it is only exported when the
+ * filter would show it: a category that includes high-risk tags, and a search
+ * term matching one of its rows the way the tag table matches name or value.
+ */
+function exportedGps(data: ProcessedExifData, filter: ExportFilter): GpsData | undefined {
+  const gps = data.gpsData;
+  if (!gps || (filter.category !== 'all' && filter.category !== 'high')) return undefined;
+  if (filter.searchTerm === '') return gps;
+
+  const term = filter.searchTerm.toLowerCase();
+  return gpsRows(gps).some(row => row.tag.toLowerCase().includes(term) || row.value.toLowerCase().includes(term))
+    ? gps
+    : undefined;
+}
+
+export function buildExifJson(data: ProcessedExifData, tags: ExifTag[], filter: ExportFilter): string {
+  return JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    filter,
+    imageInfo: data.imageInfo,
+    gpsData: exportedGps(data, filter) ?? null,
+    tags: tags.map(tag => ({
+      tag: tag.tag,
+      category: tag.category,
+      description: tag.description ?? '',
+      value: tag.value,
+      ...(tag.group ? { group: tag.group } : {}),
+    })),
+  }, null, 2);
+}
+
+/**
+ * One row per tag. Image info and GPS are written as leading rows in the same
+ * tag/category/description/value shape so the file stays a single table.
+ */
+export function buildExifCsv(data: ProcessedExifData, tags: ExifTag[], filter: ExportFilter): string {
+  const rows: string[][] = [['Tag', 'Category', 'Description', 'Value']];
+
+  rows.push(['Image.Filename', '', 'Image filename', data.imageInfo.filename]);
+  rows.push(['Image.Format', '', 'Image format', data.imageInfo.format]);
+  rows.push(['Image.Dimensions', '', 'Width x height in pixels', `${data.imageInfo.width}x${data.imageInfo.height}`]);
+  rows.push(['Image.Size', '', 'File size in bytes', String(data.imageInfo.size)]);
+
+  const gps = exportedGps(data, filter);
+  if (gps) {
+    for (const row of gpsRows(gps)) {
+      rows.push([row.tag, 'high', row.description, row.value]);
+    }
+  }
+
+  for (const tag of tags) {
+    rows.push([tag.tag, tag.category, tag.description ?? '', exportValue(tag.value)]);
+  }
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+}
+
+export function buildExifHtmlReport(data: ProcessedExifData, tags: ExifTag[], filter: ExportFilter): string {
+  const { imageInfo } = data;
+  const gpsData = exportedGps(data, filter);
+  const rowColors = { high: '#fee2e2', medium: '#fef9c3', safe: '#dcfce7' };
+
+  const tagRows = tags.map(tag => `
+        <tr style="background:${rowColors[tag.category]}">
+          <td>${escapeHtml(tag.tag)}</td>
+          <td>${PRIVACY_CATEGORIES[tag.category].label}</td>
+          <td>${escapeHtml(tag.description ?? '')}</td>
+          <td class="value">${escapeHtml(exportValue(tag.value))}</td>
+        </tr>`).join('');
+
+  const gpsSection = gpsData ? `
+    <h2>GPS Location</h2>
+    <table>
+      <tr><th>Latitude</th><td>${gpsData.latitude.toFixed(6)}</td></tr>
+      <tr><th>Longitude</th><td>${gpsData.longitude.toFixed(6)}</td></tr>
+      ${describeGpsDetails(gpsData).map(detail => `<tr><th>${detail.label}</th><td>${escapeHtml(detail.value)}</td></tr>`).join('')}
+    </table>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>EXIF Report - ${escapeHtml(imageInfo.filename)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+    h1 { margin-bottom: 0.25rem; }
+    .meta { color: #555; margin-bottom: 1.5rem; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; font-size: 0.85rem; }
+    th, td { border: 1px solid #ccc; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+    th { background: #f3f4f6; }
+    .value { font-family: ui-monospace, monospace; word-break: break-all; }
+    @media print { body { margin: 0; } tr { break-inside: avoid; } }
+  </style>
+</head>
+<body>
+  <h1>EXIF Metadata Report</h1>
+  <p class="meta">Generated ${escapeHtml(new Date().toLocaleString())} by ExifLab &middot; ${tags.length} tags (${escapeHtml(describeFilter(filter))})</p>
+
+  <h2>Image</h2>
+  <table>
+    <tr><th>Filename</th><td>${escapeHtml(imageInfo.filename)}</td></tr>
+    <tr><th>Format</th><td>${escapeHtml(imageInfo.format)}</td></tr>
+    <tr><th>Dimensions</th><td>${imageInfo.width} &times; ${imageInfo.height}</td></tr>
+    <tr><th>Size</th><td>${formatFileSize(imageInfo.size)}</td></tr>
+  </table>
+  ${gpsSection}
+  <h2>Tags</h2>
+  <table>
+    <thead>
+      <tr><th>Tag</th><th>Category</th><th>Description</th><th>Value</th></tr>
+    </thead>
+    <tbody>${tagRows}
+    </tbody>
+  </table>
+</body>
+</html>`;
+}
+
+export function buildExifExport(
+  format: ExportFormat,
+  data: ProcessedExifData,
+  tags: ExifTag[],
+  filter: ExportFilter
+): ExifExport {
+  const baseName = data.imageInfo.filename.replace(/\.[^.]+$/, '') || 'image';
+
+  switch (format) {
+    case 'json':
+      return {
+        content: buildExifJson(data, tags, filter),
+        mimeType: 'application/json',
+        filename: `${baseName}-exif.json`,
+      };
+    case 'csv':
+      return {
+        content: buildExifCsv(data, tags, filter),
+        mimeType: 'text/csv',
+        filename: `${baseName}-exif.csv`,
+      };
+    case 'html':
+      return {
+        content: buildExifHtmlReport(data, tags, filter),
+        mimeType: 'text/html',
+        filename: `${baseName}-exif-report.html`,
+      };
+  }
+}
+
+/**
+ * Open the HTML report in a new window and bring up the print dialog, where
+ * the browser's "Save as PDF" destination produces the PDF.
+ */
+export function printExifReport(data: ProcessedExifData, tags: ExifTag[], filter: ExportFilter): boolean {
+  const reportWindow = window.open('', '_blank');
+  if (!reportWindow) return false;
+
+  reportWindow.document.write(buildExifHtmlReport(data, tags, filter));
+  reportWindow.document.close();
+  reportWindow.focus();
+  reportWindow.print();
+  return true;
+}
@@ -0,0 +1,215 @@
+import { readCaptureTime } from '@/lib/capture-time';
+import { getTagDescription, processExifData, sortExifTags } from '@/lib/exif-categories';
+import { decodeGpsTags } from '@/lib/gps-data';
+import { isHeic } from '@/lib/heic';
+import { parseIccProfile } from '@/lib/icc-profile';
+import { reverseGeocode } from '@/lib/reverse-geocode';
+import type { ProgressReporter } from '@/lib/progress-stream';
+import { ExifTag, GeocodedPlace, IccProfileInfo, ProcessedExifData } from '@/types/exif';
+
+interface ExtractionOptions {
+  // Also run exiftool for MakerNotes, full XMP, ICC profile and composite tags
+  deepScan?: boolean;
+  onProgress?: ProgressReporter;
+}
+
+function toDisplayValue(value: unknown): unknown {
+  if (typeof value === 'string' && value.length > 200) {
+    return value.substring(0, 200) + '...';
+  }
+  return value;
+}
+
+/**
+ * What the EXIF ColorSpace tag claims, for files without an ICC profile.
+ * Cameras set to Adobe RGB write Uncalibrated, as EXIF only names sRGB.
+ */
+function describeExifColorSpace(exifData: Record<string, unknown>): string | undefined {
+  // exifr keys are untranslated tag IDs; 40961 is ColorSpace
+  const colorSpace = exifData['40961'] ?? exifData.ColorSpace;
+  if (colorSpace === 1) return 'sRGB';
+  if (colorSpace === 65535) return 'Uncalibrated (usually Adobe RGB)';
+  return undefined;
+}
+
+/**
+ * Read every embedded tag with exiftool. Unlike exifr this understands vendor
+ * MakerNotes and ICC profiles, at the cost of a temp file and a perl process.
+ */
+async function extractDeepTags(file: File, buffer: Buffer): Promise<ExifTag[]> {
+  const { withTempImage, readGroupedTags, categorizeGroupedTag } = await import('@/lib/exiftool');
+
+  const grouped = await withTempImage(buffer, file.name, (filePath) =>
+    readGroupedTags(filePath, { includeComposite: true })
+  );
+
+  return grouped.map(tag => ({
+    tag: tag.tag,
+    value: toDisplayValue(tag.value),
+    description: getTagDescription(tag.tag, tag.value),
+    category: categorizeGroupedTag(tag),
+    group: tag.group0 === tag.group1 ? tag.group0 : `${tag.group0}:${tag.group1}`,
+    source: 'exiftool',
+  }));
+}
+
+/**
+ * Parse EXIF, GPS and image dimensions from an uploaded image. Failures of the
+ * individual parsers are logged and tolerated so callers always get at least
+ * the basic file information back.
+ */
+export async function extractExifData(
+  file: File,
+  buffer: Buffer,
+  requestId: string,
+  options: ExtractionOptions = {}
+): Promise<ProcessedExifData> {
+  // Parse EXIF with EXIFR library (with error handling)
+  let exifData: any = {};
+  let gpsData: ProcessedExifData['gpsData'] = undefined;
+  const heic = isHeic(buffer);
+  const report: ProgressReporter = options.onProgress ?? (() => {});
+
+  report('parsing', 10, 'Parsing EXIF, IPTC and GPS data...');
+  try {
+    const exifr = (await import('exifr')).default;
+
+    // Extract EXIF data with optimized options
+    exifData = await exifr.parse(buffer, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      iptc: true,
+      // PNG header fields use numeric keys that would collide with GPS tag IDs
+      ihdr: false,
+      mergeOutput: true,
+      translateKeys: false,
+      translateValues: false,
+      reviveValues: true,
+      sanitize: true,
+      firstChunkSize: 40960,
+      chunkSize: 65536
+    }) || {};
+    // exifr reports parser failures inline instead of throwing
+    delete exifData.errors;
+
+    // Read the GPS IFD on its own with named keys; in the merged output its
+    // numeric tag IDs collide with IFD0's
+    try {
+      const gpsBlock = await exifr.parse(buffer, {
+        exif: false,
+        gps: true,
+        mergeOutput: false,
+        translateValues: false,
+        reviveValues: true,
+      });
+      gpsData = decodeGpsTags(gpsBlock?.gps);
+      if (gpsData) {
+        console.log(`📍 [${requestId}] GPS found: ${gpsData.latitude.toFixed(6)}, ${gpsData.longitude.toFixed(6)}`);
+      }
+    } catch {
+      // GPS extraction failure is not critical
+      console.log(`⚠️ [${requestId}] GPS extraction failed (non-critical)`);
+    }
+
+  } catch (exifrError) {
+    console.error(`❌ [${requestId}] EXIFR failed:`, exifrError instanceof Error ? exifrError.message : exifrError);
+
+    // Continue with basic file info even if EXIFR fails
+    exifData = {};
+  }
+
+  // Get image dimensions
+  report('dimensions', 50, 'Reading image dimensions...');
+  let imageWidth = 0;
+  let imageHeight = 0;
+  let format = file.type.split('/')[1] || 'unknown';
+  let iccProfile: IccProfileInfo | undefined;
+
+  try {
+    const sharp = (await import('sharp')).default;
+    const metadata = await sharp(buffer).metadata();
+    imageWidth = metadata.width || 0;
+    imageHeight = metadata.height || 0;
+    format = heic ? 'heic' : metadata.format || format;
+    iccProfile = metadata.icc && parseIccProfile(metadata.icc);
+  } catch {
+    // Fallback to EXIF dimensions
+    imageWidth = exifData?.ExifImageWidth || exifData?.ImageWidth || 0;
+    imageHeight = exifData?.ExifImageHeight || exifData?.ImageHeight || 0;
+  }
+
+  // Prepare tags for processing
+  const tags: Record<string, any> = {
+    FileName: file.name,
+    FileSize: file.size,
+    FileType: format,
+    MIMEType: file.type,
+    ImageWidth: imageWidth,
+    ImageHeight: imageHeight,
+    ...exifData
+  };
+
+  const processedTags: ExifTag[] = processExifData(tags).map(tag => ({ ...tag, source: 'exifr' }));
+  const errors: string[] = [];
+
+  // exifr cannot locate the EXIF item in every HEIC encoder's output, so HEIC
+  // always gets the exiftool pass, including GPS
+  if (heic && !gpsData) {
+    try {
+      const { withTempImage, readGpsPosition } = await import('@/lib/exiftool');
+      gpsData = await withTempImage(buffer, file.name, readGpsPosition);
+    } catch (exiftoolError) {
+      console.error(`❌ [${requestId}] exiftool GPS read failed:`, exiftoolError instanceof Error ? exiftoolError.message : exiftoolError);
+    }
+  }
+
+  // Offline lookup against the bundled gazetteer; the coordinates never leave the server
+  let place: GeocodedPlace | undefined;
+  if (gpsData) {
+    try {
+      place = await reverseGeocode(gpsData.latitude, gpsData.longitude);
+    } catch (geocodeError) {
+      console.error(`❌ [${requestId}] Reverse geocoding failed:`, geocodeError instanceof Error ? geocodeError.message : geocodeError);
+    }
+  }
+
+  const captureTime = readCaptureTime(exifData ?? {}, gpsData);
+  if (captureTime?.clockWarning) {
+    console.log(`🕒 [${requestId}] Camera and GPS clocks disagree by ${captureTime.gpsDifferenceSeconds}s`);
+  }
+
+  if (options.deepScan || heic) {
+    report('deep-scan', 60, 'Reading all embedded tags with ExifTool...');
+    try {
+      // exifr values are already revived (dates, numbers), so they win on name clashes
+      const knownTags = new Set(processedTags.map(tag => tag.tag.toLowerCase()));
+      const deepTags = await extractDeepTags(file, buffer);
+      const newTags = deepTags.filter(tag => !knownTags.has(tag.tag.toLowerCase()));
+
+      processedTags.push(...newTags);
+      sortExifTags(processedTags);
+      console.log(`🔬 [${requestId}] Deep scan added ${newTags.length} tags`);
+    } catch (exiftoolError) {
+      console.error(`❌ [${requestId}] exiftool failed:`, exiftoolError instanceof Error ? exiftoolError.message : exiftoolError);
+      errors.push('Deep scan failed; showing standard EXIF data only.');
+    }
+  }
+
+  return {
+    tags: processedTags,
+    imageInfo: {
+      format,
+      width: imageWidth,
+      height: imageHeight,
+      size: file.size,
+      filename: file.name,
+      iccProfile,
+      colorSpace: describeExifColorSpace(exifData ?? {}),
+    },
+    gpsData,
+    place,
+    captureTime,
+    errors,
+  };
+}
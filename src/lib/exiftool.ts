@@ -0,0 +1,126 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ExifTool } from 'exiftool-vendored';
+import { categorizeExifTag } from '@/lib/exif-categories';
+import { decodeGpsTags } from '@/lib/gps-data';
+import { ExifTag, MetadataTagSummary, ProcessedExifData } from '@/types/exif';
+
+// Family-0 groups that describe the file on disk or are derived by exiftool
+// itself; they are never embedded in the image and cannot be written.
+const NON_METADATA_GROUPS = new Set(['ExifTool', 'File', 'Composite']);
+
+interface ReadGroupedTagsOptions {
+  includeComposite?: boolean; // Derived tags such as GPSPosition, LensID, ImageSize
+}
+
+export interface GroupedTag {
+  key: string;      // Fully qualified "Group0:Group1:Tag" key as returned by exiftool
+  group0: string;   // Container family, e.g. EXIF, XMP, MakerNotes, ICC_Profile
+  group1: string;   // Specific location, e.g. IFD0, GPS, XMP-dc, Canon
+  tag: string;
+  value: unknown;
+}
+
+let exiftoolInstance: ExifTool | null = null;
+
+// Reuse one exiftool pool across requests; spawning perl per request is slow
+export function getExifTool(): ExifTool {
+  if (!exiftoolInstance) {
+    exiftoolInstance = new ExifTool({
+      maxProcs: 2,
+      taskTimeoutMillis: 20000,
+    });
+  }
+  return exiftoolInstance;
+}
+
+/**
+ * exiftool only works on files, so write the upload to a private temp
+ * directory, run the callback, and always clean up afterwards.
+ */
+export async function withTempImage<T>(
+  buffer: Buffer,
+  filename: string,
+  fn: (filePath: string) => Promise<T>
+): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'exiflab-'));
+  // Keep the original extension (exiftool uses it to pick a writer) but never the name
+  const extension = path.extname(filename).toLowerCase().replace(/[^a-z0-9.]/g, '');
+  const filePath = path.join(dir, `image${extension}`);
+
+  try {
+    await fs.writeFile(filePath, buffer);
+    return await fn(filePath);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+export async function readGroupedTags(
+  filePath: string,
+  options: ReadGroupedTagsOptions = {}
+): Promise<GroupedTag[]> {
+  const raw = await getExifTool().readRaw(filePath, ['-G0:1', '-a']);
+  const tags: GroupedTag[] = [];
+
+  for (const [key, value] of Object.entries(raw)) {
+    const parts = key.split(':');
+    if (parts.length < 2) continue; // SourceFile, errors, warnings
+
+    const group0 = parts[0];
+    const tag = parts[parts.length - 1];
+    const group1 = parts.length > 2 ? parts[1] : group0;
+
+    if (NON_METADATA_GROUPS.has(group0) && !(options.includeComposite && group0 === 'Composite')) continue;
+
+    tags.push({ key, group0, group1, tag, value });
+  }
+
+  return tags;
+}
+
+/**
+ * Classify a tag the same way ExifViewer does. ICC profiles are handled as a
+ * single block because their individual header fields are not writable, and
+ * stripping part of a profile would corrupt colors.
+ */
+export function categorizeGroupedTag(tag: GroupedTag): ExifTag['category'] {
+  if (tag.group0 === 'ICC_Profile') {
+    return categorizeExifTag('ICCProfile');
+  }
+  return categorizeExifTag(tag.tag);
+}
+
+/**
+ * Short, display-ready summary of a tag for manifests and reports.
+ */
+export function summarizeGroupedTag(tag: GroupedTag): MetadataTagSummary {
+  const text = Array.isArray(tag.value) ? tag.value.join(', ') : String(tag.value);
+  return {
+    tag: tag.tag,
+    group: tag.group1,
+    category: categorizeGroupedTag(tag),
+    value: text.length > 100 ? text.substring(0, 100) + '...' : text,
+  };
+}
+
+/**
+ * Read the GPS position as signed decimal degrees, for containers such as
+ * HEIC where exifr cannot always locate the EXIF block. The rest of the GPS
+ * IFD is decoded alongside; the position itself comes from exiftool's
+ * composite tags so that XMP-only positions are found too.
+ */
+export async function readGpsPosition(filePath: string): Promise<ProcessedExifData['gpsData']> {
+  const tags = await getExifTool().read(filePath);
+  const { GPSLatitude: latitude, GPSLongitude: longitude } = tags;
+
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') return undefined;
+
+  const gpsIfd = await getExifTool().readRaw(filePath, ['-GPS:all', '-n']);
+  return {
+    ...decodeGpsTags(gpsIfd),
+    latitude,
+    longitude,
+  };
+}
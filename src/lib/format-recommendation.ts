@@ -0,0 +1,90 @@
+import { ANIMATED_OUTPUT_FORMATS, applyConversionOptions, BULK_ENCODE_OVERRIDES, openImage } from '@/lib/image-encoder';
+import { FORMAT_CAPABILITIES } from '@/lib/conversion-options';
+import { measureQuality } from '@/lib/image-quality';
+import type { ProgressReporter } from '@/lib/progress-stream';
+import { FormatRecommendation, FormatTrial, OUTPUT_FORMATS } from '@/types/exif';
+
+export const DEFAULT_RECOMMENDATION_QUALITY = 80;
+export const DEFAULT_MIN_SSIM = 0.95;
+
+// JPG and JPEG share an encoder, so only the first of each MIME type is tried
+const CANDIDATE_FORMATS = OUTPUT_FORMATS.filter(
+  (format, index) => OUTPUT_FORMATS.findIndex(other => other.mimeType === format.mimeType) === index
+);
+
+/**
+ * Encode the input to every output format and recommend the smallest one
+ * whose SSIM against the original reaches `minSsim`. Lossy encoders all use
+ * the same quality setting and otherwise the converter defaults (AVIF with a
+ * lower effort), so the table reflects what a plain conversion produces.
+ * Formats are tried one after another to keep memory use flat.
+ */
+export async function recommendFormat(
+  buffer: Buffer,
+  quality: number,
+  minSsim: number,
+  report: ProgressReporter
+): Promise<FormatRecommendation> {
+  report('decoding', 5, 'Reading image structure...');
+  // PNG output never animates, so this opens the first frame only
+  const still = await openImage(buffer, 'png');
+  const multiFrame = still.animation !== undefined;
+
+  const trials: FormatTrial[] = [];
+  for (const [index, format] of CANDIDATE_FORMATS.entries()) {
+    report(
+      'encoding',
+      10 + Math.round((index / CANDIDATE_FORMATS.length) * 85),
+      `Encoding ${format.name} (${index + 1} of ${CANDIDATE_FORMATS.length})...`
+    );
+
+    const capabilities = FORMAT_CAPABILITIES[format.extension];
+    const options = {
+      ...capabilities.defaults,
+      ...BULK_ENCODE_OVERRIDES[format.extension],
+      ...(capabilities.options.includes('quality') ? { quality } : {}),
+    };
+
+    const trial: FormatTrial = {
+      format: format.extension,
+      name: format.name,
+      size: 0,
+      encodeMs: 0,
+      quality: null,
+      acceptable: false,
+    };
+
+    try {
+      const pipeline = multiFrame && ANIMATED_OUTPUT_FORMATS.has(format.extension)
+        ? (await openImage(buffer, format.extension)).pipeline
+        : still.pipeline.clone();
+
+      const startTime = Date.now();
+      const encoded = await applyConversionOptions(pipeline, format.extension, options).toBuffer();
+      trial.encodeMs = Date.now() - startTime;
+      trial.size = encoded.length;
+
+      try {
+        trial.quality = await measureQuality(still.pipeline.clone(), encoded);
+        trial.acceptable = trial.quality.ssim >= minSsim;
+      } catch (error) {
+        console.error(`Quality measurement failed for ${format.name}:`, error);
+      }
+    } catch (error) {
+      console.error(`Encoding to ${format.name} failed:`, error);
+      trial.error = `Could not encode to ${format.name}`;
+    }
+
+    trials.push(trial);
+  }
+
+  trials.sort((a, b) => (a.error ? 1 : 0) - (b.error ? 1 : 0) || a.size - b.size);
+
+  return {
+    trials,
+    recommended: trials.find(trial => trial.acceptable)?.format ?? null,
+    quality,
+    minSsim,
+    originalSize: buffer.length,
+  };
+}
@@ -0,0 +1,52 @@
+import { GeotagOptions } from '@/types/exif';
+import { parseUtcOffset } from '@/lib/gps-track';
+
+export const MAX_CLOCK_OFFSET_SECONDS = 7 * 24 * 3600;
+export const MAX_GAP_SECONDS = 24 * 3600;
+
+export const DEFAULT_GEOTAG_OPTIONS: GeotagOptions = {
+  timezone: 'auto',
+  clockOffsetSeconds: 0,
+  maxGapSeconds: 300,
+  overwrite: false,
+};
+
+// Half-hour offsets from -12:00 to +14:00, plus Nepal, Eucla and the Chatham Islands
+export const UTC_OFFSETS: string[] = [
+  ...Array.from({ length: 53 }, (_, index) => (index - 24) * 30),
+  345, 525, 765,
+]
+  .sort((a, b) => a - b)
+  .map(formatUtcOffset);
+
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Validate geotagging options sent by the client.
+ */
+export function parseGeotagOptions(raw: unknown): { options: GeotagOptions } | { error: string } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { error: 'Options must be an object' };
+  }
+
+  const { timezone, clockOffsetSeconds, maxGapSeconds, overwrite } = { ...DEFAULT_GEOTAG_OPTIONS, ...raw } as Record<string, unknown>;
+
+  if (typeof timezone !== 'string' || (timezone !== 'auto' && parseUtcOffset(timezone) === undefined)) {
+    return { error: 'Timezone must be "auto" or a UTC offset such as +02:00' };
+  }
+  if (typeof clockOffsetSeconds !== 'number' || !Number.isFinite(clockOffsetSeconds) || Math.abs(clockOffsetSeconds) > MAX_CLOCK_OFFSET_SECONDS) {
+    return { error: 'Camera clock offset must be a number of seconds within a week' };
+  }
+  if (typeof maxGapSeconds !== 'number' || !Number.isFinite(maxGapSeconds) || maxGapSeconds < 0 || maxGapSeconds > MAX_GAP_SECONDS) {
+    return { error: 'Maximum gap must be between 0 seconds and 24 hours' };
+  }
+  if (typeof overwrite !== 'boolean') {
+    return { error: 'Overwrite must be true or false' };
+  }
+
+  return { options: { timezone, clockOffsetSeconds, maxGapSeconds, overwrite } };
+}
@@ -0,0 +1,84 @@
+import type { WriteTags } from 'exiftool-vendored';
+import { getExifTool } from '@/lib/exiftool';
+import { formatUtcOffset } from '@/lib/geotag-options';
+import { cameraTimeToUtc, parseUtcOffset, positionAt, TrackPoint } from '@/lib/gps-track';
+import { GeotagMatch, GeotagOptions } from '@/types/exif';
+
+/**
+ * Work out where the image at `filePath` was taken from its capture time
+ * and the GPS log. Images that already have a position are skipped unless
+ * `options.overwrite` is set.
+ */
+export async function matchImageToTrack(
+  filePath: string,
+  filename: string,
+  track: TrackPoint[],
+  options: GeotagOptions
+): Promise<GeotagMatch> {
+  const tags = await getExifTool().readRaw(filePath, [
+    '-n', '-DateTimeOriginal', '-SubSecTimeOriginal', '-OffsetTimeOriginal', '-GPSLatitude',
+  ]);
+
+  if (typeof tags.GPSLatitude === 'number' && !options.overwrite) {
+    return { filename, status: 'skipped', reason: 'Already has a GPS position' };
+  }
+
+  if (typeof tags.DateTimeOriginal !== 'string') {
+    return { filename, status: 'unmatched', reason: 'No capture time (DateTimeOriginal)' };
+  }
+
+  const utcOffset = options.timezone === 'auto'
+    ? parseUtcOffset(String(tags.OffsetTimeOriginal ?? ''))
+    : parseUtcOffset(options.timezone);
+  if (utcOffset === undefined) {
+    return { filename, status: 'unmatched', reason: 'No time zone recorded in the image; choose the camera\'s UTC offset' };
+  }
+
+  const subSeconds = tags.SubSecTimeOriginal !== undefined ? `.${tags.SubSecTimeOriginal}` : '';
+  const time = cameraTimeToUtc(`${tags.DateTimeOriginal}${subSeconds}`, utcOffset, options.clockOffsetSeconds);
+  if (time === undefined) {
+    return { filename, status: 'unmatched', reason: `Unreadable capture time "${tags.DateTimeOriginal}"` };
+  }
+
+  const captureTime = new Date(time).toISOString();
+  const zone = formatUtcOffset(utcOffset);
+  const position = positionAt(track, time, options.maxGapSeconds);
+  if (!position) {
+    return { filename, status: 'unmatched', reason: 'Taken outside the logged track', captureTime, utcOffset: zone };
+  }
+
+  const { gapSeconds, ...coordinates } = position;
+  return { filename, status: 'matched', captureTime, utcOffset: zone, position: coordinates, gapSeconds };
+}
+
+/**
+ * Write a matched position into the file's EXIF GPS block, in place. The GPS
+ * time is the photo's corrected capture time, which is UTC by definition.
+ */
+export async function writeGeotag(filePath: string, match: GeotagMatch): Promise<string[]> {
+  if (!match.position || !match.captureTime) return [];
+
+  const { latitude, longitude, altitude } = match.position;
+  const [date, time] = match.captureTime.replace('Z', '').split('T');
+
+  const writes: Record<string, string | number | null> = {
+    'EXIF:GPSLatitude': Math.abs(latitude),
+    'EXIF:GPSLatitudeRef': latitude < 0 ? 'S' : 'N',
+    'EXIF:GPSLongitude': Math.abs(longitude),
+    'EXIF:GPSLongitudeRef': longitude < 0 ? 'W' : 'E',
+    'EXIF:GPSDateStamp': date.replace(/-/g, ':'),
+    'EXIF:GPSTimeStamp': time,
+    'EXIF:GPSMapDatum': 'WGS-84',
+    // Clear whatever an overwritten position left behind, including an XMP
+    // copy that viewers might read instead
+    'XMP-exif:GPSLatitude': null,
+    'XMP-exif:GPSLongitude': null,
+    'EXIF:GPSAltitude': altitude !== undefined ? Math.abs(altitude) : null,
+    'EXIF:GPSAltitudeRef': altitude !== undefined ? (altitude < 0 ? 'Below Sea Level' : 'Above Sea Level') : null,
+  };
+
+  const result = await getExifTool().write(filePath, writes as WriteTags, {
+    writeArgs: ['-overwrite_original'],
+  });
+  return (result.warnings || []).map(warning => warning.replace(` - ${filePath}`, ''));
+}
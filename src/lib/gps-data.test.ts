@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { decodeGpsTags, describeGpsDetails, projectPosition } from '@/lib/gps-data';
+
+describe('decodeGpsTags', () => {
+  it('decodes exifr raw output with typed-array refs and DMS positions', () => {
+    expect(decodeGpsTags({
+      GPSLatitude: [33, 51, 24.48],
+      GPSLatitudeRef: 'S\0',
+      GPSLongitude: [151, 12, 55.08],
+      GPSLongitudeRef: 'E',
+      GPSAltitude: 12.5,
+      GPSAltitudeRef: new Uint8Array([1]),
+      GPSDateStamp: '2024:05:01',
+      GPSTimeStamp: [9, 30, 15.25],
+      GPSSpeed: 4,
+      GPSSpeedRef: 'N',
+      GPSImgDirection: 370,
+      GPSImgDirectionRef: 'M',
+    })).toEqual({
+      latitude: expect.closeTo(-33.8568, 4),
+      longitude: expect.closeTo(151.2153, 4),
+      altitude: -12.5,
+      timestamp: '2024-05-01T09:30:15.250Z',
+      speed: { value: 4, unit: 'knots' },
+      imgDirection: { degrees: 10, reference: 'magnetic' },
+    });
+  });
+
+  it('decodes exiftool numeric output', () => {
+    expect(decodeGpsTags({
+      GPSLatitude: '48.8584',
+      GPSLongitude: -2.2945,
+      GPSLongitudeRef: 'W',
+      GPSTimeStamp: '23:59:59',
+      GPSDateStamp: '2024-12-31',
+      GPSMeasureMode: '3',
+      GPSStatus: 'V',
+      GPSMapDatum: 'WGS-84',
+    })).toEqual({
+      latitude: 48.8584,
+      longitude: -2.2945,
+      timestamp: '2024-12-31T23:59:59Z',
+      measureMode: '3D',
+      status: 'void',
+      mapDatum: 'WGS-84',
+    });
+  });
+
+  it('prefers the stated positioning error over one estimated from DOP', () => {
+    const position = { GPSLatitude: 1, GPSLongitude: 1 };
+    expect(decodeGpsTags({ ...position, GPSDOP: 2 })).toMatchObject({ dop: 2, accuracyM: 10 });
+    expect(decodeGpsTags({ ...position, GPSDOP: 2, GPSHPositioningError: 3.5 })).toMatchObject({ accuracyM: 3.5 });
+  });
+
+  it('returns undefined without a usable position', () => {
+    expect(decodeGpsTags(undefined)).toBeUndefined();
+    expect(decodeGpsTags({ GPSLatitude: 10 })).toBeUndefined();
+    expect(decodeGpsTags({ GPSLatitude: [10, 'x', 0], GPSLongitude: 10 })).toBeUndefined();
+    expect(decodeGpsTags({ GPSLatitude: 95, GPSLongitude: 10 })).toBeUndefined();
+  });
+});
+
+describe('projectPosition', () => {
+  it('moves along a bearing on a sphere', () => {
+    const [latitude, longitude] = projectPosition(0, 0, 90, 111195);
+    expect(latitude).toBeCloseTo(0, 6);
+    expect(longitude).toBeCloseTo(1, 3);
+
+    const [north] = projectPosition(45, 10, 0, 111195);
+    expect(north).toBeCloseTo(46, 3);
+  });
+
+  it('wraps across the antimeridian', () => {
+    const [, longitude] = projectPosition(0, 179.5, 90, 111195);
+    expect(longitude).toBeCloseTo(-179.5, 3);
+  });
+});
+
+describe('describeGpsDetails', () => {
+  it('labels each detail in reading order', () => {
+    expect(describeGpsDetails({
+      latitude: 0,
+      longitude: 0,
+      altitude: -3,
+      track: { degrees: 44, reference: 'true' },
+      dop: 1.4,
+      accuracyM: 7,
+    })).toEqual([
+      { key: 'Altitude', label: 'Altitude', value: '3.0 m below sea level' },
+      { key: 'Track', label: 'Direction of travel', value: '44.0° NE (true north)' },
+      { key: 'Accuracy', label: 'Accuracy', value: 'about ±7 m (DOP 1.4)' },
+    ]);
+  });
+});
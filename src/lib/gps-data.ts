@@ -0,0 +1,187 @@
+import { GpsBearing, GpsData } from '@/types/exif';
+
+// Typical range error of a civilian GPS fix in meters; horizontal accuracy
+// is roughly this multiplied by the dilution of precision
+const GPS_RANGE_ERROR_M = 5;
+
+const EARTH_RADIUS_M = 6371000;
+
+const SPEED_UNITS = { K: 'km/h', M: 'mph', N: 'knots' } as const;
+const DISTANCE_UNITS = { K: 'km', M: 'mi', N: 'nmi' } as const;
+
+// exifr hands back single-byte tags as typed arrays and ASCII tags padded
+// with NULs; exiftool returns plain numbers and strings
+function toNumber(value: unknown): number | undefined {
+  if (ArrayBuffer.isView(value) || Array.isArray(value)) {
+    return toNumber((value as ArrayLike<unknown>)[0]);
+  }
+  const number = typeof value === 'string' ? Number(value.trim()) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return undefined;
+  const text = value.replace(/\0/g, '').trim();
+  return text || undefined;
+}
+
+// Degrees, minutes and seconds as three numbers, or decimal degrees
+function toDegrees(value: unknown): number | undefined {
+  if (Array.isArray(value) && value.length === 3) {
+    const [degrees, minutes, seconds] = value.map(toNumber);
+    if (degrees === undefined || minutes === undefined || seconds === undefined) return undefined;
+    return degrees + minutes / 60 + seconds / 3600;
+  }
+  return toNumber(value);
+}
+
+function signed(value: unknown, ref: unknown, negativeRef: string): number | undefined {
+  const degrees = toDegrees(value);
+  if (degrees === undefined) return undefined;
+  return toText(ref)?.toUpperCase() === negativeRef ? -Math.abs(degrees) : degrees;
+}
+
+function toBearing(value: unknown, ref: unknown): GpsBearing | undefined {
+  const degrees = toNumber(value);
+  if (degrees === undefined) return undefined;
+  return {
+    degrees: ((degrees % 360) + 360) % 360,
+    reference: toText(ref)?.toUpperCase() === 'M' ? 'magnetic' : 'true',
+  };
+}
+
+// GPSDateStamp is "YYYY:MM:DD" and GPSTimeStamp "h:m:s" or [h, m, s], both UTC
+function toTimestamp(date: unknown, time: unknown): string | undefined {
+  const dateMatch = toText(date)?.match(/^(\d{4})[:-](\d{2})[:-](\d{2})$/);
+  const parts = Array.isArray(time) ? time.map(toNumber) : toText(time)?.split(':').map(toNumber);
+  if (!dateMatch || parts?.length !== 3 || parts.some(part => part === undefined)) return undefined;
+
+  const [hours, minutes, seconds] = parts as number[];
+  const pad = (n: number) => String(Math.floor(n)).padStart(2, '0');
+  const fraction = seconds % 1 ? (seconds % 1).toFixed(3).slice(1) : '';
+  return `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fraction}Z`;
+}
+
+/**
+ * Decode the tags of a GPS IFD, keyed by tag name, into signed positions,
+ * bearings and speeds with their units. Works on exifr's raw output
+ * (`translateValues: false`) and on exiftool's numeric (`-n`) output.
+ * Returns undefined when there is no usable position.
+ */
+export function decodeGpsTags(tags: Record<string, unknown> | undefined): GpsData | undefined {
+  if (!tags) return undefined;
+
+  const latitude = signed(tags.GPSLatitude, tags.GPSLatitudeRef, 'S');
+  const longitude = signed(tags.GPSLongitude, tags.GPSLongitudeRef, 'W');
+  if (latitude === undefined || longitude === undefined) return undefined;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+
+  const gps: GpsData = { latitude, longitude };
+
+  const altitude = toNumber(tags.GPSAltitude);
+  if (altitude !== undefined) {
+    gps.altitude = toNumber(tags.GPSAltitudeRef) === 1 ? -Math.abs(altitude) : altitude;
+  }
+
+  gps.timestamp = toTimestamp(tags.GPSDateStamp, tags.GPSTimeStamp);
+
+  const speed = toNumber(tags.GPSSpeed);
+  if (speed !== undefined) {
+    const ref = toText(tags.GPSSpeedRef)?.toUpperCase() as keyof typeof SPEED_UNITS | undefined;
+    gps.speed = { value: speed, unit: SPEED_UNITS[ref && ref in SPEED_UNITS ? ref : 'K'] };
+  }
+
+  gps.track = toBearing(tags.GPSTrack, tags.GPSTrackRef);
+  gps.imgDirection = toBearing(tags.GPSImgDirection, tags.GPSImgDirectionRef);
+
+  const destLatitude = signed(tags.GPSDestLatitude, tags.GPSDestLatitudeRef, 'S');
+  const destLongitude = signed(tags.GPSDestLongitude, tags.GPSDestLongitudeRef, 'W');
+  if (destLatitude !== undefined && destLongitude !== undefined) {
+    gps.destination = { latitude: destLatitude, longitude: destLongitude };
+  }
+  gps.destBearing = toBearing(tags.GPSDestBearing, tags.GPSDestBearingRef);
+
+  const destDistance = toNumber(tags.GPSDestDistance);
+  if (destDistance !== undefined) {
+    const ref = toText(tags.GPSDestDistanceRef)?.toUpperCase() as keyof typeof DISTANCE_UNITS | undefined;
+    gps.destDistance = { value: destDistance, unit: DISTANCE_UNITS[ref && ref in DISTANCE_UNITS ? ref : 'K'] };
+  }
+
+  gps.dop = toNumber(tags.GPSDOP);
+  gps.horizontalErrorM = toNumber(tags.GPSHPositioningError);
+  // A stated error beats an estimate from the satellite geometry
+  gps.accuracyM = gps.horizontalErrorM ?? (gps.dop !== undefined ? gps.dop * GPS_RANGE_ERROR_M : undefined);
+
+  const measureMode = toNumber(tags.GPSMeasureMode);
+  if (measureMode === 2 || measureMode === 3) gps.measureMode = `${measureMode}D`;
+
+  const status = toText(tags.GPSStatus)?.toUpperCase();
+  if (status === 'A' || status === 'V') gps.status = status === 'A' ? 'active' : 'void';
+
+  gps.satellites = toText(tags.GPSSatellites);
+  gps.mapDatum = toText(tags.GPSMapDatum);
+
+  // Drop the fields that were looked up but absent, so the JSON stays compact
+  return Object.fromEntries(Object.entries(gps).filter(([, value]) => value !== undefined)) as GpsData;
+}
+
+/**
+ * The point `distanceM` meters away from a position along a bearing, on a
+ * spherical earth.
+ */
+export function projectPosition(latitude: number, longitude: number, bearingDegrees: number, distanceM: number): [number, number] {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const angular = distanceM / EARTH_RADIUS_M;
+  const bearing = toRadians(bearingDegrees);
+  const lat1 = toRadians(latitude);
+  const lon1 = toRadians(longitude);
+
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing));
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return [(lat2 * 180) / Math.PI, ((((lon2 * 180) / Math.PI) + 540) % 360) - 180];
+}
+
+function formatBearing(bearing: GpsBearing): string {
+  const points = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+  const point = points[Math.round(bearing.degrees / 45) % 8];
+  return `${bearing.degrees.toFixed(1)}° ${point} (${bearing.reference} north)`;
+}
+
+/**
+ * Display rows for everything in the GPS block besides latitude and
+ * longitude, in the order a reader would look for them.
+ */
+export function describeGpsDetails(gps: GpsData): { key: string; label: string; value: string }[] {
+  const rows: { key: string; label: string; value: string }[] = [];
+  const add = (key: string, label: string, value: string | undefined) => {
+    if (value !== undefined) rows.push({ key, label, value });
+  };
+
+  add('Altitude', 'Altitude', gps.altitude !== undefined
+    ? `${Math.abs(gps.altitude).toFixed(1)} m ${gps.altitude < 0 ? 'below' : 'above'} sea level`
+    : undefined);
+  add('Timestamp', 'GPS time', gps.timestamp?.replace('T', ' ').replace('Z', ' UTC'));
+  add('ImgDirection', 'Camera heading', gps.imgDirection && formatBearing(gps.imgDirection));
+  add('Speed', 'Speed', gps.speed && `${gps.speed.value} ${gps.speed.unit}`);
+  add('Track', 'Direction of travel', gps.track && formatBearing(gps.track));
+  add('Destination', 'Destination', gps.destination
+    && `${gps.destination.latitude.toFixed(6)}°, ${gps.destination.longitude.toFixed(6)}°`);
+  add('DestBearing', 'Bearing to destination', gps.destBearing && formatBearing(gps.destBearing));
+  add('DestDistance', 'Distance to destination', gps.destDistance && `${gps.destDistance.value} ${gps.destDistance.unit}`);
+  add('Accuracy', 'Accuracy', gps.accuracyM !== undefined
+    ? gps.horizontalErrorM !== undefined
+      ? `±${gps.accuracyM.toFixed(1)} m`
+      : `about ±${gps.accuracyM.toFixed(0)} m (DOP ${gps.dop})`
+    : undefined);
+  add('MeasureMode', 'Fix type', gps.measureMode && `${gps.measureMode} fix`);
+  add('Status', 'Receiver status', gps.status && (gps.status === 'active' ? 'Fix acquired' : 'No fix, position may be stale'));
+  add('Satellites', 'Satellites', gps.satellites);
+  add('MapDatum', 'Map datum', gps.mapDatum);
+
+  return rows;
+}
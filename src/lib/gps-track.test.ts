@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { cameraTimeToUtc, parseTrackFile, parseUtcOffset, positionAt, simplifyTrack, TrackPoint } from '@/lib/gps-track';
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('parseTrackFile', () => {
+  it('reads timed GPX points oldest first and skips untimed ones', () => {
+    const gpx = `<?xml version="1.0"?>
+      <gpx xmlns="http://www.topografix.com/GPX/1/1"><trk><trkseg>
+        <trkpt lon="2.2950" lat="48.8590"><ele>40.5</ele><time>2024-05-01T10:01:00Z</time></trkpt>
+        <trkpt lat='48.8584' lon='2.2945'><time>2024-05-01T10:00:00Z</time></trkpt>
+        <trkpt lat="48.8600" lon="2.2960"><ele>41</ele></trkpt>
+        <trkpt lat="95" lon="2.2960"><time>2024-05-01T10:02:00Z</time></trkpt>
+      </trkseg></trk></gpx>`;
+
+    expect(parseTrackFile(gpx)).toEqual([
+      { latitude: 48.8584, longitude: 2.2945, time: at('2024-05-01T10:00:00Z') },
+      { latitude: 48.859, longitude: 2.295, altitude: 40.5, time: at('2024-05-01T10:01:00Z') },
+    ]);
+  });
+
+  it('reads gx:Track pairs and timestamped placemarks from KML', () => {
+    const kml = `<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">
+      <gx:Track>
+        <when>2024-05-01T10:00:00Z</when><when>2024-05-01T10:00:10Z</when>
+        <gx:coord>2.2945 48.8584 35</gx:coord><gx:coord>2.2950 48.8590 36</gx:coord>
+      </gx:Track>
+      <Placemark><TimeStamp><when>2024-05-01T09:59:00Z</when></TimeStamp>
+        <Point><coordinates>2.2940,48.8580</coordinates></Point></Placemark>
+    </kml>`;
+
+    expect(parseTrackFile(kml)).toEqual([
+      { latitude: 48.858, longitude: 2.294, time: at('2024-05-01T09:59:00Z') },
+      { latitude: 48.8584, longitude: 2.2945, altitude: 35, time: at('2024-05-01T10:00:00Z') },
+      { latitude: 48.859, longitude: 2.295, altitude: 36, time: at('2024-05-01T10:00:10Z') },
+    ]);
+  });
+});
+
+describe('positionAt', () => {
+  const track: TrackPoint[] = [
+    { latitude: 10, longitude: 20, altitude: 100, time: at('2024-05-01T10:00:00Z') },
+    { latitude: 11, longitude: 22, altitude: 200, time: at('2024-05-01T10:00:10Z') },
+    { latitude: 12, longitude: 24, time: at('2024-05-01T11:00:00Z') },
+  ];
+
+  it('interpolates between the points either side', () => {
+    expect(positionAt(track, at('2024-05-01T10:00:04Z'), 60)).toEqual({
+      latitude: 10.4,
+      longitude: 20.8,
+      altitude: 140,
+      gapSeconds: 4,
+    });
+  });
+
+  it('returns a logged point exactly', () => {
+    expect(positionAt(track, at('2024-05-01T10:00:10Z'), 60)).toMatchObject({ latitude: 11, longitude: 22, gapSeconds: 0 });
+  });
+
+  it('stays on the nearby point next to a pause in logging', () => {
+    expect(positionAt(track, at('2024-05-01T10:00:40Z'), 60)).toEqual({
+      latitude: 11,
+      longitude: 22,
+      altitude: 200,
+      gapSeconds: 30,
+    });
+  });
+
+  it('returns null when no logged point is close enough', () => {
+    expect(positionAt(track, at('2024-05-01T10:30:00Z'), 60)).toBeNull();
+    expect(positionAt(track, at('2024-05-01T09:58:00Z'), 60)).toBeNull();
+    expect(positionAt([], at('2024-05-01T10:00:00Z'), 60)).toBeNull();
+  });
+});
+
+describe('parseUtcOffset', () => {
+  it.each([
+    ['Z', 0], ['+02:00', 120], ['-0530', -330], [' +14:00 ', 840],
+  ])('parses %j as %d minutes', (value, minutes) => {
+    expect(parseUtcOffset(value)).toBe(minutes);
+  });
+
+  it.each(['+15:00', '+02:60', '2:00', 'UTC+2', ''])('rejects %j', (value) => {
+    expect(parseUtcOffset(value)).toBeUndefined();
+  });
+});
+
+describe('cameraTimeToUtc', () => {
+  it('applies the zone offset and the clock drift', () => {
+    expect(cameraTimeToUtc('2024:05:01 12:00:00', 120, 0)).toBe(at('2024-05-01T10:00:00Z'));
+    expect(cameraTimeToUtc('2024:05:01 12:00:30', 120, 30)).toBe(at('2024-05-01T10:00:00Z'));
+    expect(cameraTimeToUtc('2024:05:01 00:30:00.5', -60, 0)).toBe(at('2024-05-01T01:30:00.500Z'));
+  });
+
+  it('rejects timestamps it cannot read', () => {
+    expect(cameraTimeToUtc('2024-05-01 12:00:00', 0, 0)).toBeUndefined();
+    expect(cameraTimeToUtc('', 0, 0)).toBeUndefined();
+  });
+});
+
+describe('simplifyTrack', () => {
+  it('keeps the first and last points', () => {
+    const track = Array.from({ length: 101 }, (_, index) => ({ latitude: 0, longitude: index, time: index }));
+    const simplified = simplifyTrack(track, 11);
+
+    expect(simplified.map(point => point.longitude)).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+    expect(simplifyTrack(track.slice(0, 5), 11)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,161 @@
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  time: number; // milliseconds since the epoch, UTC
+}
+
+export interface TrackPosition {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  gapSeconds: number; // time to the nearest logged point
+}
+
+function attribute(tag: string, name: string): number | undefined {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`));
+  const value = match ? Number(match[1]) : NaN;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function element(body: string, name: string): string | undefined {
+  return body.match(new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([^<]*)</(?:\\w+:)?${name}>`))?.[1].trim();
+}
+
+// KML orders coordinates longitude first
+function lonLatAlt(text: string, separator: RegExp): Omit<TrackPoint, 'time'> | undefined {
+  const [longitude, latitude, altitude] = text.trim().split(separator).map(Number);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return undefined;
+  return { latitude, longitude, ...(Number.isFinite(altitude) ? { altitude } : {}) };
+}
+
+function parseGpx(text: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  const pattern = /<(?:\w+:)?(trkpt|rtept|wpt)\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?\1>/g;
+
+  for (const [, , attributes, body] of text.matchAll(pattern)) {
+    const latitude = attribute(attributes, 'lat');
+    const longitude = attribute(attributes, 'lon');
+    const time = Date.parse(element(body, 'time') ?? '');
+    if (latitude === undefined || longitude === undefined || Number.isNaN(time)) continue;
+
+    const altitude = Number(element(body, 'ele'));
+    points.push({ latitude, longitude, time, ...(Number.isFinite(altitude) ? { altitude } : {}) });
+  }
+
+  return points;
+}
+
+// gx:Track pairs each <when> with a <gx:coord>; plain placemarks carry a
+// TimeStamp next to a Point, which is what our own KML export writes
+function parseKml(text: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
+
+  for (const [track] of text.matchAll(/<gx:Track\b[\s\S]*?<\/gx:Track>/g)) {
+    const times = [...track.matchAll(/<when>([^<]*)<\/when>/g)].map(match => Date.parse(match[1]));
+    const coords = [...track.matchAll(/<gx:coord>([^<]*)<\/gx:coord>/g)].map(match => lonLatAlt(match[1], /\s+/));
+    times.forEach((time, index) => {
+      const coord = coords[index];
+      if (coord && !Number.isNaN(time)) points.push({ ...coord, time });
+    });
+  }
+
+  for (const [placemark] of text.matchAll(/<Placemark\b[\s\S]*?<\/Placemark>/g)) {
+    const time = Date.parse(placemark.match(/<TimeStamp\b[\s\S]*?<when>([^<]*)<\/when>/)?.[1] ?? '');
+    const coordinates = placemark.match(/<Point\b[\s\S]*?<coordinates>([^<]*)<\/coordinates>/)?.[1];
+    const coord = coordinates && lonLatAlt(coordinates, /\s*,\s*/);
+    if (coord && !Number.isNaN(time)) points.push({ ...coord, time });
+  }
+
+  return points;
+}
+
+/**
+ * Read the timed points of a GPX or KML log, oldest first. Points without a
+ * time cannot be matched to photos and are left out.
+ */
+export function parseTrackFile(text: string): TrackPoint[] {
+  const points = /<kml\b/i.test(text) ? parseKml(text) : parseGpx(text);
+  return points
+    .filter(point => Math.abs(point.latitude) <= 90 && Math.abs(point.longitude) <= 180)
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Where the track was at `time`, interpolated linearly between the logged
+ * points either side. Returns null when the nearest logged point is more than
+ * `maxGapSeconds` away, since the logger was off or out of range then.
+ */
+export function positionAt(track: TrackPoint[], time: number, maxGapSeconds: number): TrackPosition | null {
+  if (track.length === 0) return null;
+
+  // First point at or after `time`
+  let low = 0;
+  let high = track.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (track[middle].time < time) low = middle + 1;
+    else high = middle;
+  }
+
+  const before = track[low - 1];
+  const after = track[low];
+  const beforeGap = before ? (time - before.time) / 1000 : Infinity;
+  const afterGap = after ? (after.time - time) / 1000 : Infinity;
+  const gapSeconds = Math.min(beforeGap, afterGap);
+  if (gapSeconds > maxGapSeconds) return null;
+
+  // Only interpolate across a stretch the logger was recording; next to a
+  // pause, stay on the logged point that is close
+  if (beforeGap > maxGapSeconds || afterGap > maxGapSeconds || after.time === before.time) {
+    const nearest = beforeGap <= afterGap ? before : after;
+    return { latitude: nearest.latitude, longitude: nearest.longitude, altitude: nearest.altitude, gapSeconds };
+  }
+
+  const fraction = (time - before.time) / (after.time - before.time);
+  const between = (a: number, b: number) => a + (b - a) * fraction;
+  return {
+    latitude: between(before.latitude, after.latitude),
+    longitude: between(before.longitude, after.longitude),
+    altitude: before.altitude !== undefined && after.altitude !== undefined
+      ? between(before.altitude, after.altitude)
+      : undefined,
+    gapSeconds,
+  };
+}
+
+/**
+ * Parse "+02:00", "-0530" or "Z" into minutes east of UTC.
+ */
+export function parseUtcOffset(value: string): number | undefined {
+  if (/^z$/i.test(value.trim())) return 0;
+  const match = value.trim().match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (!match) return undefined;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  if (minutes > 14 * 60 || Number(match[3]) >= 60) return undefined;
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Convert a camera's local "YYYY:MM:DD HH:MM:SS" timestamp to UTC milliseconds,
+ * given the UTC offset its clock was set to and how many seconds it ran ahead.
+ */
+export function cameraTimeToUtc(dateTime: string, utcOffsetMinutes: number, clockOffsetSeconds: number): number | undefined {
+  const match = dateTime.trim().match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(\.\d+)?/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hours, minutes, seconds, fraction] = match;
+  const asUtc = Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds, fraction ? Math.round(Number(fraction) * 1000) : 0);
+  if (Number.isNaN(asUtc)) return undefined;
+
+  return asUtc - utcOffsetMinutes * 60000 - clockOffsetSeconds * 1000;
+}
+
+/**
+ * Thin a track out to at most `maxPoints` for drawing on a map.
+ */
+export function simplifyTrack(track: TrackPoint[], maxPoints: number): TrackPoint[] {
+  if (track.length <= maxPoints) return track;
+  const step = (track.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, index) => track[Math.round(index * step)]);
+}
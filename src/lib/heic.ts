@@ -0,0 +1,43 @@
+import sharp from 'sharp';
+
+// ftyp brands for HEVC-coded HEIF. AVIF uses the same container but sharp
+// decodes it natively, so only these need the separate decoder.
+const HEVC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs']);
+const AVIF_BRANDS = new Set(['avif', 'avis']);
+
+/**
+ * Detect HEIC from the ftyp box rather than the MIME type, which browsers
+ * often leave empty or report as application/octet-stream for iPhone photos.
+ */
+export function isHeic(buffer: Buffer): boolean {
+  if (buffer.length < 16 || buffer.toString('ascii', 4, 8) !== 'ftyp') return false;
+
+  const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length);
+  // Major brand, then a 4-byte minor version, then the compatible brands
+  const brands = [buffer.toString('ascii', 8, 12)];
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(buffer.toString('ascii', offset, offset + 4));
+  }
+
+  if (brands.some(brand => AVIF_BRANDS.has(brand))) return false;
+  return brands.some(brand => HEVC_BRANDS.has(brand));
+}
+
+/**
+ * Open an image with sharp, decoding HEIC first because the prebuilt libvips
+ * has no HEVC decoder. The decoded pixels already have the HEIF rotation and
+ * mirroring applied, and carry no metadata.
+ */
+export async function loadImage(buffer: Buffer): Promise<sharp.Sharp> {
+  if (!isHeic(buffer)) {
+    return sharp(buffer);
+  }
+
+  const { default: decode } = await import('heic-decode');
+  const image = await decode({ buffer });
+  const pixels = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+
+  return sharp(pixels, {
+    raw: { width: image.width, height: image.height, channels: 4 },
+  });
+}
@@ -0,0 +1,209 @@
+import { IccProfileInfo } from '@/types/exif';
+
+// ICC.1:2022 section 7.2: the header is 128 bytes, followed by the tag table
+const HEADER_SIZE = 128;
+
+const DEVICE_CLASSES: Record<string, string> = {
+  scnr: 'Input',
+  mntr: 'Display',
+  prtr: 'Output',
+  link: 'Device link',
+  spac: 'Color space',
+  abst: 'Abstract',
+  nmcl: 'Named color',
+};
+
+const COLOR_SPACES: Record<string, string> = {
+  'RGB ': 'RGB',
+  'CMYK': 'CMYK',
+  'GRAY': 'Gray',
+  'Lab ': 'Lab',
+  'XYZ ': 'XYZ',
+  'YCbr': 'YCbCr',
+};
+
+// Explanations for the profiles people actually meet, matched on the profile's own name
+const KNOWN_PROFILES: { pattern: RegExp; description: string }[] = [
+  { pattern: /display p3|\bp3\b|dci-p3|sP3C/i, description: 'Wide gamut used by Apple displays and iPhone photos' },
+  { pattern: /adobe ?rgb|argb|clayrgb|compatible with adobe/i, description: 'Wide gamut for print work, used by cameras set to Adobe RGB' },
+  { pattern: /prophoto|romm/i, description: 'Very wide gamut used for raw photo editing' },
+  { pattern: /2020|2100/i, description: 'Ultra wide gamut for UHD and HDR video' },
+  { pattern: /srgb|iec ?61966/i, description: 'Standard gamut of the web and most displays' },
+];
+
+function readTagTable(icc: Buffer): Map<string, { offset: number; size: number }> {
+  const tags = new Map<string, { offset: number; size: number }>();
+  const count = icc.readUInt32BE(HEADER_SIZE);
+
+  for (let i = 0; i < count; i++) {
+    const entry = HEADER_SIZE + 4 + i * 12;
+    if (entry + 12 > icc.length) break;
+    const offset = icc.readUInt32BE(entry + 4);
+    const size = icc.readUInt32BE(entry + 8);
+    if (offset + size <= icc.length) {
+      tags.set(icc.toString('ascii', entry, entry + 4), { offset, size });
+    }
+  }
+  return tags;
+}
+
+// Text of a 'desc' (v2 textDescriptionType), 'mluc' (v4) or 'text' tag
+function readText(icc: Buffer, tag: { offset: number; size: number } | undefined): string | undefined {
+  if (!tag || tag.size < 12) return undefined;
+  const { offset } = tag;
+  const type = icc.toString('ascii', offset, offset + 4);
+
+  let text: string | undefined;
+  if (type === 'desc') {
+    const length = icc.readUInt32BE(offset + 8);
+    text = icc.toString('latin1', offset + 12, Math.min(offset + 12 + length, offset + tag.size));
+  } else if (type === 'mluc') {
+    // Use the first record; profiles in the wild almost always list English first
+    const recordCount = icc.readUInt32BE(offset + 8);
+    if (recordCount === 0) return undefined;
+    const length = icc.readUInt32BE(offset + 20);
+    const start = offset + icc.readUInt32BE(offset + 24);
+    if (start + length > icc.length) return undefined;
+    text = Buffer.from(icc.subarray(start, start + length)).swap16().toString('utf16le');
+  } else if (type === 'text') {
+    text = icc.toString('latin1', offset + 8, offset + tag.size);
+  }
+
+  return text?.replace(/\u0000+$/g, '').trim() || undefined;
+}
+
+/**
+ * Read the name and basic properties of an embedded ICC profile. Returns
+ * undefined for data too short or malformed to be a profile.
+ */
+export function parseIccProfile(icc: Buffer): IccProfileInfo | undefined {
+  if (icc.length < HEADER_SIZE + 4 || icc.toString('ascii', 36, 40) !== 'acsp') return undefined;
+
+  try {
+    const tags = readTagTable(icc);
+    const colorSpace = COLOR_SPACES[icc.toString('ascii', 16, 20)] ?? icc.toString('ascii', 16, 20).trim();
+    const deviceClass = DEVICE_CLASSES[icc.toString('ascii', 12, 16)] ?? icc.toString('ascii', 12, 16).trim();
+    const name = readText(icc, tags.get('desc')) ?? 'Unnamed profile';
+    const known = KNOWN_PROFILES.find(profile => profile.pattern.test(name));
+
+    return {
+      name,
+      description: known?.description ?? (colorSpace === 'CMYK'
+        ? 'Print profile; colors change when converted for screens'
+        : `${deviceClass} profile for ${colorSpace} data`),
+      colorSpace,
+      deviceClass,
+      version: `${icc[8]}.${icc[9] >> 4}`,
+      copyright: readText(icc, tags.get('cprt')),
+      size: icc.length,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+type Xyz = [number, number, number];
+
+export interface MatrixShaperProfile {
+  description: string;
+  copyright: string;
+  // D50-adapted primaries, as ICC requires
+  red: Xyz;
+  green: Xyz;
+  blue: Xyz;
+  // D65 to D50 chromatic adaptation
+  adaptation: [Xyz, Xyz, Xyz];
+  // Pure gamma, or the sRGB curve as ICC parametric function type 3
+  transfer: { gamma: number } | 'srgb';
+}
+
+const D50: Xyz = [0.9642, 1.0, 0.8249];
+
+function s15Fixed16(values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => buffer.writeInt32BE(Math.round(value * 65536), index * 4));
+  return buffer;
+}
+
+function typed(signature: string, body: Buffer): Buffer {
+  // Every tag element starts with its type signature and 4 reserved bytes
+  return Buffer.concat([Buffer.from(signature, 'ascii'), Buffer.alloc(4), body]);
+}
+
+function mluc(text: string): Buffer {
+  const header = Buffer.alloc(20);
+  header.writeUInt32BE(1, 0);   // one record
+  header.writeUInt32BE(12, 4);  // record size
+  header.write('enUS', 8, 'ascii');
+  const utf16 = Buffer.from(text, 'utf16le').swap16();
+  header.writeUInt32BE(utf16.length, 12);
+  header.writeUInt32BE(28, 16); // string offset from the tag start
+  return typed('mluc', Buffer.concat([header, utf16]));
+}
+
+function transferCurve(transfer: MatrixShaperProfile['transfer']): Buffer {
+  if (transfer === 'srgb') {
+    const parameters = Buffer.alloc(4);
+    parameters.writeUInt16BE(3, 0);
+    return typed('para', Buffer.concat([parameters, s15Fixed16([2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045])]));
+  }
+
+  // A single curv entry is a gamma in u8Fixed8Number
+  const body = Buffer.alloc(6);
+  body.writeUInt32BE(1, 0);
+  body.writeUInt16BE(Math.round(transfer.gamma * 256), 4);
+  return typed('curv', body);
+}
+
+/**
+ * Build a compact ICC v4 display profile for an RGB space defined by its
+ * primaries and transfer curve, the same structure as the sRGB and P3
+ * profiles built into libvips.
+ */
+export function buildMatrixShaperProfile(profile: MatrixShaperProfile): Buffer {
+  const trc = transferCurve(profile.transfer);
+  const elements: [string, Buffer][] = [
+    ['desc', mluc(profile.description)],
+    ['cprt', mluc(profile.copyright)],
+    ['wtpt', typed('XYZ ', s15Fixed16(D50))],
+    ['chad', typed('sf32', s15Fixed16(profile.adaptation.flat()))],
+    ['rXYZ', typed('XYZ ', s15Fixed16(profile.red))],
+    ['gXYZ', typed('XYZ ', s15Fixed16(profile.green))],
+    ['bXYZ', typed('XYZ ', s15Fixed16(profile.blue))],
+    ['rTRC', trc],
+    ['gTRC', trc],
+    ['bTRC', trc],
+  ];
+
+  const tableSize = 4 + elements.length * 12;
+  const table = Buffer.alloc(tableSize);
+  table.writeUInt32BE(elements.length, 0);
+
+  // Tag data is 4-byte aligned; the three channels share one curve
+  const chunks: Buffer[] = [];
+  const offsets = new Map<Buffer, number>();
+  let offset = HEADER_SIZE + tableSize;
+  elements.forEach(([signature, data], index) => {
+    if (!offsets.has(data)) {
+      offsets.set(data, offset);
+      const padded = Buffer.alloc(Math.ceil(data.length / 4) * 4);
+      data.copy(padded);
+      chunks.push(padded);
+      offset += padded.length;
+    }
+    const entry = 4 + index * 12;
+    table.write(signature, entry, 'ascii');
+    table.writeUInt32BE(offsets.get(data)!, entry + 4);
+    table.writeUInt32BE(data.length, entry + 8);
+  });
+
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.writeUInt32BE(offset, 0);
+  header.writeUInt32BE(0x04300000, 8); // version 4.3
+  header.write('mntrRGB XYZ ', 12, 'ascii');
+  [2024, 1, 1, 0, 0, 0].forEach((value, index) => header.writeUInt16BE(value, 24 + index * 2));
+  header.write('acsp', 36, 'ascii');
+  s15Fixed16(D50).copy(header, 68);
+
+  return Buffer.concat([header, table, ...chunks]);
+}
@@ -0,0 +1,149 @@
+import sharp from 'sharp';
+import { AnimationInfo, ConversionOptions } from '@/types/exif';
+import { isHeic, loadImage } from '@/lib/heic';
+import type { StreamedError } from '@/lib/progress-stream';
+
+// Output formats sharp can encode as multi-frame animations. AVIF is not one:
+// sharp's libheif build writes still images only, and feeding it all frames
+// produces a single tall image of stacked frames.
+export const ANIMATED_OUTPUT_FORMATS = new Set(['gif', 'webp']);
+
+// Overrides for routes that encode many outputs per request. AVIF's default
+// effort of 9 can take minutes on one core for a large photo; sharp's own
+// default of 4 is an order of magnitude faster at a similar size.
+export const BULK_ENCODE_OVERRIDES: Record<string, ConversionOptions> = {
+  avif: { effort: 4 },
+};
+
+/**
+ * Open the input for conversion to `format`. Multi-frame input is loaded with
+ * every frame when the target can hold an animation (sharp carries the frame
+ * delays and loop count through to the encoder); otherwise only the first
+ * frame is used.
+ */
+export async function openImage(
+  buffer: Buffer,
+  format: string
+): Promise<{ pipeline: sharp.Sharp; animation?: AnimationInfo }> {
+  if (isHeic(buffer)) {
+    // Only the primary image of a HEIC is converted; bursts and live photo frames are ignored
+    return { pipeline: await loadImage(buffer) };
+  }
+
+  const metadata = await sharp(buffer).metadata();
+  const frames = metadata.pages ?? 1;
+
+  if (frames <= 1) {
+    return { pipeline: sharp(buffer) };
+  }
+
+  const preserved = ANIMATED_OUTPUT_FORMATS.has(format);
+  return {
+    pipeline: sharp(buffer, { animated: preserved }),
+    animation: {
+      frames,
+      loop: metadata.loop ?? 0,
+      delays: metadata.delay ?? [],
+      preserved,
+    },
+  };
+}
+
+/**
+ * Apply the resize and encoder settings for the target format to a sharp
+ * pipeline. Options are expected to have been validated with
+ * parseConversionOptions, which also fills in the format defaults.
+ */
+export function applyConversionOptions(
+  pipeline: sharp.Sharp,
+  format: string,
+  options: ConversionOptions
+): sharp.Sharp {
+  if (options.width !== undefined || options.height !== undefined) {
+    pipeline = pipeline.resize({
+      width: options.width,
+      height: options.height,
+      fit: options.fit ?? 'inside',
+      withoutEnlargement: false,
+    });
+  }
+
+  switch (format) {
+    case 'jpeg':
+    case 'jpg':
+      return pipeline.jpeg({
+        quality: options.quality,
+        chromaSubsampling: options.chromaSubsampling,
+        progressive: options.progressive,
+        mozjpeg: true,
+      });
+
+    case 'png':
+      return pipeline.png({
+        compressionLevel: options.effort,
+        progressive: options.progressive,
+      });
+
+    case 'webp':
+      return pipeline.webp({
+        quality: options.quality,
+        lossless: options.lossless,
+        effort: options.effort,
+      });
+
+    case 'avif':
+      return pipeline.avif({
+        quality: options.quality,
+        lossless: options.lossless,
+        chromaSubsampling: options.chromaSubsampling,
+        effort: options.effort,
+      });
+
+    case 'tiff':
+      return pipeline.tiff({
+        compression: 'lzw',
+        quality: 85,
+      });
+
+    case 'gif':
+      return pipeline.gif({
+        effort: options.effort,
+      });
+
+    default:
+      throw new Error(`Conversion to ${format} is not supported`);
+  }
+}
+
+/**
+ * Map a conversion failure to a message for the user and an HTTP status.
+ */
+export function describeConversionError(error: unknown): StreamedError {
+  console.error('Image conversion error:', error);
+
+  // Handle specific Sharp errors
+  if (error instanceof Error) {
+    if (error.message.includes('Input file contains unsupported image format')) {
+      return { error: 'Unsupported input image format. Please try a different image.', status: 400 };
+    }
+
+    if (error.message.includes('Input buffer contains unsupported image format')) {
+      return { error: 'The image file appears to be corrupted or in an unsupported format.', status: 400 };
+    }
+
+    if (error.message.includes('HEIF processing error') || error.message.includes('HEIF image not found')) {
+      return { error: 'This HEIC image could not be decoded. It may use an unsupported HEIF variant.', status: 400 };
+    }
+
+    // Transform requests that only turn out invalid once the image is open
+    if (error.message.startsWith('Crop region') || error.message.includes('not supported for animated output')) {
+      return { error: error.message, status: 400 };
+    }
+
+    if (error.message.includes('Image is too large')) {
+      return { error: 'The image is too large to process. Please try a smaller image.', status: 400 };
+    }
+  }
+
+  return { error: 'Failed to convert image. Please try again with a different image.', status: 500 };
+}
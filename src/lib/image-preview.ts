@@ -0,0 +1,57 @@
+import { base64ToBlob, isHeicFile } from '@/lib/utils';
+import { requestConversion } from '@/lib/conversion-client';
+import type { TransformOptions } from '@/types/exif';
+
+/**
+ * Most browsers cannot render HEIC, so have the server convert it to JPEG for
+ * previews and canvas work. Other images are returned unchanged.
+ */
+export async function toDisplayableImage(file: File): Promise<Blob> {
+  if (!isHeicFile(file)) return file;
+
+  const result = await requestConversion(file, { format: 'jpeg', options: {}, metadata: 'strip' });
+  return base64ToBlob(result.data, result.mimeType);
+}
+
+export async function getDisplayablePreviewUrl(file: File): Promise<string> {
+  return URL.createObjectURL(await toDisplayableImage(file));
+}
+
+// Longest side of a transformed preview; it is only used for on-screen comparison
+const MAX_TRANSFORM_PREVIEW = 2048;
+
+/**
+ * Apply a crop, rotation and flips to a preview in the browser, matching what
+ * /api/convert-image does on the server, so the original can be compared with
+ * a transformed conversion. Browsers already draw images in their EXIF
+ * orientation. Resolves to an object URL of a PNG.
+ */
+export async function renderTransformedPreview(url: string, transform: TransformOptions): Promise<string> {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => resolve(element);
+    element.onerror = () => reject(new Error('Failed to load preview'));
+    element.src = url;
+  });
+
+  const crop = transform.crop ?? { left: 0, top: 0, width: image.naturalWidth, height: image.naturalHeight };
+  const scale = Math.min(1, MAX_TRANSFORM_PREVIEW / Math.max(crop.width, crop.height));
+  const width = Math.max(1, Math.round(crop.width * scale));
+  const height = Math.max(1, Math.round(crop.height * scale));
+  const quarterTurn = transform.rotate === 90 || transform.rotate === 270;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = quarterTurn ? height : width;
+  canvas.height = quarterTurn ? width : height;
+  const context = canvas.getContext('2d')!;
+
+  // Applied to the drawn pixels in reverse: rotate, then flip, then move into place
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.scale(transform.flop ? -1 : 1, transform.flip ? -1 : 1);
+  context.rotate((transform.rotate * Math.PI) / 180);
+  context.drawImage(image, crop.left, crop.top, crop.width, crop.height, -width / 2, -height / 2, width, height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Failed to render preview');
+  return URL.createObjectURL(blob);
+}
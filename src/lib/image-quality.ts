@@ -0,0 +1,118 @@
+import sharp from 'sharp';
+import { QualityMetrics, ResizeFit } from '@/types/exif';
+
+// Metrics are measured on a downscaled copy of large images; an SSIM over
+// 4 megapixels adds little precision and costs noticeable time
+const MAX_METRIC_DIMENSION = 2048;
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Decode to 8-bit sRGB without alpha; transparent areas are compared as white
+async function decodeRgb(image: sharp.Sharp, width: number, height: number, fit: keyof sharp.FitEnum) {
+  const { data, info } = await image
+    .flatten({ background: '#ffffff' })
+    .resize(width, height, { fit })
+    .toColourspace('srgb')
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  if (info.channels !== 3 || info.width !== width || info.height !== height) {
+    throw new Error(`Unexpected decoded layout ${info.width}x${info.height}x${info.channels}`);
+  }
+  return data;
+}
+
+function toLuma(rgb: Buffer): Float32Array {
+  const luma = new Float32Array(rgb.length / 3);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * rgb[i * 3] + 0.587 * rgb[i * 3 + 1] + 0.114 * rgb[i * 3 + 2];
+  }
+  return luma;
+}
+
+function meanSsim(a: Float32Array, b: Float32Array, width: number, height: number): number {
+  const window = Math.min(SSIM_WINDOW, width, height);
+  const count = window * window;
+  let total = 0;
+  let windows = 0;
+
+  for (let y = 0; y + window <= height; y += SSIM_STRIDE) {
+    for (let x = 0; x + window <= width; x += SSIM_STRIDE) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+
+      for (let wy = 0; wy < window; wy++) {
+        const row = (y + wy) * width + x;
+        for (let wx = 0; wx < window; wx++) {
+          const va = a[row + wx];
+          const vb = b[row + wx];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+
+      const meanA = sumA / count;
+      const meanB = sumB / count;
+      const varA = sumAA / count - meanA * meanA;
+      const varB = sumBB / count - meanB * meanB;
+      const covariance = sumAB / count - meanA * meanB;
+
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 1;
+}
+
+/**
+ * Compare the converted image with the original. PSNR is computed over the
+ * RGB samples, SSIM as the mean over 8×8 luma windows. The original is first
+ * resized to the converted dimensions with the same crop or letterbox the
+ * conversion used, so a resized output is judged against what it should look
+ * like rather than penalized for the new size. Animations are compared on
+ * their first frame.
+ */
+export async function measureQuality(
+  original: sharp.Sharp,
+  converted: Buffer,
+  fit?: ResizeFit
+): Promise<QualityMetrics> {
+  const metadata = await sharp(converted).metadata();
+  const outputWidth = metadata.width ?? 0;
+  const outputHeight = metadata.pageHeight ?? metadata.height ?? 0;
+  if (outputWidth === 0 || outputHeight === 0) {
+    throw new Error('Converted image has no dimensions');
+  }
+
+  const scale = Math.min(1, MAX_METRIC_DIMENSION / Math.max(outputWidth, outputHeight));
+  const width = Math.max(1, Math.round(outputWidth * scale));
+  const height = Math.max(1, Math.round(outputHeight * scale));
+
+  // 'inside' and 'outside' kept the aspect ratio, so stretching to the exact size is the same resize
+  const originalFit = fit === 'cover' || fit === 'contain' ? fit : 'fill';
+  const [reference, candidate] = await Promise.all([
+    decodeRgb(original, width, height, originalFit),
+    decodeRgb(sharp(converted), width, height, 'fill'),
+  ]);
+
+  let squaredError = 0;
+  for (let i = 0; i < reference.length; i++) {
+    const difference = reference[i] - candidate[i];
+    squaredError += difference * difference;
+  }
+  const mse = squaredError / reference.length;
+
+  return {
+    psnr: mse === 0 ? null : 10 * Math.log10((255 * 255) / mse),
+    ssim: meanSsim(toLuma(reference), toLuma(candidate), width, height),
+    width,
+    height,
+  };
+}
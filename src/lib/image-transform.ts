@@ -0,0 +1,119 @@
+import sharp from 'sharp';
+import { CropRegion, RotationAngle, TransformOptions, TransformResult } from '@/types/exif';
+
+// A rearrangement of the pixel grid: an optional left-right mirror followed
+// by a clockwise rotation. Every EXIF orientation and every combination of
+// rotations and flips reduces to one of these eight.
+interface Orientation {
+  mirror: boolean;
+  angle: RotationAngle;
+}
+
+const IDENTITY: Orientation = { mirror: false, angle: 0 };
+const MIRROR: Orientation = { mirror: true, angle: 0 };
+// Top to bottom is left to right turned half way round
+const VERTICAL_MIRROR: Orientation = { mirror: true, angle: 180 };
+
+// What each EXIF Orientation value asks a viewer to do to the stored pixels
+const EXIF_ORIENTATIONS: Record<number, Orientation> = {
+  1: IDENTITY,
+  2: MIRROR,
+  3: { mirror: false, angle: 180 },
+  4: VERTICAL_MIRROR,
+  5: { mirror: true, angle: 270 },
+  6: { mirror: false, angle: 90 },
+  7: { mirror: true, angle: 90 },
+  8: { mirror: false, angle: 270 },
+};
+
+// `first` then `second`. A mirror reverses the direction of any rotation before it.
+function compose(first: Orientation, second: Orientation): Orientation {
+  const angle = second.mirror ? 360 - first.angle : first.angle;
+  return {
+    mirror: first.mirror !== second.mirror,
+    angle: ((angle + second.angle) % 360) as RotationAngle,
+  };
+}
+
+function isQuarterTurn(orientation: Orientation): boolean {
+  return orientation.angle === 90 || orientation.angle === 270;
+}
+
+// Where `region` of a width × height image ends up once `orientation` is applied
+function mapRegion(region: CropRegion, orientation: Orientation, width: number, height: number): CropRegion {
+  const { width: w, height: h, top } = region;
+  const left = orientation.mirror ? width - region.left - w : region.left;
+
+  switch (orientation.angle) {
+    case 90:
+      return { left: height - top - h, top: left, width: h, height: w };
+    case 180:
+      return { left: width - left - w, top: height - top - h, width: w, height: h };
+    case 270:
+      return { left: top, top: width - left - w, width: h, height: w };
+    default:
+      return { left, top, width: w, height: h };
+  }
+}
+
+/**
+ * Add the requested crop, rotation and flips to a sharp pipeline, together
+ * with the EXIF orientation when auto-orienting. sharp 0.33 ignores explicit
+ * angles once it auto-orients and only supports one rotation per pipeline,
+ * so everything is reduced to a single mirror and rotation here. The crop
+ * is mapped into whichever frame sharp extracts from: after the rotation
+ * when there is one, before the mirror otherwise.
+ *
+ * Multi-frame pipelines can only be mirrored left to right: sharp cannot
+ * turn them a quarter, and a half turn would reverse the frame order.
+ * Decoded HEIC is already upright and reports no orientation.
+ */
+export async function applyTransforms(
+  pipeline: sharp.Sharp,
+  transform: TransformOptions,
+  animated: boolean
+): Promise<TransformResult> {
+  const metadata = await pipeline.metadata();
+  const orientation = transform.autoOrient ? metadata.orientation ?? 1 : 1;
+  const exif = EXIF_ORIENTATIONS[orientation] ?? IDENTITY;
+
+  const storedWidth = metadata.width ?? 0;
+  const storedHeight = metadata.pageHeight ?? metadata.height ?? 0;
+  const [orientedWidth, orientedHeight] = isQuarterTurn(exif)
+    ? [storedHeight, storedWidth]
+    : [storedWidth, storedHeight];
+
+  const { crop } = transform;
+  if (crop && (crop.left + crop.width > orientedWidth || crop.top + crop.height > orientedHeight)) {
+    throw new Error(`Crop region must lie within the ${orientedWidth}×${orientedHeight} image`);
+  }
+
+  let requested: Orientation = { mirror: false, angle: transform.rotate };
+  if (transform.flip) requested = compose(requested, VERTICAL_MIRROR);
+  if (transform.flop) requested = compose(requested, MIRROR);
+  const total = compose(exif, requested);
+
+  if (animated && total.angle !== 0) {
+    throw new Error('Rotating or flipping top to bottom is not supported for animated output');
+  }
+
+  // Size after cropping and the requested rotation
+  let width = crop?.width ?? orientedWidth;
+  let height = crop?.height ?? orientedHeight;
+  if (isQuarterTurn(requested)) [width, height] = [height, width];
+
+  const region = crop && mapRegion(crop, requested, orientedWidth, orientedHeight);
+
+  if (total.angle !== 0) {
+    // Calling extract after rotate makes sharp rotate first
+    if (total.mirror) pipeline.flop();
+    pipeline.rotate(total.angle);
+    if (region) pipeline.extract(region);
+  } else {
+    // Without a rotation the final frame has the stored size
+    if (region) pipeline.extract(total.mirror ? mapRegion(region, MIRROR, storedWidth, storedHeight) : region);
+    if (total.mirror) pipeline.flop();
+  }
+
+  return { orientation, width, height };
+}
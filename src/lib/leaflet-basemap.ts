@@ -0,0 +1,74 @@
+import type Leaflet from 'leaflet';
+import type { Map as LeafletMap } from 'leaflet';
+import {
+  getMapSource, MARKER_ICON_URLS, OFFLINE_BASEMAP_ATTRIBUTION, OFFLINE_BASEMAP_URL, OFFLINE_MAX_ZOOM
+} from '@/lib/map-config';
+
+interface BaseMapOptions {
+  center: [number, number];
+  tileZoom: number;     // initial zoom over map tiles
+  offlineZoom: number;  // initial zoom over the country outlines, which have no detail
+  onOfflineBasemap: () => void;
+}
+
+/**
+ * Create a Leaflet map with the configured basemap. When the tile server
+ * cannot be reached, or tiles are set to offline, the map falls back to the
+ * bundled country outlines and `onOfflineBasemap` is called.
+ * Leaflet is imported here rather than at module level because it touches
+ * `window` on import.
+ */
+export async function createBaseMap(
+  container: HTMLElement,
+  options: BaseMapOptions
+): Promise<{ L: typeof Leaflet; map: LeafletMap }> {
+  const L = (await import('leaflet')).default;
+
+  // Default marker images come from public/, not a CDN
+  delete (L.Icon.Default.prototype as unknown as { _getIconUrl?: unknown })._getIconUrl;
+  L.Icon.Default.mergeOptions(MARKER_ICON_URLS);
+
+  const source = getMapSource();
+  const map = L.map(container).setView(options.center, source.kind === 'tiles' ? options.tileZoom : options.offlineZoom);
+
+  let removed = false;
+  map.on('unload', () => { removed = true; });
+
+  // Country outlines shipped with the app, for when there is no tile server to reach
+  const showOfflineBasemap = async () => {
+    const response = await fetch(OFFLINE_BASEMAP_URL);
+    const world = await response.json();
+    if (removed) return;
+
+    L.geoJSON(world, {
+      interactive: false,
+      style: { color: '#4b5563', weight: 1, fillColor: '#27272a', fillOpacity: 1 },
+    }).addTo(map).bringToBack();
+    map.setMaxZoom(OFFLINE_MAX_ZOOM);
+    map.attributionControl.addAttribution(OFFLINE_BASEMAP_ATTRIBUTION);
+    options.onOfflineBasemap();
+  };
+
+  if (source.kind === 'tiles') {
+    const tiles = L.tileLayer(source.url, {
+      maxZoom: source.maxZoom,
+      attribution: source.attribution,
+    }).addTo(map);
+
+    // Several failures before any tile loads means the server is unreachable
+    let tileLoaded = false;
+    let tileFailures = 0;
+    tiles.on('tileload', () => { tileLoaded = true; });
+    tiles.on('tileerror', () => {
+      tileFailures++;
+      if (tileLoaded || tileFailures !== 3 || removed) return;
+      map.removeLayer(tiles);
+      map.setZoom(Math.min(map.getZoom(), OFFLINE_MAX_ZOOM));
+      showOfflineBasemap().catch(error => console.error('Error loading offline map:', error));
+    });
+  } else {
+    showOfflineBasemap().catch(error => console.error('Error loading offline map:', error));
+  }
+
+  return { L, map };
+}
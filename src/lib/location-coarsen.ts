@@ -0,0 +1,64 @@
+import type { WriteTags } from 'exiftool-vendored';
+import { EXIF_PRIVACY_CATEGORIES } from '@/lib/exif-categories';
+import { getExifTool, readGpsPosition, readGroupedTags, summarizeGroupedTag } from '@/lib/exiftool';
+import { coarsenCoordinates } from '@/lib/location-precision';
+import { CoarsenLocationResult, LocationPrecision } from '@/types/exif';
+
+const POSITION_TAGS = new Set(['GPSLatitude', 'GPSLongitude', 'GPSLatitudeRef', 'GPSLongitudeRef']);
+
+// Every sensitive GPS field other than the position itself. Altitude,
+// heading, speed, destination and timestamps narrow the position back down
+// or tie it to a moment; the positioning error would misstate the accuracy
+// of the coarsened position.
+const PRECISE_GPS_TAGS = new Set([
+  ...EXIF_PRIVACY_CATEGORIES.high.filter(tag => tag.startsWith('GPS') && !POSITION_TAGS.has(tag)),
+  'GPSHPositioningError',
+]);
+
+type CoarsenManifest = Pick<CoarsenLocationResult, 'original' | 'coarsened' | 'removed' | 'warnings'>;
+
+/**
+ * Rewrite the GPS position of the file at `filePath` in place to the given
+ * precision and drop the fields that would give the exact spot away. XMP
+ * copies of the position are coarsened too, since viewers read either.
+ * Returns null when the file has no GPS position.
+ */
+export async function coarsenLocation(filePath: string, precision: LocationPrecision): Promise<CoarsenManifest | null> {
+  const position = await readGpsPosition(filePath);
+  if (!position) return null;
+
+  const coarsened = coarsenCoordinates(position.latitude, position.longitude, precision);
+  const before = await readGroupedTags(filePath);
+
+  const writes: Record<string, string | number | null> = {
+    'EXIF:GPSLatitude': Math.abs(coarsened.latitude),
+    'EXIF:GPSLatitudeRef': coarsened.latitude < 0 ? 'S' : 'N',
+    'EXIF:GPSLongitude': Math.abs(coarsened.longitude),
+    'EXIF:GPSLongitudeRef': coarsened.longitude < 0 ? 'W' : 'E',
+  };
+
+  for (const tag of before) {
+    if (PRECISE_GPS_TAGS.has(tag.tag)) {
+      writes[`${tag.group1}:${tag.tag}`] = null;
+    } else if (tag.group0 === 'XMP' && (tag.tag === 'GPSLatitude' || tag.tag === 'GPSLongitude')) {
+      // XMP carries the hemisphere in the value, so signed degrees are written as is
+      writes[`${tag.group1}:${tag.tag}`] = tag.tag === 'GPSLatitude' ? coarsened.latitude : coarsened.longitude;
+    }
+  }
+
+  const result = await getExifTool().write(filePath, writes as WriteTags, {
+    writeArgs: ['-overwrite_original'],
+  });
+
+  const remainingKeys = new Set((await readGroupedTags(filePath)).map(tag => tag.key));
+  const removed = before
+    .filter(tag => PRECISE_GPS_TAGS.has(tag.tag) && !remainingKeys.has(tag.key))
+    .map(summarizeGroupedTag);
+
+  return {
+    original: { latitude: position.latitude, longitude: position.longitude },
+    coarsened,
+    removed,
+    warnings: (result.warnings || []).map(warning => warning.replace(` - ${filePath}`, '')),
+  };
+}
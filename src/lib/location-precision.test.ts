@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { coarsenCoordinates, LOCATION_PRECISION_PRESETS, parseLocationPrecision } from '@/lib/location-precision';
+
+// Equirectangular distance in metres, close enough at the scales tested here
+function distanceM(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const x = ((lon2 - lon1) * Math.PI / 180) * Math.cos(((lat1 + lat2) / 2) * Math.PI / 180);
+  const y = (lat2 - lat1) * Math.PI / 180;
+  return Math.hypot(x, y) * 6371000;
+}
+
+describe('coarsenCoordinates', () => {
+  it('rounds to decimal places and reports the worst-case error', () => {
+    expect(coarsenCoordinates(48.858412, 2.294513, { kind: 'decimals', decimals: 3 })).toEqual({
+      latitude: 48.858,
+      longitude: 2.295,
+      radiusM: 67,
+    });
+    expect(coarsenCoordinates(-33.85681, -151.21534, { kind: 'decimals', decimals: 0 })).toMatchObject({
+      latitude: -34,
+      longitude: -151,
+    });
+  });
+
+  it('snaps nearby points to the same grid cell centre', () => {
+    const precision = { kind: 'grid', cellKm: 10 } as const;
+    const a = coarsenCoordinates(48.8584, 2.2945, precision);
+    const b = coarsenCoordinates(48.8590, 2.2950, precision);
+
+    expect(b).toEqual(a);
+    expect(a.radiusM).toBe(7071);
+  });
+
+  it.each(LOCATION_PRECISION_PRESETS.filter(preset => preset.precision.kind === 'grid'))(
+    'keeps the $value cell within its radius of the original',
+    ({ precision }) => {
+      for (const [latitude, longitude] of [[48.8584, 2.2945], [-33.8568, 151.2153], [64.1466, -21.9426], [0.0001, -179.9999]]) {
+        const coarse = coarsenCoordinates(latitude, longitude, precision);
+        expect(distanceM(latitude, longitude, coarse.latitude, coarse.longitude)).toBeLessThanOrEqual(coarse.radiusM);
+      }
+    }
+  );
+
+  it('stays within valid coordinates near the poles and the antimeridian', () => {
+    const coarse = coarsenCoordinates(89.99, 179.99, { kind: 'grid', cellKm: 100 });
+    expect(coarse.latitude).toBeLessThanOrEqual(90);
+    expect(coarse.longitude).toBeGreaterThanOrEqual(-180);
+    expect(coarse.longitude).toBeLessThanOrEqual(180);
+  });
+});
+
+describe('parseLocationPrecision', () => {
+  it('accepts decimal places and grid cells in range', () => {
+    expect(parseLocationPrecision({ kind: 'decimals', decimals: 2 })).toEqual({ precision: { kind: 'decimals', decimals: 2 } });
+    expect(parseLocationPrecision({ kind: 'grid', cellKm: 0.5 })).toEqual({ precision: { kind: 'grid', cellKm: 0.5 } });
+  });
+
+  it('rejects precisions out of range or of the wrong shape', () => {
+    expect(parseLocationPrecision(null)).toEqual({ error: 'Precision must be an object' });
+    expect(parseLocationPrecision({ kind: 'decimals', decimals: 6 })).toEqual({ error: 'Decimal places must be a whole number from 0 to 5' });
+    expect(parseLocationPrecision({ kind: 'decimals', decimals: 1.5 })).toEqual({ error: 'Decimal places must be a whole number from 0 to 5' });
+    expect(parseLocationPrecision({ kind: 'grid', cellKm: 0.05 })).toEqual({ error: 'Grid cell must be between 0.1 and 1000 km' });
+    expect(parseLocationPrecision({ kind: 'grid', cellKm: '10' })).toEqual({ error: 'Grid cell must be between 0.1 and 1000 km' });
+    expect(parseLocationPrecision({ kind: 'hex', cellKm: 10 })).toEqual({ error: 'Precision kind must be decimals or grid' });
+  });
+});
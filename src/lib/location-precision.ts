@@ -0,0 +1,83 @@
+import { CoarsenedLocation, LocationPrecision } from '@/types/exif';
+
+// Length of one degree of latitude, and of longitude at the equator
+const METRES_PER_DEGREE = 111320;
+
+export const MAX_DECIMALS = 5;
+export const MIN_CELL_KM = 0.1;
+export const MAX_CELL_KM = 1000;
+
+export const LOCATION_PRECISION_PRESETS: { value: string; label: string; precision: LocationPrecision }[] = [
+  { value: 'street', label: 'Street (~100 m)', precision: { kind: 'decimals', decimals: 3 } },
+  { value: 'neighbourhood', label: 'Neighbourhood (~1 km)', precision: { kind: 'grid', cellKm: 1 } },
+  { value: 'city', label: 'City (~10 km)', precision: { kind: 'grid', cellKm: 10 } },
+  { value: 'region', label: 'Region (~100 km)', precision: { kind: 'grid', cellKm: 100 } },
+];
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Replace a position with a coarser one that every position nearby shares.
+ * Grid cells are square on the ground, so cells get wider in longitude
+ * towards the poles; points snap to the cell centre rather than a corner
+ * so the error is never more than half the cell's diagonal.
+ */
+export function coarsenCoordinates(latitude: number, longitude: number, precision: LocationPrecision): CoarsenedLocation {
+  if (precision.kind === 'decimals') {
+    const step = 10 ** -precision.decimals;
+    const coarseLatitude = Number(latitude.toFixed(precision.decimals));
+    const coarseLongitude = Number(longitude.toFixed(precision.decimals));
+    const halfStep = (step / 2) * METRES_PER_DEGREE;
+
+    return {
+      latitude: coarseLatitude,
+      longitude: coarseLongitude,
+      radiusM: Math.round(Math.hypot(halfStep, halfStep * Math.cos((latitude * Math.PI) / 180))),
+    };
+  }
+
+  const cellM = precision.cellKm * 1000;
+  const latitudeStep = cellM / METRES_PER_DEGREE;
+  const coarseLatitude = clamp((Math.floor(latitude / latitudeStep) + 0.5) * latitudeStep, -90, 90);
+
+  // A cell of the same width on the ground spans more degrees away from the equator
+  const cosine = Math.cos((coarseLatitude * Math.PI) / 180);
+  const longitudeStep = Math.min(360, cellM / (METRES_PER_DEGREE * Math.max(cosine, 1e-6)));
+  const column = Math.floor((longitude + 180) / longitudeStep);
+  const coarseLongitude = clamp(-180 + (column + 0.5) * longitudeStep, -180, 180);
+
+  return {
+    latitude: Number(coarseLatitude.toFixed(6)),
+    longitude: Number(coarseLongitude.toFixed(6)),
+    radiusM: Math.round(cellM / Math.SQRT2),
+  };
+}
+
+/**
+ * Validate a precision sent by the client, e.g. {"kind":"grid","cellKm":10}.
+ */
+export function parseLocationPrecision(raw: unknown): { precision: LocationPrecision } | { error: string } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { error: 'Precision must be an object' };
+  }
+
+  const { kind, decimals, cellKm } = raw as Record<string, unknown>;
+
+  if (kind === 'decimals') {
+    if (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+      return { error: `Decimal places must be a whole number from 0 to ${MAX_DECIMALS}` };
+    }
+    return { precision: { kind, decimals } };
+  }
+
+  if (kind === 'grid') {
+    if (typeof cellKm !== 'number' || !Number.isFinite(cellKm) || cellKm < MIN_CELL_KM || cellKm > MAX_CELL_KM) {
+      return { error: `Grid cell must be between ${MIN_CELL_KM} and ${MAX_CELL_KM} km` };
+    }
+    return { precision: { kind, cellKm } };
+  }
+
+  return { error: 'Precision kind must be decimals or grid' };
+}
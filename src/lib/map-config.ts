@@ -0,0 +1,46 @@
+// Where LocationViewer gets its map from. Configured at build time, since
+// NEXT_PUBLIC_ variables are inlined into the client bundle:
+//
+//   NEXT_PUBLIC_MAP_TILES        unset for OpenStreetMap, "offline" for the
+//                                bundled world map only, or an XYZ URL
+//                                template such as /tiles/{z}/{x}/{y}.png
+//   NEXT_PUBLIC_MAP_ATTRIBUTION  attribution shown for a custom tile URL
+//   NEXT_PUBLIC_MAP_MAX_ZOOM     highest zoom the tile server provides
+
+export type MapSource =
+  | { kind: 'tiles'; url: string; attribution: string; maxZoom: number }
+  | { kind: 'offline' };
+
+const OPENSTREETMAP: MapSource = {
+  kind: 'tiles',
+  url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '&copy; <a href="http://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+  maxZoom: 19,
+};
+
+// Natural Earth 1:110m country outlines, served from public/
+export const OFFLINE_BASEMAP_URL = '/map/world-110m.geojson';
+export const OFFLINE_BASEMAP_ATTRIBUTION = 'Made with <a href="https://www.naturalearthdata.com">Natural Earth</a>';
+// The outlines are too coarse to be useful any closer
+export const OFFLINE_MAX_ZOOM = 10;
+
+// Served from public/leaflet rather than a CDN
+export const MARKER_ICON_URLS = {
+  iconUrl: '/leaflet/marker-icon.png',
+  iconRetinaUrl: '/leaflet/marker-icon-2x.png',
+  shadowUrl: '/leaflet/marker-shadow.png',
+};
+
+export function getMapSource(): MapSource {
+  const tiles = process.env.NEXT_PUBLIC_MAP_TILES?.trim();
+  if (!tiles) return OPENSTREETMAP;
+  if (tiles === 'offline') return { kind: 'offline' };
+
+  const maxZoom = Number(process.env.NEXT_PUBLIC_MAP_MAX_ZOOM);
+  return {
+    kind: 'tiles',
+    url: tiles,
+    attribution: process.env.NEXT_PUBLIC_MAP_ATTRIBUTION ?? '',
+    maxZoom: Number.isInteger(maxZoom) && maxZoom > 0 ? maxZoom : 19,
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { getEditableTag, toEditableValue, toExifToolTags, validateMetadataEdit } from '@/lib/metadata-edit';
+
+describe('validateMetadataEdit', () => {
+  it('accepts valid values for each tag type', () => {
+    expect(validateMetadataEdit({ tag: 'Artist', value: 'Jane Doe' })).toBeNull();
+    expect(validateMetadataEdit({ tag: 'DateTimeOriginal', value: '2024:05:01 10:20:30' })).toBeNull();
+    expect(validateMetadataEdit({ tag: 'ExposureTime', value: '1/250' })).toBeNull();
+    expect(validateMetadataEdit({ tag: 'ISO', value: '400' })).toBeNull();
+    expect(validateMetadataEdit({ tag: 'Keywords', value: 'travel, beach' })).toBeNull();
+  });
+
+  it('accepts null as a deletion', () => {
+    expect(validateMetadataEdit({ tag: 'Artist', value: null })).toBeNull();
+  });
+
+  it('rejects values of the wrong type', () => {
+    expect(validateMetadataEdit({ tag: 'DateTimeOriginal', value: '2024:02:30 10:00:00' })).toBe('Date Taken is not a valid date and time');
+    expect(validateMetadataEdit({ tag: 'ISO', value: '4.5' })).toBe('ISO must be a whole number');
+    expect(validateMetadataEdit({ tag: 'Orientation', value: '9' })).toBe('Orientation must be at most 8');
+  });
+
+  it('rejects unknown tag names', () => {
+    expect(validateMetadataEdit({ tag: 'GPSLatitude', value: '48.85' })).toBe('GPSLatitude cannot be edited');
+    expect(validateMetadataEdit({ tag: 'GPSLatitude', value: null })).toBe('GPSLatitude cannot be edited');
+  });
+
+  it.each(['constructor', 'toString', 'hasOwnProperty', '__proto__'])('rejects the inherited key %s', (tag) => {
+    expect(getEditableTag(tag)).toBeUndefined();
+    expect(validateMetadataEdit({ tag, value: 'x' })).toBe(`${tag} cannot be edited`);
+    expect(validateMetadataEdit({ tag, value: null })).toBe(`${tag} cannot be edited`);
+  });
+});
+
+describe('toExifToolTags', () => {
+  it('writes typed values and deletes by bare tag name', () => {
+    expect(toExifToolTags([
+      { tag: 'Orientation', value: '6' },
+      { tag: 'Keywords', value: 'a, b' },
+      { tag: 'Copyright', value: null },
+    ])).toEqual({
+      'EXIF:Orientation#': 6,
+      'IPTC:Keywords': ['a', 'b'],
+      Copyright: null,
+    });
+  });
+
+  it('throws on tags that are not editable', () => {
+    expect(() => toExifToolTags([{ tag: 'constructor', value: null }])).toThrow('constructor cannot be edited');
+  });
+});
+
+describe('toEditableValue', () => {
+  it('formats wall-clock dates the way the editor expects', () => {
+    expect(toEditableValue('DateTimeOriginal', '2024-05-01T10:20:30')).toBe('2024:05:01 10:20:30');
+    expect(toEditableValue('constructor', 'x')).toBe('x');
+  });
+});
@@ -0,0 +1,161 @@
+import { MetadataEdit } from '@/types/exif';
+
+export type EditableTagType = 'string' | 'datetime' | 'rational' | 'integer' | 'list';
+
+export interface EditableTagSpec {
+  label: string;
+  type: EditableTagType;
+  writeAs: string;      // exiftool tag name, group-qualified where the tag name is ambiguous
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  placeholder?: string;
+}
+
+// Tags the editor can write. Anything else is rejected by the server route.
+export const EDITABLE_TAGS: Record<string, EditableTagSpec> = {
+  Artist: { label: 'Artist', type: 'string', writeAs: 'EXIF:Artist', maxLength: 255 },
+  Copyright: { label: 'Copyright', type: 'string', writeAs: 'EXIF:Copyright', maxLength: 255 },
+  ImageDescription: { label: 'Image Description', type: 'string', writeAs: 'EXIF:ImageDescription', maxLength: 2000 },
+  UserComment: { label: 'User Comment', type: 'string', writeAs: 'EXIF:UserComment', maxLength: 2000 },
+  Software: { label: 'Software', type: 'string', writeAs: 'EXIF:Software', maxLength: 255 },
+  Make: { label: 'Camera Make', type: 'string', writeAs: 'EXIF:Make', maxLength: 255 },
+  Model: { label: 'Camera Model', type: 'string', writeAs: 'EXIF:Model', maxLength: 255 },
+  DateTimeOriginal: { label: 'Date Taken', type: 'datetime', writeAs: 'EXIF:DateTimeOriginal', placeholder: 'YYYY:MM:DD HH:MM:SS' },
+  DateTimeDigitized: { label: 'Date Digitized', type: 'datetime', writeAs: 'EXIF:CreateDate', placeholder: 'YYYY:MM:DD HH:MM:SS' },
+  DateTime: { label: 'Date Modified', type: 'datetime', writeAs: 'EXIF:ModifyDate', placeholder: 'YYYY:MM:DD HH:MM:SS' },
+  ExposureTime: { label: 'Exposure Time', type: 'rational', writeAs: 'EXIF:ExposureTime', min: 0, placeholder: '1/250' },
+  FNumber: { label: 'F-Number', type: 'rational', writeAs: 'EXIF:FNumber', min: 0, max: 1000, placeholder: '2.8' },
+  FocalLength: { label: 'Focal Length (mm)', type: 'rational', writeAs: 'EXIF:FocalLength', min: 0, placeholder: '50' },
+  ISO: { label: 'ISO', type: 'integer', writeAs: 'EXIF:ISO', min: 1, max: 6553600 },
+  Orientation: { label: 'Orientation', type: 'integer', writeAs: 'EXIF:Orientation#', min: 1, max: 8 },
+  Title: { label: 'Title (XMP)', type: 'string', writeAs: 'XMP-dc:Title', maxLength: 255 },
+  Creator: { label: 'Creator (XMP)', type: 'string', writeAs: 'XMP-dc:Creator', maxLength: 255 },
+  Keywords: { label: 'Keywords (IPTC)', type: 'list', writeAs: 'IPTC:Keywords', maxLength: 64, placeholder: 'travel, beach' },
+  'By-line': { label: 'By-line (IPTC)', type: 'string', writeAs: 'IPTC:By-line', maxLength: 32 },
+};
+
+// EDITABLE_TAGS is a plain object, so a bare lookup would also find
+// "constructor", "toString" and the rest of Object.prototype
+export function getEditableTag(tag: string): EditableTagSpec | undefined {
+  return Object.hasOwn(EDITABLE_TAGS, tag) ? EDITABLE_TAGS[tag] : undefined;
+}
+
+const DATETIME_PATTERN = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/;
+const RATIONAL_PATTERN = /^(\d+(?:\.\d+)?)(?:\/(\d+(?:\.\d+)?))?$/;
+
+function parseRational(value: string): number | null {
+  const match = RATIONAL_PATTERN.exec(value);
+  if (!match) return null;
+  const numerator = Number(match[1]);
+  const denominator = match[2] !== undefined ? Number(match[2]) : 1;
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+function checkRange(spec: EditableTagSpec, value: number): string | null {
+  if (spec.min !== undefined && value < spec.min) return `${spec.label} must be at least ${spec.min}`;
+  if (spec.max !== undefined && value > spec.max) return `${spec.label} must be at most ${spec.max}`;
+  return null;
+}
+
+/**
+ * Validate a single edit against its tag's expected type. Returns an error
+ * message, or null when the edit can be written. A null value means delete.
+ */
+export function validateMetadataEdit(edit: MetadataEdit): string | null {
+  const spec = getEditableTag(edit.tag);
+  if (!spec) return `${edit.tag} cannot be edited`;
+  if (edit.value === null) return null;
+
+  const value = edit.value.trim();
+  if (value === '') return `${spec.label} cannot be empty; delete the tag instead`;
+
+  switch (spec.type) {
+    case 'string':
+      if (spec.maxLength && value.length > spec.maxLength) {
+        return `${spec.label} must be at most ${spec.maxLength} characters`;
+      }
+      return null;
+
+    case 'list': {
+      const items = value.split(',').map(item => item.trim()).filter(Boolean);
+      const tooLong = items.find(item => spec.maxLength && item.length > spec.maxLength);
+      return tooLong ? `Each ${spec.label} entry must be at most ${spec.maxLength} characters` : null;
+    }
+
+    case 'datetime': {
+      const match = DATETIME_PATTERN.exec(value);
+      if (!match) return `${spec.label} must use the format YYYY:MM:DD HH:MM:SS`;
+
+      const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+      const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+      const valid = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 &&
+        date.getUTCDate() === day && hour < 24 && minute < 60 && second < 60;
+      return valid ? null : `${spec.label} is not a valid date and time`;
+    }
+
+    case 'rational': {
+      const parsed = parseRational(value);
+      if (parsed === null) return `${spec.label} must be a number or a fraction like 1/250`;
+      return checkRange(spec, parsed);
+    }
+
+    case 'integer': {
+      if (!/^\d+$/.test(value)) return `${spec.label} must be a whole number`;
+      return checkRange(spec, Number(value));
+    }
+
+    default: {
+      const unsupported: never = spec.type;
+      return `${spec.label} has an unsupported type ${unsupported}`;
+    }
+  }
+}
+
+/**
+ * Convert validated edits into the tag map exiftool expects. Throws on a tag
+ * that is not editable, as validateMetadataEdit would have rejected it.
+ */
+export function toExifToolTags(edits: MetadataEdit[]): Record<string, string | string[] | number | null> {
+  const tags: Record<string, string | string[] | number | null> = {};
+
+  for (const edit of edits) {
+    const spec = getEditableTag(edit.tag);
+    if (!spec) throw new Error(`${edit.tag} cannot be edited`);
+    if (edit.value === null) {
+      // Deleting by bare name removes the tag from every group it appears in
+      tags[spec.writeAs.replace(/^[^:]+:/, '').replace(/#$/, '')] = null;
+      continue;
+    }
+
+    const value = edit.value.trim();
+    if (spec.type === 'list') {
+      tags[spec.writeAs] = value.split(',').map(item => item.trim()).filter(Boolean);
+    } else if (spec.type === 'integer') {
+      tags[spec.writeAs] = Number(value);
+    } else {
+      tags[spec.writeAs] = value;
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Format an extracted tag value the way the editor expects it to be typed,
+ * e.g. ISO date strings become EXIF "YYYY:MM:DD HH:MM:SS".
+ */
+export function toEditableValue(tag: string, value: unknown): string {
+  const spec = getEditableTag(tag);
+  if (value === null || value === undefined) return '';
+
+  if (spec?.type === 'datetime' && typeof value === 'string') {
+    const iso = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/.exec(value);
+    if (iso) {
+      return `${iso[1]}:${iso[2]}:${iso[3]} ${iso[4]}:${iso[5]}:${iso[6]}`;
+    }
+  }
+
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
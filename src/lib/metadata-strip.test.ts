@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { categorizeExifTag } from '@/lib/exif-categories';
+import { categorizeGroupedTag, type GroupedTag } from '@/lib/exiftool';
+import { isStripPolicy, STRIP_POLICY_CATEGORIES } from '@/lib/metadata-strip';
+
+function groupedTag(group0: string, group1: string, tag: string): GroupedTag {
+  return { key: `${group0}:${group1}:${tag}`, group0, group1, tag, value: 'x' };
+}
+
+describe('STRIP_POLICY_CATEGORIES', () => {
+  it('removes more categories with each stricter policy', () => {
+    expect(STRIP_POLICY_CATEGORIES.high).toEqual(['high']);
+    expect(STRIP_POLICY_CATEGORIES['high-medium']).toEqual(['high', 'medium']);
+    expect(STRIP_POLICY_CATEGORIES.all).toEqual(['high', 'medium', 'safe']);
+  });
+});
+
+describe('isStripPolicy', () => {
+  it.each(['high', 'high-medium', 'all'])('accepts %s', (policy) => {
+    expect(isStripPolicy(policy)).toBe(true);
+  });
+
+  it.each(['none', 'HIGH', '', 1, null, undefined])('rejects %s', (policy) => {
+    expect(isStripPolicy(policy)).toBe(false);
+  });
+
+  it.each(['constructor', 'toString', '__proto__'])('rejects the inherited key %s', (policy) => {
+    expect(isStripPolicy(policy)).toBe(false);
+  });
+});
+
+describe('categorizeGroupedTag', () => {
+  it('categorizes tags by name', () => {
+    expect(categorizeGroupedTag(groupedTag('EXIF', 'GPS', 'GPSLatitude'))).toBe('high');
+    expect(categorizeGroupedTag(groupedTag('EXIF', 'ExifIFD', 'FNumber'))).toBe('medium');
+  });
+
+  it('treats every ICC profile field as the profile itself', () => {
+    expect(categorizeGroupedTag(groupedTag('ICC_Profile', 'ICC-header', 'ProfileCreator'))).toBe(categorizeExifTag('ICCProfile'));
+    expect(categorizeGroupedTag(groupedTag('ICC_Profile', 'ICC_Profile', 'ProfileDescription'))).toBe(categorizeExifTag('ICCProfile'));
+  });
+});
@@ -0,0 +1,76 @@
+import type { WriteTags } from 'exiftool-vendored';
+import { categorizeGroupedTag, getExifTool, readGroupedTags, summarizeGroupedTag } from '@/lib/exiftool';
+import { ExifTag, StripManifest, StripPolicy, StrippedTag } from '@/types/exif';
+
+// Categories removed by each policy ('all' wipes every writable group instead)
+export const STRIP_POLICY_CATEGORIES: Record<StripPolicy, ExifTag['category'][]> = {
+  high: ['high'],
+  'high-medium': ['high', 'medium'],
+  all: ['high', 'medium', 'safe'],
+};
+
+export function isStripPolicy(value: unknown): value is StripPolicy {
+  return typeof value === 'string' && Object.hasOwn(STRIP_POLICY_CATEGORIES, value);
+}
+
+/**
+ * Remove metadata from the file at `filePath` in place according to `policy`
+ * and report which tags were actually removed. The manifest is computed by
+ * re-reading the file, so tags exiftool could not delete are never reported
+ * as removed.
+ */
+export async function stripMetadata(filePath: string, policy: StripPolicy): Promise<StripManifest> {
+  const exiftool = getExifTool();
+  const before = await readGroupedTags(filePath);
+  const categories = STRIP_POLICY_CATEGORIES[policy];
+
+  let warnings: string[] = [];
+
+  if (policy === 'all') {
+    const result = await exiftool.write(filePath, {}, {
+      writeArgs: ['-all=', '-overwrite_original'],
+    });
+    warnings = result.warnings || [];
+  } else {
+    const deletions: Record<string, null> = {};
+
+    for (const tag of before) {
+      if (!categories.includes(categorizeGroupedTag(tag))) continue;
+
+      if (tag.group0 === 'MakerNotes') {
+        // Maker notes are an opaque vendor block and can only be removed whole
+        deletions['MakerNotes:All'] = null;
+      } else if (tag.group0 === 'ICC_Profile') {
+        deletions['ICC_Profile:All'] = null;
+      } else {
+        deletions[`${tag.group1}:${tag.tag}`] = null;
+      }
+    }
+
+    if (Object.keys(deletions).length > 0) {
+      const result = await exiftool.write(filePath, deletions as WriteTags, {
+        writeArgs: ['-overwrite_original'],
+      });
+      warnings = result.warnings || [];
+    }
+  }
+
+  const after = await readGroupedTags(filePath);
+  const remainingKeys = new Set(after.map(tag => tag.key));
+
+  const removed: StrippedTag[] = before
+    .filter(tag => !remainingKeys.has(tag.key))
+    .map(summarizeGroupedTag);
+
+  return {
+    policy,
+    removed,
+    retainedCount: after.length,
+    // exiftool appends the temp file path to its warnings; it means nothing to the client.
+    // "Not writable" warnings come from format structure (PNG BitDepth, RIFF
+    // flags) that shares tag names with EXIF; the re-read above already covers them.
+    warnings: warnings
+      .filter(warning => !warning.includes("doesn't exist or isn't writable"))
+      .map(warning => warning.replace(` - ${filePath}`, '')),
+  };
+}
@@ -0,0 +1,189 @@
+import type { ExifExport } from '@/lib/exif-export';
+import { BatchExifEntry, CaptureTime, ProcessedExifData } from '@/types/exif';
+
+export type TrackExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export const TRACK_EXPORT_FORMATS: { value: TrackExportFormat; label: string }[] = [
+  { value: 'gpx', label: 'GPX' },
+  { value: 'kml', label: 'KML' },
+  { value: 'geojson', label: 'GeoJSON' },
+];
+
+export interface PhotoPoint {
+  index: number;    // position in the batch, for opening the image's EXIF
+  filename: string;
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  time?: string;    // ISO 8601 UTC capture time; points without one are left out of the track
+  captureTime?: CaptureTime; // for showing the time as the camera recorded it
+}
+
+export interface PointCluster<T> {
+  points: T[];
+  latitude: number;  // mean position of the points
+  longitude: number;
+}
+
+// In UTC so photos from different time zones sort together. A camera time
+// with no known zone falls back to the GPS fix, then to its wall clock as if UTC.
+function captureTime(data: ProcessedExifData): string | undefined {
+  const capture = data.captureTime;
+  return capture?.utc ?? data.gpsData?.timestamp ?? (capture && new Date(`${capture.local}Z`).toISOString());
+}
+
+/**
+ * Every geotagged image of a batch, ordered by capture time. Images without
+ * a capture time keep their batch order at the end.
+ */
+export function collectPhotoPoints(entries: BatchExifEntry[]): PhotoPoint[] {
+  const points: PhotoPoint[] = [];
+
+  entries.forEach((entry, index) => {
+    const gps = entry.data?.gpsData;
+    if (!entry.data || !gps) return;
+    points.push({
+      index,
+      filename: entry.filename,
+      latitude: gps.latitude,
+      longitude: gps.longitude,
+      altitude: gps.altitude,
+      time: captureTime(entry.data),
+      captureTime: entry.data.captureTime,
+    });
+  });
+
+  return points.sort((a, b) => {
+    if (a.time && b.time) return a.time.localeCompare(b.time);
+    if (a.time || b.time) return a.time ? -1 : 1;
+    return a.index - b.index;
+  });
+}
+
+export function trackPoints(points: PhotoPoint[]): PhotoPoint[] {
+  return points.filter(point => point.time);
+}
+
+/**
+ * Group points that land in the same `cellSize` square once projected to
+ * screen pixels, so the clusters follow the zoom level.
+ */
+export function clusterPoints<T extends { latitude: number; longitude: number }>(
+  points: T[],
+  project: (point: T) => { x: number; y: number },
+  cellSize: number
+): PointCluster<T>[] {
+  const cells = new Map<string, T[]>();
+
+  for (const point of points) {
+    const { x, y } = project(point);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) ?? []), point]);
+  }
+
+  return [...cells.values()].map(cellPoints => ({
+    points: cellPoints,
+    latitude: cellPoints.reduce((sum, point) => sum + point.latitude, 0) / cellPoints.length,
+    longitude: cellPoints.reduce((sum, point) => sum + point.longitude, 0) / cellPoints.length,
+  }));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Photos as waypoints, plus the time-ordered ones as a single track
+export function buildGpx(points: PhotoPoint[]): string {
+  const pointBody = (point: PhotoPoint) => [
+    point.altitude !== undefined ? `<ele>${point.altitude}</ele>` : '',
+    point.time ? `<time>${point.time}</time>` : '',
+    `<name>${escapeXml(point.filename)}</name>`,
+  ].join('');
+
+  const waypoints = points.map(point =>
+    `  <wpt lat="${point.latitude}" lon="${point.longitude}">${pointBody(point)}</wpt>`
+  );
+  const track = trackPoints(points).map(point =>
+    `      <trkpt lat="${point.latitude}" lon="${point.longitude}">${pointBody(point)}</trkpt>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="ExifLab" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...waypoints,
+    ...(track.length > 0 ? ['  <trk>', '    <name>Photo track</name>', '    <trkseg>', ...track, '    </trkseg>', '  </trk>'] : []),
+    '</gpx>',
+  ].join('\n');
+}
+
+export function buildKml(points: PhotoPoint[]): string {
+  // KML coordinates are longitude first
+  const coordinates = (point: PhotoPoint) =>
+    [point.longitude, point.latitude, ...(point.altitude !== undefined ? [point.altitude] : [])].join(',');
+
+  const placemarks = points.map(point => [
+    '    <Placemark>',
+    `      <name>${escapeXml(point.filename)}</name>`,
+    ...(point.time ? [`      <TimeStamp><when>${point.time}</when></TimeStamp>`] : []),
+    `      <Point><coordinates>${coordinates(point)}</coordinates></Point>`,
+    '    </Placemark>',
+  ].join('\n'));
+
+  const track = trackPoints(points);
+  const line = track.length > 1 ? [
+    '    <Placemark>',
+    '      <name>Photo track</name>',
+    `      <LineString><coordinates>${track.map(coordinates).join(' ')}</coordinates></LineString>`,
+    '    </Placemark>',
+  ].join('\n') : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>Photo locations</name>',
+    ...placemarks,
+    ...(line ? [line] : []),
+    '  </Document>',
+    '</kml>',
+  ].join('\n');
+}
+
+export function buildGeoJson(points: PhotoPoint[]): string {
+  const position = (point: PhotoPoint) =>
+    [point.longitude, point.latitude, ...(point.altitude !== undefined ? [point.altitude] : [])];
+
+  const track = trackPoints(points);
+  const features: object[] = points.map(point => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: position(point) },
+    properties: { filename: point.filename, time: point.time ?? null },
+  }));
+
+  if (track.length > 1) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: track.map(position) },
+      properties: { name: 'Photo track', times: track.map(point => point.time) },
+    });
+  }
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+export function buildTrackExport(format: TrackExportFormat, points: PhotoPoint[]): ExifExport {
+  const date = new Date().toISOString().slice(0, 10);
+
+  switch (format) {
+    case 'gpx':
+      return { content: buildGpx(points), mimeType: 'application/gpx+xml', filename: `photo-track-${date}.gpx` };
+    case 'kml':
+      return { content: buildKml(points), mimeType: 'application/vnd.google-earth.kml+xml', filename: `photo-track-${date}.kml` };
+    case 'geojson':
+      return { content: buildGeoJson(points), mimeType: 'application/geo+json', filename: `photo-track-${date}.geojson` };
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { gradeForScore, scorePrivacy } from '@/lib/privacy-score';
+import { ExifTag } from '@/types/exif';
+
+function tag(name: string, value: unknown = 'x'): ExifTag {
+  return { tag: name, value, category: 'high' };
+}
+
+describe('gradeForScore', () => {
+  it.each([
+    [100, 'A'], [95, 'A'], [94, 'B'], [80, 'B'], [79, 'C'], [65, 'C'], [64, 'D'], [50, 'D'], [49, 'F'], [0, 'F'],
+  ])('grades %d as %s', (score, grade) => {
+    expect(gradeForScore(score)).toBe(grade);
+  });
+});
+
+describe('scorePrivacy', () => {
+  it('gives a clean file a perfect score', () => {
+    const report = scorePrivacy([tag('Make', 'Canon'), tag('ISO', 100)]);
+    expect(report).toMatchObject({ grade: 'A', score: 100, findings: [] });
+  });
+
+  it('drops a photo with coordinates alone to a D', () => {
+    const report = scorePrivacy([tag('GPSLatitude', 48.85), tag('GPSLongitude', 2.29)]);
+    expect(report.score).toBe(55);
+    expect(report.grade).toBe('D');
+    expect(report.findings).toHaveLength(1);
+    expect(report.findings[0]).toMatchObject({ id: 'gps', tags: ['GPSLatitude', 'GPSLongitude'] });
+  });
+
+  it('counts each rule once across EXIF and XMP copies', () => {
+    const report = scorePrivacy([tag('Artist', 'Jane'), tag('Creator', 'Jane'), tag('Artist', 'Jane')]);
+    expect(report.score).toBe(80);
+    expect(report.findings[0].tags).toEqual(['Artist', 'Creator']);
+  });
+
+  it('matches tag names case-insensitively', () => {
+    const report = scorePrivacy([tag('BodySerialNumber', '123'), tag('lensserialnumber', '456')]);
+    expect(report.findings[0]).toMatchObject({
+      id: 'serial',
+      reason: '2 device identifiers can link this photo to your other photos',
+    });
+  });
+
+  it('never scores below zero', () => {
+    const report = scorePrivacy([
+      tag('GPSLatitude'), tag('SerialNumber'), tag('Artist'), tag('Prompt'), tag('DateTimeOriginal'),
+    ]);
+    expect(report.score).toBe(0);
+    expect(report.grade).toBe('F');
+    expect(report.findings.map(finding => finding.id)).toEqual(['gps', 'serial', 'owner', 'ai-prompt', 'timestamp']);
+  });
+});
@@ -0,0 +1,123 @@
+import { ExifTag, GeocodedPlace, PrivacyFinding, PrivacyGrade, PrivacyReport } from '@/types/exif';
+import { describePlace } from '@/lib/utils';
+
+// What is known about the file beyond its tags
+export interface PrivacyContext {
+  place?: GeocodedPlace; // where the GPS coordinates point
+}
+
+interface PrivacyRule {
+  id: string;
+  label: string;
+  weight: number;
+  match: (tagName: string) => boolean;
+  reason: (tags: ExifTag[], context: PrivacyContext) => string;
+}
+
+const OWNER_TAGS = [
+  'artist', 'ownername', 'cameraownername', 'creator', 'author', 'by-line',
+  'copyright', 'copyrightnotice', 'rights', 'credit', 'publisher',
+];
+
+const TIMESTAMP_TAGS = [
+  'datetimeoriginal', 'datetimedigitized', 'createdate', 'datetime', 'modifydate',
+];
+
+const AI_PROMPT_TAGS = [
+  'prompt', 'negativeprompt', 'parameters', 'seed', 'sampler', 'cfgscale', 'steps',
+  'generationsettings', 'generatedby', 'aimodel',
+];
+
+// Weights are subtracted from a perfect score of 100. Exact coordinates alone
+// are enough to drop a photo to a D; everything else compounds on top.
+export const PRIVACY_RULES: PrivacyRule[] = [
+  {
+    id: 'gps',
+    label: 'GPS location',
+    weight: 45,
+    match: (tag) => ['gpslatitude', 'gpslongitude', 'latitude', 'longitude'].includes(tag),
+    reason: (_, { place }) => place
+      ? `Exact GPS coordinates reveal this photo was taken ${describePlace(place)}`
+      : 'Exact GPS coordinates reveal where the photo was taken',
+  },
+  {
+    id: 'serial',
+    label: 'Device serial numbers',
+    weight: 20,
+    match: (tag) => tag.includes('serial') || tag === 'imageuniqueid',
+    reason: (tags) => `${tags.length} device identifier${tags.length === 1 ? '' : 's'} can link this photo to your other photos`,
+  },
+  {
+    id: 'owner',
+    label: 'Owner names',
+    weight: 20,
+    match: (tag) => OWNER_TAGS.includes(tag),
+    reason: (tags) => `Names the photographer or owner (${tags.map(tag => String(tag.value)).join(', ')})`,
+  },
+  {
+    id: 'ai-prompt',
+    label: 'AI generation prompt',
+    weight: 15,
+    match: (tag) => AI_PROMPT_TAGS.includes(tag),
+    reason: () => 'AI generation prompts and settings may reveal personal interests',
+  },
+  {
+    id: 'timestamp',
+    label: 'Capture timestamps',
+    weight: 10,
+    match: (tag) => TIMESTAMP_TAGS.includes(tag),
+    reason: () => 'Capture time can reveal daily routines and when you were at a place',
+  },
+];
+
+const GRADE_THRESHOLDS: { grade: PrivacyGrade; minScore: number }[] = [
+  { grade: 'A', minScore: 95 },
+  { grade: 'B', minScore: 80 },
+  { grade: 'C', minScore: 65 },
+  { grade: 'D', minScore: 50 },
+  { grade: 'F', minScore: 0 },
+];
+
+const GRADE_SUMMARIES: Record<PrivacyGrade, string> = {
+  A: 'Safe to share. No identifying metadata was found.',
+  B: 'Mostly safe. Minor details could be removed before sharing.',
+  C: 'Some identifying metadata. Consider removing it before sharing.',
+  D: 'Identifying metadata found. Remove it before sharing publicly.',
+  F: 'Not safe to share. This photo leaks location or identity details.',
+};
+
+export function gradeForScore(score: number): PrivacyGrade {
+  return GRADE_THRESHOLDS.find(threshold => score >= threshold.minScore)?.grade || 'F';
+}
+
+/**
+ * Score the tags returned by processExifData. Each rule counts once no matter
+ * how many matching tags it finds, so a file with both EXIF and XMP copies of
+ * the same field is not penalised twice.
+ */
+export function scorePrivacy(tags: ExifTag[], context: PrivacyContext = {}): PrivacyReport {
+  const findings: PrivacyFinding[] = [];
+
+  for (const rule of PRIVACY_RULES) {
+    const matched = tags.filter(tag => rule.match(tag.tag.toLowerCase()));
+    if (matched.length === 0) continue;
+
+    findings.push({
+      id: rule.id,
+      label: rule.label,
+      weight: rule.weight,
+      reason: rule.reason(matched, context),
+      tags: Array.from(new Set(matched.map(tag => tag.tag))),
+    });
+  }
+
+  const score = Math.max(0, 100 - findings.reduce((total, finding) => total + finding.weight, 0));
+  const grade = gradeForScore(score);
+
+  return {
+    grade,
+    score,
+    findings,
+    summary: GRADE_SUMMARIES[grade],
+  };
+}
@@ -0,0 +1,134 @@
+import { ConversionProgress } from '@/types/exif';
+import { formatFileSize } from '@/lib/utils';
+
+// Share of the progress bar given to the upload; server stages fill the rest
+const UPLOAD_SHARE = 40;
+
+interface ProgressRequestOptions {
+  onProgress?: (progress: ConversionProgress) => void;
+  signal?: AbortSignal;
+}
+
+interface ServerEvent {
+  event: string;
+  data: string;
+}
+
+function parseServerEvent(block: string): ServerEvent {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  }
+
+  return { event, data: data.join('\n') };
+}
+
+/**
+ * POST a form and report real progress: upload bytes from the browser, then
+ * the stages the route streams back as Server-Sent Events. fetch cannot
+ * observe upload progress, hence XMLHttpRequest. Routes that answer with
+ * plain JSON (validation errors) are handled the same as a streamed result.
+ * Rejects with the server's error message, or an AbortError when `signal`
+ * fires.
+ */
+export function postWithProgress<T>(
+  url: string,
+  formData: FormData,
+  { onProgress, signal }: ProgressRequestOptions = {}
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let consumed = 0;
+    let settled = false;
+
+    const settle = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      outcome();
+    };
+
+    const isEventStream = () =>
+      xhr.getResponseHeader('Content-Type')?.includes('text/event-stream') ?? false;
+
+    // Handle every complete event that arrived since the last call
+    const readEvents = () => {
+      const blocks = xhr.responseText.slice(consumed).split('\n\n');
+      blocks.pop(); // incomplete event, or the empty string after the last separator
+
+      for (const block of blocks) {
+        consumed += block.length + 2;
+        const { event, data } = parseServerEvent(block);
+
+        if (event === 'progress') {
+          const stage = JSON.parse(data) as ConversionProgress;
+          onProgress?.({
+            ...stage,
+            progress: Math.round(UPLOAD_SHARE + (stage.progress * (100 - UPLOAD_SHARE)) / 100),
+          });
+        } else if (event === 'result') {
+          settle(() => resolve(JSON.parse(data) as T));
+        } else if (event === 'error') {
+          const { error } = JSON.parse(data) as { error?: string };
+          settle(() => reject(new Error(error || 'Request failed')));
+        }
+      }
+    };
+
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Accept', 'text/event-stream, application/json');
+
+    xhr.upload.onprogress = (event) => {
+      if (!event.lengthComputable || !onProgress) return;
+      onProgress({
+        stage: 'uploading',
+        progress: Math.round((event.loaded / event.total) * UPLOAD_SHARE),
+        message: `Uploading ${formatFileSize(event.loaded)} of ${formatFileSize(event.total)}...`,
+        loaded: event.loaded,
+        total: event.total,
+      });
+    };
+
+    xhr.onprogress = () => {
+      if (isEventStream()) readEvents();
+    };
+
+    xhr.onload = () => {
+      if (isEventStream()) {
+        readEvents();
+        settle(() => reject(new Error('The server closed the connection before finishing')));
+        return;
+      }
+
+      let body: { error?: string } | undefined;
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        console.error('Non-JSON response:', xhr.responseText);
+        settle(() => reject(new Error('Server returned invalid response format')));
+        return;
+      }
+
+      if (xhr.status < 200 || xhr.status >= 300) {
+        settle(() => reject(new Error(body?.error || `HTTP ${xhr.status}`)));
+      } else {
+        settle(() => resolve(body as T));
+      }
+    };
+
+    xhr.onerror = () => settle(() => reject(new Error('Network error. Please check your connection and try again.')));
+    xhr.onabort = () => settle(() => reject(new DOMException('The request was aborted', 'AbortError')));
+
+    if (signal) {
+      if (signal.aborted) {
+        settle(() => reject(new DOMException('The request was aborted', 'AbortError')));
+        return;
+      }
+      signal.addEventListener('abort', () => xhr.abort(), { once: true });
+    }
+
+    xhr.send(formData);
+  });
+}
@@ -0,0 +1,56 @@
+import { ProgressStage } from '@/types/exif';
+
+// Reports a server-side stage. `progress` is the share of the server's work
+// done so far (0-100); the client folds it together with the upload.
+export type ProgressReporter = (stage: ProgressStage, progress: number, message: string) => void;
+
+export interface StreamedError {
+  error: string;
+  status: number;
+}
+
+/**
+ * Whether the client asked for stage events (Accept: text/event-stream)
+ * instead of a single JSON response.
+ */
+export function wantsProgressStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Run `work` and stream its stages as Server-Sent Events: a `progress` event
+ * per stage, then either `result` with the JSON payload or `error` with the
+ * message and the HTTP status the plain JSON response would have used. The
+ * HTTP status itself is always 200 because it is sent before the work runs.
+ */
+export function streamProgress<T>(
+  work: (report: ProgressReporter) => Promise<T>,
+  describeError: (error: unknown) => StreamedError
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const result = await work((stage, progress, message) => send('progress', { stage, progress, message }));
+        send('result', result);
+      } catch (error) {
+        send('error', describeError(error));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
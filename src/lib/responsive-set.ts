@@ -0,0 +1,145 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { ANIMATED_OUTPUT_FORMATS, applyConversionOptions, BULK_ENCODE_OVERRIDES, openImage } from '@/lib/image-encoder';
+import { FORMAT_CAPABILITIES } from '@/lib/conversion-options';
+import type { ProgressReporter } from '@/lib/progress-stream';
+import {
+  OUTPUT_FORMATS, ResponsiveImageFile, ResponsiveImageManifest, ResponsiveImageSetResult
+} from '@/types/exif';
+
+export interface ResponsiveSetRequest {
+  widths: number[];
+  formats: string[];
+  sizes: string;
+  alt: string;
+}
+
+// Browsers take the first <source> they support, so the most efficient formats go first
+const SOURCE_ORDER = ['avif', 'webp', 'png', 'gif', 'jpeg', 'jpg'];
+// Formats every browser can show, used for the <img> fallback
+const FALLBACK_FORMATS = ['jpeg', 'jpg', 'png', 'gif'];
+
+function toSlug(filename: string): string {
+  const slug = path.parse(filename).name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return slug || 'image';
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Build a <picture> element for the generated files: one <source> per modern
+ * format and an <img> fallback in a universally supported one, pointing at
+ * its largest rendition. Files are referenced by name, relative to the page.
+ */
+export function buildPictureHtml(files: ResponsiveImageFile[], sizes: string, alt: string): string {
+  const byFormat = new Map<string, ResponsiveImageFile[]>();
+  for (const file of files) {
+    byFormat.set(file.format, [...(byFormat.get(file.format) ?? []), file]);
+  }
+
+  const formats = [...byFormat.keys()].sort((a, b) => SOURCE_ORDER.indexOf(a) - SOURCE_ORDER.indexOf(b));
+  const fallback = FALLBACK_FORMATS.find(format => byFormat.has(format)) ?? formats[formats.length - 1];
+  const srcset = (format: string) =>
+    escapeAttribute(byFormat.get(format)!.map(file => `${file.filename} ${file.width}w`).join(', '));
+
+  const lines = ['<picture>'];
+  for (const format of formats) {
+    if (format === fallback) continue;
+    const { mimeType } = byFormat.get(format)![0];
+    lines.push(`  <source type="${mimeType}" srcset="${srcset(format)}" sizes="${escapeAttribute(sizes)}">`);
+  }
+
+  const fallbackFiles = byFormat.get(fallback)!;
+  const largest = fallbackFiles[fallbackFiles.length - 1];
+  lines.push(
+    `  <img src="${escapeAttribute(largest.filename)}" srcset="${srcset(fallback)}" sizes="${escapeAttribute(sizes)}"` +
+    ` width="${largest.width}" height="${largest.height}" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`
+  );
+  lines.push('</picture>');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Encode every requested width in every requested format and bundle the
+ * results with the <picture> snippet and a manifest. Output is auto-oriented
+ * and carries no metadata. Widths above the source width are skipped rather
+ * than upscaled; if all of them are, the source width is used instead.
+ */
+export async function generateResponsiveSet(
+  buffer: Buffer,
+  sourceName: string,
+  request: ResponsiveSetRequest,
+  report: ProgressReporter
+): Promise<ResponsiveImageSetResult> {
+  report('decoding', 5, 'Reading image structure...');
+  // PNG output never animates, so this opens the first frame only
+  const still = await openImage(buffer, 'png');
+  const metadata = await still.pipeline.metadata();
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const frameHeight = metadata.pageHeight ?? metadata.height ?? 0;
+  const sourceWidth = (rotated ? frameHeight : metadata.width) ?? 0;
+  const sourceHeight = (rotated ? metadata.width : frameHeight) ?? 0;
+
+  const fitting = request.widths.filter(width => width <= sourceWidth);
+  const widths = fitting.length > 0 ? fitting : [sourceWidth];
+  const skippedWidths = request.widths.filter(width => width > sourceWidth);
+
+  const slug = toSlug(sourceName);
+  const zip = new JSZip();
+  const files: ResponsiveImageFile[] = [];
+  const total = widths.length * request.formats.length;
+
+  for (const format of request.formats) {
+    const formatInfo = OUTPUT_FORMATS.find(candidate => candidate.extension === format)!;
+    const animated = still.animation !== undefined && ANIMATED_OUTPUT_FORMATS.has(format);
+    const input = animated ? await openImage(buffer, format) : still;
+    const frames = animated && input.animation ? input.animation.frames : 1;
+
+    for (const width of widths) {
+      report(
+        'encoding',
+        10 + Math.round((files.length / total) * 80),
+        `Encoding ${formatInfo.name} at ${width}px (${files.length + 1} of ${total})...`
+      );
+
+      const options = { ...FORMAT_CAPABILITIES[format].defaults, ...BULK_ENCODE_OVERRIDES[format], width };
+      const { data, info } = await applyConversionOptions(input.pipeline.clone().rotate(), format, options)
+        .toBuffer({ resolveWithObject: true });
+
+      const filename = `${slug}-${width}w.${format}`;
+      zip.file(filename, data);
+      files.push({
+        filename,
+        format,
+        mimeType: formatInfo.mimeType,
+        width: info.width,
+        height: Math.round(info.height / frames),
+        size: data.length,
+      });
+    }
+  }
+
+  report('packaging', 95, 'Building ZIP...');
+  const manifest: ResponsiveImageManifest = {
+    source: { filename: sourceName, width: sourceWidth, height: sourceHeight, size: buffer.length },
+    sizes: request.sizes,
+    files,
+    skippedWidths,
+  };
+  const html = buildPictureHtml(files, request.sizes, request.alt);
+
+  zip.file('picture.html', html);
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  const archive = await zip.generateAsync({ type: 'nodebuffer' });
+
+  return {
+    filename: `${slug}-responsive.zip`,
+    size: archive.length,
+    data: archive.toString('base64'),
+    manifest,
+    html,
+  };
+}
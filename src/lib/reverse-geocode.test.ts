@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { reverseGeocode } from '@/lib/reverse-geocode';
+import { scorePrivacy } from '@/lib/privacy-score';
+import { describePlace } from '@/lib/utils';
+
+describe('reverseGeocode', () => {
+  it('attributes landmarks to the city they are in rather than a nearer suburb centre', async () => {
+    expect(await reverseGeocode(48.8584, 2.2945)).toEqual({
+      city: 'Paris',
+      region: 'Île-de-France',
+      country: 'France',
+      countryCode: 'FR',
+      distanceKm: 4,
+    });
+    expect(await reverseGeocode(40.6892, -74.0445)).toMatchObject({ city: 'New York City', countryCode: 'US' });
+  });
+
+  it('returns the distance to the centre for points outside any city', async () => {
+    const place = await reverseGeocode(0, -30);
+    expect(place).toMatchObject({ countryCode: 'BR' });
+    expect(place!.distanceKm).toBeGreaterThan(500);
+  });
+
+  it('ignores coordinates that are not finite', async () => {
+    expect(await reverseGeocode(Number.NaN, 2.2945)).toBeUndefined();
+    expect(await reverseGeocode(48.8584, Infinity)).toBeUndefined();
+  });
+});
+
+describe('describePlace', () => {
+  it('says "in" near the city and "about ... from" further out', async () => {
+    expect(describePlace((await reverseGeocode(51.5007, -0.1246))!)).toBe('in London, England, United Kingdom');
+    expect(describePlace((await reverseGeocode(49.2, 4.6))!)).toBe('about 32 km from Châlons-en-Champagne, Grand Est, France');
+  });
+
+  it('names the place in the privacy finding for GPS tags', async () => {
+    const place = await reverseGeocode(-33.8568, 151.2153);
+    const report = scorePrivacy([{ tag: 'GPSLatitude', value: -33.8568, category: 'high' }], { place });
+    expect(report.findings[0].reason).toBe(
+      'Exact GPS coordinates reveal this photo was taken in Sydney, New South Wales, Australia'
+    );
+  });
+});
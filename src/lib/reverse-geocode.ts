@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GeocodedPlace } from '@/types/exif';
+
+// GeoNames cities with at least 15,000 people, shipped with the app so that
+// looking up a photo's location never sends its coordinates anywhere
+const GAZETTEER_PATH = path.join(process.cwd(), 'src', 'data', 'cities15000.tsv');
+
+const EARTH_RADIUS_KM = 6371;
+
+// People per km² used to turn a population into a rough city radius
+const URBAN_DENSITY = 20000;
+
+interface City {
+  name: string;
+  region: string;
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+  radiusKm: number; // of a round city of this population at URBAN_DENSITY
+}
+
+let gazetteer: Promise<City[]> | undefined;
+
+function parseGazetteer(text: string): City[] {
+  const cities: City[] = [];
+  for (const line of text.split('\n')) {
+    if (line === '' || line.startsWith('#')) continue;
+    const [name, latitude, longitude, countryCode, region, population] = line.split('\t');
+    cities.push({
+      name,
+      region,
+      countryCode,
+      latitude: Number(latitude),
+      longitude: Number(longitude),
+      radiusKm: Math.sqrt(Number(population) / URBAN_DENSITY / Math.PI),
+    });
+  }
+  return cities;
+}
+
+function loadGazetteer(): Promise<City[]> {
+  if (!gazetteer) {
+    gazetteer = fs.readFile(GAZETTEER_PATH, 'utf8').then(parseGazetteer);
+    // Let the next lookup retry rather than caching the failure
+    gazetteer.catch(() => { gazetteer = undefined; });
+  }
+  return gazetteer;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle distance in kilometres
+function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+function countryName(code: string): string {
+  try {
+    return countryNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Find the city a coordinate belongs to in the bundled gazetteer. Distances
+ * are measured to the edge of each city's rough radius rather than to its
+ * centre, so a landmark in a capital is not attributed to a suburb whose
+ * centre happens to be closer. The match is not always where the photo was
+ * taken (a village near a border, a ship at sea), so the distance to the
+ * centre is returned with it.
+ */
+export async function reverseGeocode(latitude: number, longitude: number): Promise<GeocodedPlace | undefined> {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return undefined;
+
+  const cities = await loadGazetteer();
+  let nearest: City | undefined;
+  let nearestDistance = Infinity;
+  let nearestScore = Infinity;
+
+  for (const city of cities) {
+    const distance = haversine(latitude, longitude, city.latitude, city.longitude);
+    if (distance - city.radiusKm < nearestScore) {
+      nearest = city;
+      nearestDistance = distance;
+      nearestScore = distance - city.radiusKm;
+    }
+  }
+
+  if (!nearest) return undefined;
+
+  return {
+    city: nearest.name,
+    region: nearest.region || undefined,
+    country: countryName(nearest.countryCode),
+    countryCode: nearest.countryCode,
+    distanceKm: Math.round(nearestDistance * 10) / 10,
+  };
+}
@@ -0,0 +1,63 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { applyConversionOptions } from '@/lib/image-encoder';
+import { encodeToTargetSize } from '@/lib/target-size';
+
+// Deterministic noise, so the encoded sizes respond to quality the way photos do
+function noiseImage(width: number, height: number): sharp.Sharp {
+  const pixels = Buffer.alloc(width * height * 3);
+  let seed = 42;
+  for (let i = 0; i < pixels.length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    pixels[i] = seed >> 23;
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } });
+}
+
+const noReport = () => {};
+
+describe('encodeToTargetSize', () => {
+  it('keeps the requested quality when it already fits', async () => {
+    const { buffer, result } = await encodeToTargetSize(
+      noiseImage(64, 64), 'jpeg', { quality: 80 }, { bytes: 1_000_000, allowResize: false }, 1_000_000, 1, noReport
+    );
+
+    expect(result).toMatchObject({ fits: true, quality: 80, width: 64, height: 64, resized: false, attempts: 1 });
+    expect(buffer.length).toBeLessThanOrEqual(1_000_000);
+  });
+
+  it('finds the highest quality that fits the budget', async () => {
+    const image = noiseImage(128, 128);
+    const sizeAt = async (quality: number) => (await applyConversionOptions(image.clone(), 'jpeg', { quality }).toBuffer()).length;
+    const budget = Math.round((await sizeAt(30) + await sizeAt(31)) / 2);
+
+    const { buffer, result } = await encodeToTargetSize(
+      image, 'jpeg', { quality: 85 }, { bytes: budget, allowResize: false }, budget, 1, noReport
+    );
+
+    expect(result.fits).toBe(true);
+    expect(result.quality).toBe(30);
+    expect(buffer.length).toBeLessThanOrEqual(budget);
+  });
+
+  it('returns the smallest attempt when nothing fits', async () => {
+    const { buffer, result } = await encodeToTargetSize(
+      noiseImage(512, 512), 'jpeg', { quality: 85 }, { bytes: 1024, allowResize: false }, 1024, 1, noReport
+    );
+
+    expect(result).toMatchObject({ fits: false, quality: 5, resized: false, attempts: 2 });
+    expect(buffer.length).toBeGreaterThan(1024);
+  });
+
+  it('shrinks the image when resizing is allowed', async () => {
+    const { buffer, result } = await encodeToTargetSize(
+      noiseImage(256, 256), 'jpeg', { quality: 85 }, { bytes: 4096, allowResize: true }, 4096, 1, noReport
+    );
+
+    expect(result.fits).toBe(true);
+    expect(result.resized).toBe(true);
+    expect(result.quality).toBeGreaterThanOrEqual(40);
+    expect(result.width).toBeLessThan(256);
+    expect(buffer.length).toBeLessThanOrEqual(4096);
+  });
+});
@@ -0,0 +1,102 @@
+import sharp from 'sharp';
+import { applyConversionOptions } from '@/lib/image-encoder';
+import type { ProgressReporter } from '@/lib/progress-stream';
+import { ConversionOptions, TargetSizeRequest, TargetSizeResult } from '@/types/exif';
+
+const MIN_QUALITY = 5;
+// With resizing allowed, shrink the image rather than drop below this quality
+const MIN_QUALITY_WITH_RESIZE = 40;
+const MAX_RESIZE_STEPS = 6;
+const MIN_DIMENSION = 16;
+
+interface Attempt {
+  buffer: Buffer;
+  quality: number;
+  width: number;
+  height: number; // per frame for animations
+}
+
+/**
+ * Encode with the highest quality, up to `options.quality`, whose output fits
+ * in `budget` bytes. Quality is binary searched; when even the lowest quality
+ * is too big and the request allows it, the dimensions are reduced in steps
+ * and the search repeats. Allowing resizing also raises the lowest quality
+ * tried, so the budget is met with fewer pixels instead of heavy artifacts.
+ * Returns the smallest attempt with `fits: false` when nothing fits.
+ */
+export async function encodeToTargetSize(
+  pipeline: sharp.Sharp,
+  format: string,
+  options: ConversionOptions,
+  target: TargetSizeRequest,
+  budget: number,
+  frames: number,
+  report: ProgressReporter
+): Promise<{ buffer: Buffer; result: TargetSizeResult }> {
+  let attempts = 0;
+  const minQuality = target.allowResize ? MIN_QUALITY_WITH_RESIZE : MIN_QUALITY;
+
+  const encode = async (quality: number, box: ConversionOptions): Promise<Attempt> => {
+    attempts++;
+    const size = box.width !== undefined ? ` at ${box.width}×${box.height}` : '';
+    report('encoding', Math.min(30 + attempts * 3, 75), `Trying quality ${quality}${size}...`);
+
+    const { data, info } = await applyConversionOptions(pipeline.clone(), format, { ...box, quality })
+      .toBuffer({ resolveWithObject: true });
+    return { buffer: data, quality, width: info.width, height: Math.round(info.height / frames) };
+  };
+
+  // Sizes grow with quality closely enough for a binary search to land on
+  // the best fitting setting
+  const searchQuality = async (box: ConversionOptions): Promise<{ attempt: Attempt; fits: boolean }> => {
+    const maxQuality = options.quality ?? 85;
+    const best = await encode(maxQuality, box);
+    if (best.buffer.length <= budget || maxQuality <= minQuality) {
+      return { attempt: best, fits: best.buffer.length <= budget };
+    }
+
+    let fitting = await encode(minQuality, box);
+    if (fitting.buffer.length > budget) return { attempt: fitting, fits: false };
+
+    let low = minQuality;
+    let high = maxQuality;
+    while (high - low > 1) {
+      const quality = Math.floor((low + high) / 2);
+      const attempt = await encode(quality, box);
+      if (attempt.buffer.length <= budget) {
+        low = quality;
+        fitting = attempt;
+      } else {
+        high = quality;
+      }
+    }
+    return { attempt: fitting, fits: true };
+  };
+
+  let { attempt, fits } = await searchQuality(options);
+  let resized = false;
+
+  for (let step = 0; !fits && target.allowResize && step < MAX_RESIZE_STEPS; step++) {
+    // Bytes scale roughly with pixel count, so shrink the area by the overshoot
+    const scale = Math.min(0.9, Math.sqrt(budget / attempt.buffer.length) * 0.95);
+    const width = Math.max(MIN_DIMENSION, Math.floor(attempt.width * scale));
+    const height = Math.max(MIN_DIMENSION, Math.floor(attempt.height * scale));
+    if (width === attempt.width && height === attempt.height) break;
+
+    resized = true;
+    ({ attempt, fits } = await searchQuality({ ...options, width, height }));
+  }
+
+  return {
+    buffer: attempt.buffer,
+    result: {
+      target: target.bytes,
+      fits,
+      quality: attempt.quality,
+      width: attempt.width,
+      height: attempt.height,
+      resized,
+      attempts,
+    },
+  };
+}
@@ -1,5 +1,8 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { CaptureTime, GeocodedPlace } from "@/types/exif"
+import { formatUtcOffset } from "@/lib/geotag-options"
+import { parseUtcOffset } from "@/lib/gps-track"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -13,21 +16,55 @@ export function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
-export function formatDate(date: string | Date): string {
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+};
+
+// In the browser's time zone, or at a UTC offset such as "+02:00" and
+// labelled with it, which is how a photo's capture time should read
+export function formatDate(date: string | Date, utcOffset?: string): string {
   try {
     const d = new Date(date);
-    return d.toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
+    const minutes = utcOffset === undefined ? undefined : parseUtcOffset(utcOffset);
+    if (minutes === undefined) {
+      return d.toLocaleString('en-US', DATE_FORMAT);
+    }
+    const shifted = new Date(d.getTime() + minutes * 60000);
+    const zone = minutes === 0 ? 'UTC' : `UTC${formatUtcOffset(minutes)}`;
+    return `${shifted.toLocaleString('en-US', { ...DATE_FORMAT, timeZone: 'UTC' })} ${zone}`;
   } catch {
     return String(date);
   }
 }
 
+// A capture time as the camera's clock read it, with seconds, in its own zone
+// when known; without one it is shown as recorded rather than converted
+export function formatCaptureTime(capture: CaptureTime): string {
+  const options: Intl.DateTimeFormatOptions = { ...DATE_FORMAT, second: '2-digit', timeZone: 'UTC' };
+  const wallClock = new Date(`${capture.local}Z`).toLocaleString('en-US', options);
+  if (!capture.offset) return wallClock;
+  const minutes = parseUtcOffset(capture.offset);
+  return minutes ? `${wallClock} UTC${capture.offset}` : `${wallClock} UTC`;
+}
+
+// "Paris, Île-de-France, France", skipping a region named like the city
+export function formatPlaceName(place: GeocodedPlace): string {
+  const parts = [place.city, place.region, place.country].filter((part): part is string => Boolean(part));
+  return parts.filter((part, index) => parts.indexOf(part) === index).join(', ');
+}
+
+// Where a photo was taken, phrased to follow "taken": "in Paris, ..." or
+// "about 40 km from Reims, ..." when the point is well outside the city
+export function describePlace(place: GeocodedPlace): string {
+  return place.distanceKm > 10
+    ? `about ${Math.round(place.distanceKm)} km from ${formatPlaceName(place)}`
+    : `in ${formatPlaceName(place)}`;
+}
+
 export function generateId(): string {
   return Math.random().toString(36).substr(2, 9);
 }
@@ -43,6 +80,30 @@ export function downloadBlob(blob: Blob, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
+// "photo.jpg", then "photo-2.jpg" and so on, so archive entries that share a
+// name do not overwrite each other. ZIPs are often unpacked on case-insensitive disks.
+export function uniqueFilename(filename: string, usedNames: Set<string>): string {
+  const dot = filename.lastIndexOf('.');
+  const base = dot > 0 ? filename.slice(0, dot) : filename;
+  const extension = dot > 0 ? filename.slice(dot) : '';
+
+  let unique = filename;
+  for (let counter = 2; usedNames.has(unique.toLowerCase()); counter++) {
+    unique = `${base}-${counter}${extension}`;
+  }
+  usedNames.add(unique.toLowerCase());
+  return unique;
+}
+
+export function base64ToBlob(base64: string, mimeType: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
 export function validateImageFile(file: File): { valid: boolean; error?: string } {
   const maxSize = 50 * 1024 * 1024; // 50MB
   const allowedTypes = [
@@ -74,6 +135,21 @@ export function validateImageFile(file: File): { valid: boolean; error?: string
   return { valid: true };
 }
 
+export function isZipFile(file: File): boolean {
+  return file.type.includes('zip') || file.name.toLowerCase().endsWith('.zip');
+}
+
+export function isHeicFile(file: File): boolean {
+  return /^image\/hei[cf]/.test(file.type) || /\.(heic|heif)$/i.test(file.name);
+}
+
+// Browsers without HEIC support often report iPhone photos with an empty MIME type
+export function normalizeImageFile(file: File): File {
+  if (file.type || !isHeicFile(file)) return file;
+  const type = file.name.toLowerCase().endsWith('.heif') ? 'image/heif' : 'image/heic';
+  return new File([file], file.name, { type, lastModified: file.lastModified });
+}
+
 export function getImagePreviewUrl(file: File): string {
   return URL.createObjectURL(file);
 }
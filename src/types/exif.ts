@@ -1,15 +1,28 @@
+export type ExifBackend = 'exifr' | 'exiftool';
+
 export interface ExifTag {
   tag: string;
   value: any;
   description?: string;
   category: 'high' | 'medium' | 'safe';
   group?: string;
+  source?: ExifBackend;
 }
 
 export interface ExifData {
   [key: string]: any;
 }
 
+export interface IccProfileInfo {
+  name: string;        // the profile's own description tag, e.g. "Display P3"
+  description: string; // what the profile is for, in plain words
+  colorSpace: string;  // RGB, CMYK, Gray...
+  deviceClass: string; // Display, Output, Input...
+  version: string;
+  copyright?: string;
+  size: number;        // bytes
+}
+
 export interface ProcessedExifData {
   tags: ExifTag[];
   imageInfo: {
@@ -18,26 +31,350 @@ export interface ProcessedExifData {
     height: number;
     size: number;
     filename: string;
+    iccProfile?: IccProfileInfo; // absent when no profile is embedded
+    colorSpace?: string;         // what the EXIF tags claim, for images without a profile
   };
-  gpsData?: {
-    latitude: number;
-    longitude: number;
-    altitude?: number;
-  };
+  gpsData?: GpsData;
+  place?: GeocodedPlace; // nearest city to gpsData, from the offline gazetteer
+  captureTime?: CaptureTime;
   errors?: string[];
 }
 
+// When the photo was taken, in the time zone the camera was in
+export interface CaptureTime {
+  local: string;                   // wall clock as recorded, "YYYY-MM-DDTHH:MM:SS[.fff]" with no zone
+  source: 'DateTimeOriginal' | 'DateTimeDigitized' | 'DateTime';
+  offset?: string;                 // UTC offset such as "+02:00"
+  offsetSource?: 'exif' | 'gps';   // read from an OffsetTime tag, or inferred from the GPS clock
+  utc?: string;                    // ISO 8601 UTC, when the offset is known
+  gpsDifferenceSeconds?: number;   // camera clock minus GPS clock, when both are known
+  clockWarning?: string;
+}
+
+// A compass bearing; magnetic bearings are not corrected for declination
+export interface GpsBearing {
+  degrees: number;
+  reference: 'true' | 'magnetic';
+}
+
+// The decoded GPS IFD, with references applied and units kept alongside values
+export interface GpsData {
+  latitude: number;
+  longitude: number;
+  altitude?: number;          // meters, negative below sea level
+  timestamp?: string;         // ISO 8601 UTC, from GPSDateStamp and GPSTimeStamp
+  speed?: { value: number; unit: 'km/h' | 'mph' | 'knots' };
+  track?: GpsBearing;         // direction of travel
+  imgDirection?: GpsBearing;  // direction the camera was pointing
+  destination?: { latitude: number; longitude: number };
+  destBearing?: GpsBearing;
+  destDistance?: { value: number; unit: 'km' | 'mi' | 'nmi' };
+  dop?: number;               // dilution of precision, lower is better
+  horizontalErrorM?: number;  // GPSHPositioningError
+  accuracyM?: number;         // best estimate of horizontal accuracy, from the two above
+  measureMode?: '2D' | '3D';
+  status?: 'active' | 'void'; // void: the receiver had no fix when the photo was taken
+  satellites?: string;
+  mapDatum?: string;
+}
+
+export interface GeocodedPlace {
+  city: string;
+  region?: string;    // state, province or similar first-level division
+  country: string;
+  countryCode: string; // ISO 3166-1 alpha-2
+  distanceKm: number;  // from the coordinates to the city centre
+}
+
+export type StripPolicy = 'high' | 'high-medium' | 'all';
+
+export interface MetadataTagSummary {
+  tag: string;
+  group: string;
+  category: 'high' | 'medium' | 'safe';
+  value: string;
+}
+
+export type StrippedTag = MetadataTagSummary;
+
+export interface StripManifest {
+  policy: StripPolicy;
+  removed: StrippedTag[];
+  retainedCount: number;
+  warnings: string[];
+}
+
+export interface StripMetadataResult {
+  filename: string;
+  mimeType: string;
+  size: number;
+  data: string; // base64-encoded cleaned image
+  manifest: StripManifest;
+}
+
+export type PrivacyGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface PrivacyFinding {
+  id: string;
+  label: string;
+  weight: number;
+  reason: string;
+  tags: string[];
+}
+
+export interface PrivacyReport {
+  grade: PrivacyGrade;
+  score: number; // 0-100, higher is safer to share
+  findings: PrivacyFinding[];
+  summary: string;
+}
+
+export interface PrivacyScanResult {
+  report: PrivacyReport;
+  imageInfo: ProcessedExifData['imageInfo'];
+}
+
+export interface BatchExifEntry {
+  filename: string;
+  data?: ProcessedExifData;
+  privacy?: PrivacyReport;
+  error?: string;
+}
+
+export interface BatchExifSummary {
+  totalFiles: number;
+  processedFiles: number;
+  failedFiles: number;
+  withGps: number;
+  withSerialNumbers: number;
+  withOwnerNames: number;
+}
+
+export interface BatchExifResult {
+  files: BatchExifEntry[];
+  summary: BatchExifSummary;
+}
+
+// How coarse a rewritten GPS position is: rounded to a number of decimal
+// places, or moved to the centre of a square grid cell
+export type LocationPrecision =
+  | { kind: 'decimals'; decimals: number }
+  | { kind: 'grid'; cellKm: number };
+
+export interface CoarsenedLocation {
+  latitude: number;
+  longitude: number;
+  radiusM: number; // the original position lies within this distance
+}
+
+export interface CoarsenLocationResult {
+  filename: string;
+  mimeType: string;
+  size: number;
+  data: string; // base64-encoded image with the coarsened position
+  original: { latitude: number; longitude: number };
+  coarsened: CoarsenedLocation;
+  removed: StrippedTag[]; // precise GPS fields dropped alongside
+  warnings: string[];
+}
+
+// How photo timestamps are lined up with a GPS log
+export interface GeotagOptions {
+  timezone: string;           // UTC offset the camera clock was set to, e.g. "+02:00", or "auto" for OffsetTimeOriginal
+  clockOffsetSeconds: number; // how far the camera clock ran ahead of the GPS clock
+  maxGapSeconds: number;      // furthest a photo may be from a logged point
+  overwrite: boolean;         // replace GPS positions the images already have
+}
+
+export interface GeotagMatch {
+  filename: string;
+  status: 'matched' | 'unmatched' | 'skipped';
+  reason?: string;     // why the image was not matched or was skipped
+  captureTime?: string; // ISO 8601 UTC, after the timezone and clock offset are applied
+  utcOffset?: string;   // the camera's time zone, for showing captureTime as local time
+  position?: { latitude: number; longitude: number; altitude?: number };
+  gapSeconds?: number; // time between the photo and the nearest logged point
+}
+
+export interface GeotagResult {
+  matches: GeotagMatch[];
+  track: { latitude: number; longitude: number }[]; // thinned out for drawing
+  trackPoints: number;
+  trackStart: string;
+  trackEnd: string;
+  archive?: { filename: string; data: string }; // base64 ZIP of the geotagged images, when written
+  warnings: string[];
+}
+
+export interface MetadataEdit {
+  tag: string;
+  value: string | null; // null deletes the tag
+}
+
 export interface ImageFormat {
   extension: string;
   mimeType: string;
   name: string;
   quality?: number;
+  inputOnly?: boolean; // can be read but not produced by the converter
+}
+
+export type ChromaSubsampling = '4:4:4' | '4:2:0';
+
+export type ResizeFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+
+export interface ConversionOptions {
+  quality?: number;
+  lossless?: boolean;
+  chromaSubsampling?: ChromaSubsampling;
+  effort?: number;
+  progressive?: boolean; // progressive JPEG, interlaced PNG
+  width?: number;
+  height?: number;
+  fit?: ResizeFit;
+}
+
+export type RotationAngle = 0 | 90 | 180 | 270;
+
+export interface CropRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Geometric edits applied before resizing, relative to the image as it is
+// displayed. Cropping, rotating or flipping always auto-orients first.
+export interface TransformOptions {
+  autoOrient: boolean;   // apply the EXIF Orientation to the pixels and reset the tag
+  crop?: CropRegion;     // in pixels of the oriented image
+  rotate: RotationAngle; // clockwise, after cropping
+  flip: boolean;         // mirror top to bottom, after rotating
+  flop: boolean;         // mirror left to right, after rotating
+}
+
+export interface TransformResult {
+  orientation: number; // EXIF Orientation applied to the pixels; 1 when none was
+  width: number;       // size after transforming, before any resize
+  height: number;
+}
+
+export interface TargetSizeRequest {
+  bytes: number;         // the converted file must not exceed this
+  allowResize: boolean;  // shrink dimensions when the lowest quality is still too big
+}
+
+export interface TargetSizeResult {
+  target: number;
+  fits: boolean;    // false when even the smallest attempt exceeded the budget
+  quality: number;  // settings of the returned encode
+  width: number;
+  height: number;
+  resized: boolean; // dimensions were reduced to meet the budget
+  attempts: number; // encodes tried during the search
+}
+
+export type MetadataPolicy = 'keep-all' | 'keep-safe' | 'icc-only' | 'strip';
+
+export type ColorProfileMode = 'auto' | 'srgb' | 'preserve' | 'assign-display-p3' | 'assign-adobe-rgb';
+
+export interface ConversionMetadataReport {
+  policy: MetadataPolicy;
+  retained: MetadataTagSummary[];
+  warnings: string[];
+  colorProfile?: string; // name of the profile embedded in the output
+}
+
+export interface AnimationInfo {
+  frames: number;
+  loop: number;       // 0 repeats forever
+  delays: number[];   // per-frame delay in milliseconds
+  preserved: boolean; // false when only the first frame was converted
+}
+
+export interface QualityMetrics {
+  psnr: number | null; // dB over RGB; null when the pixels are identical
+  ssim: number;        // 0-1, mean structural similarity of the luma channel
+  width: number;       // resolution the metrics were measured at
+  height: number;
 }
 
+export interface FormatTrial {
+  format: string;
+  name: string;
+  size: number;
+  encodeMs: number;
+  quality: QualityMetrics | null; // null when the output could not be measured
+  acceptable: boolean;            // meets the requested minimum SSIM
+  error?: string;                 // the encoder failed; size and scores are 0/null
+}
+
+export interface FormatRecommendation {
+  trials: FormatTrial[];      // smallest output first, failed encodes last
+  recommended: string | null; // smallest acceptable format, null when none is
+  quality: number;            // quality setting used for the lossy encoders
+  minSsim: number;
+  originalSize: number;
+}
+
+export interface ResponsiveImageFile {
+  filename: string;
+  format: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+export interface ResponsiveImageManifest {
+  source: { filename: string; width: number; height: number; size: number };
+  sizes: string;          // the sizes attribute used in the snippet
+  files: ResponsiveImageFile[];
+  skippedWidths: number[]; // requested widths above the source width; images are never upscaled
+}
+
+export interface ResponsiveImageSetResult {
+  filename: string; // ZIP name
+  size: number;
+  data: string;     // base64-encoded ZIP of the images, picture.html and manifest.json
+  manifest: ResponsiveImageManifest;
+  html: string;     // the <picture> snippet
+}
+
+export interface ConvertImageResult {
+  filename: string;
+  mimeType: string;
+  size: number;
+  data: string; // base64-encoded converted image
+  metadata: ConversionMetadataReport;
+  animation?: AnimationInfo; // present for multi-frame input
+  targetSize?: TargetSizeResult; // present when a target size was requested
+  quality?: QualityMetrics; // present when measureQuality was requested and the comparison could be made
+  transform?: TransformResult; // present when transforms were requested
+}
+
+export type ProgressStage =
+  | 'idle'
+  | 'uploading'
+  // conversion
+  | 'decoding'
+  | 'encoding'
+  | 'metadata'
+  | 'measuring'
+  | 'packaging'
+  // extraction
+  | 'parsing'
+  | 'dimensions'
+  | 'deep-scan'
+  | 'complete'
+  | 'error';
+
 export interface ConversionProgress {
-  stage: string;
-  progress: number;
+  stage: ProgressStage;
+  progress: number; // 0-100; covers the upload and the server-side stages
   message: string;
+  loaded?: number;  // bytes sent so far while uploading
+  total?: number;   // request size in bytes while uploading
 }
 
 export interface PuzzlePiece {
@@ -63,6 +400,38 @@ export const SUPPORTED_FORMATS: ImageFormat[] = [
   { extension: 'avif', mimeType: 'image/avif', name: 'AVIF', quality: 85 },
   { extension: 'tiff', mimeType: 'image/tiff', name: 'TIFF' },
   { extension: 'gif', mimeType: 'image/gif', name: 'GIF' },
+  { extension: 'heic', mimeType: 'image/heic', name: 'HEIC', inputOnly: true },
+];
+
+export const OUTPUT_FORMATS = SUPPORTED_FORMATS.filter(format => !format.inputOnly);
+
+export const STRIP_POLICIES: { value: StripPolicy; label: string; description: string }[] = [
+  { value: 'high', label: 'Most Sensitive', description: 'Remove high-risk tags (GPS, dates, names, serials)' },
+  { value: 'high-medium', label: 'Sensitive + Moderate', description: 'Also remove camera, lens and shooting settings' },
+  { value: 'all', label: 'Everything', description: 'Remove all embedded metadata, including the color profile' },
+];
+
+// Rough reading of SSIM scores, best first
+export const SSIM_RATINGS: { min: number; label: string; className: string }[] = [
+  { min: 0.98, label: 'Visually identical', className: 'bg-green-500/20 text-green-300' },
+  { min: 0.95, label: 'Good', className: 'bg-green-500/20 text-green-300' },
+  { min: 0.9, label: 'Noticeable loss', className: 'bg-yellow-500/20 text-yellow-300' },
+  { min: 0, label: 'Poor', className: 'bg-red-500/20 text-red-300' },
+];
+
+export const METADATA_POLICIES: { value: MetadataPolicy; label: string; description: string }[] = [
+  { value: 'strip', label: 'Strip All', description: 'Remove all metadata and convert colors to sRGB' },
+  { value: 'icc-only', label: 'Color Profile Only', description: 'Keep the ICC profile so colors render correctly' },
+  { value: 'keep-safe', label: 'Safe Tags Only', description: 'Keep the color profile and low-risk tags; drop GPS, dates, names, serials and camera details' },
+  { value: 'keep-all', label: 'Keep Everything', description: 'Copy all EXIF, XMP and ICC metadata to the converted image' },
+];
+
+export const COLOR_PROFILE_MODES: { value: ColorProfileMode; label: string; description: string }[] = [
+  { value: 'auto', label: 'Follow Metadata Policy', description: 'Convert to sRGB, keeping the original profile only when the policy keeps it' },
+  { value: 'srgb', label: 'Convert to sRGB', description: 'Convert colors to sRGB and embed the sRGB profile' },
+  { value: 'preserve', label: 'Preserve Embedded', description: 'Keep the original pixel values and profile, even with Strip All' },
+  { value: 'assign-display-p3', label: 'Assign Display P3', description: 'Tag the pixels as Display P3 without converting them' },
+  { value: 'assign-adobe-rgb', label: 'Assign Adobe RGB', description: 'Tag the pixels as Adobe RGB (1998) without converting them' },
 ];
 
 export const PRIVACY_CATEGORIES = {
@@ -0,0 +1,21 @@
+declare module 'heic-decode' {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray; // RGBA
+  }
+
+  interface HeicImage {
+    width: number;
+    height: number;
+    decode(): Promise<DecodedImage>;
+  }
+
+  function decode(input: { buffer: ArrayBuffer | Uint8Array }): Promise<DecodedImage>;
+
+  namespace decode {
+    function all(input: { buffer: ArrayBuffer | Uint8Array }): Promise<HeicImage[]>;
+  }
+
+  export default decode;
+}